@@ -6,11 +6,13 @@ import rateLimit from 'express-rate-limit';
 import { loggingMiddleware } from '../middleware/logger.middleware';
 import { errorMiddleware } from '../middleware/error.middleware';
 import { securityMiddleware } from '../middleware/security.middleware';
+import { piiMaskingMiddleware } from '../middleware/piiMasking.middleware';
 import client from 'prom-client';
 import logger from '@shared/utils/logger';
 
 // Routes
 import demographicsRoutes from '../routes/demographics.routes';
+import demographicsV2Routes from '../routes/demographics.v2.routes';
 import documentsRoutes from '../routes/documents.routes';
 import adminRoutes from '../routes/admin.route';
 import healthRoutes from '../routes/health.route';
@@ -62,12 +64,15 @@ app.use(errorMiddleware);
 // })
 
 // API Routes (v1)
-app.use('/external/v1/demographics', demographicsRoutes);
+app.use('/external/v1/demographics', piiMaskingMiddleware(), demographicsRoutes);
 app.use('/external/v1/documents', documentsRoutes);
 app.use('/external/v1/admin', adminRoutes);
 app.use('/external/v1/health', healthRoutes);
 app.use('/external/v1/monitoring', monitoringRoutes);
 
+// API Routes (v2)
+app.use('/external/v2/demographics', piiMaskingMiddleware(), demographicsV2Routes);
+
 // Legacy routes (redirect to v1)
 app.use('/external/demographics', (req, res) => res.redirect(301, '/external/v1' + req.originalUrl));
 app.use('/external/documents', (req, res) => res.redirect(301, '/external/v1' + req.originalUrl));
@@ -96,7 +101,7 @@ app.get('/external', (req, res) => {
   res.json({
     service: 'Demographics API',
     version: '1.0.0',
-    availableVersions: ['v1'],
+    availableVersions: ['v1', 'v2'],
     currentVersion: 'v1',
     endpoints: {
       v1: {
@@ -107,6 +112,10 @@ app.get('/external', (req, res) => {
         health: '/external/v1/health',
         monitoring: '/external/v1/monitoring',
       },
+      v2: {
+        base: '/external/v2',
+        demographics: '/external/v2/demographics',
+      },
     },
   });
 });
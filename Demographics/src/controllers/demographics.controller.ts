@@ -2,15 +2,70 @@
 import { Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import {
+  AuditContext,
+  BulkUpdateDemographicsEntry,
+  BulkUpdateDemographicsRequest,
+  DEFAULT_DEMOGRAPHICS_SORT,
   Demographics,
+  DemographicsBatchItem,
+  DemographicsChanges,
+  DemographicsDuplicateMatch,
+  DemographicsExternalId,
+  DemographicsExternalIdConflict,
+  DemographicsExternalIdParamsSchema,
+  DemographicsFilters,
+  DemographicsFinancials,
+  DemographicsRuleViolation,
+  DemographicsSort,
+  CreateDemographicsQuery,
   CreateDemographicsRequest,
+  GetDemographicByIdQuery,
+  GetDemographicsHistoryQuery,
+  GetDemographicsHistoryQuerySchema,
   GetDemographicsQuery,
+  GetDemographicsQuerySchema,
+  IMMUTABLE_DEMOGRAPHICS_FIELDS,
+  MergeDemographicsRequest,
+  FinancialsMode,
+  OnDuplicate,
+  PatchDemographicsRequest,
+  PatchDemographicsRequestSchema,
+  UpdateDemographicsRuleRequest,
+  UpsertDemographicsQuery,
+  Versioned,
 } from '@shared/types/demographics';
 import { AuthenticatedRequest } from '@shared/types/express-extensions';
 import { databaseService } from '@shared/database/database.service';
 import { fifoQueueService } from '@shared/services/fifoQueue.service';
+import { countBatchItems, demographicsBatchService } from '@shared/services/demographicsBatch.service';
+import { demographicsRetentionService } from '@shared/services/demographicsRetention.service';
+import { demographicsRulesService } from '@shared/services/demographicsRules.service';
+import {
+  demographicsExternalIdService,
+  externalIdConflictMessage,
+} from '@shared/services/demographicsExternalIds.service';
+import { fieldEncryptionService, PII_SCOPE, piiReadOptions } from '@shared/services/fieldEncryption.service';
+import { decodeCursor, encodeCursor, sortKey } from '@shared/utils/cursor';
+import {
+  hasAddressChanges,
+  normalizeAddressChanges,
+  withNormalizedAddresses,
+} from '@shared/utils/demographics.address';
+import { withDateOnlyFields } from '@shared/utils/demographics.dates';
+import { toDemographicsFilters } from '@shared/utils/demographics.filters';
+import { computeDemographicsFinancials } from '@shared/utils/demographics.financials';
+import { findDuplicates } from '@shared/utils/demographics.matching';
+import {
+  hasPhoneChanges,
+  normalizePhoneChanges,
+  withNormalizedPhones,
+} from '@shared/utils/demographics.phone';
+import { hasRuleCheckedChanges } from '@shared/utils/demographics.rules';
+import { formatETag } from '@shared/utils/etag';
 import { logger } from '@shared/utils/logger';
 
+const IMMUTABLE_FIELDS = new Set<string>(IMMUTABLE_DEMOGRAPHICS_FIELDS);
+
 export class DemographicsController {
   /**
    * POST /api/v1/demographics
@@ -31,21 +86,51 @@ export class DemographicsController {
       });
 
       const demographicsData: CreateDemographicsRequest = req.body;
+      const { on_duplicate = 'flag', financials: financialsMode }: CreateDemographicsQuery = req.query;
       const now = new Date().toISOString();
 
-      const demographics: Demographics = {
+      const demographics: Demographics = withNormalizedPhones(withNormalizedAddresses({
         id: uuidv4(),
         partitionKey: req.auth.lawFirm,
-        ...demographicsData,
+        ...withDateOnlyFields(demographicsData),
         law_firm: req.auth.lawFirm,
         created_at: now,
         updated_at: now,
         created_by: req.auth.apiKey.created_by,
-        status: 'active'
-      };
+        status: 'active' as const,
+      }));
+
+      const financials = applyFinancials(demographics, financialsMode);
+      if (financials && financialsMode === 'strict' && financials.mismatches.length > 0) {
+        res.status(422).json(financialsMismatchResponse(financials, req.requestId));
+        return;
+      }
+
+      const [conflicts] = await demographicsExternalIdService.conflicts(req.auth.lawFirm, [demographics]);
+      if (conflicts.length > 0) {
+        res.status(409).json(externalIdConflictResponse(conflicts, req.requestId));
+        return;
+      }
+
+      if (on_duplicate !== 'allow') {
+        const duplicates = await databaseService.findDuplicateDemographics(req.auth.lawFirm, demographics);
+        if (duplicates.length > 0) {
+          logger.warn('Likely duplicate demographics submission', {
+            requestId: req.requestId,
+            lawFirm: req.auth.lawFirm,
+            duplicateIds: duplicates.map(duplicate => duplicate.id),
+          });
+
+          res.status(409).json(duplicateResponse(on_duplicate, duplicates, req.requestId));
+          return;
+        }
+      }
 
       // Save to database
-      await databaseService.createDemographic(demographics);
+      await databaseService.createDemographic(demographics, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
 
       // Queue for processing
       await fifoQueueService.addDemographicsMessage(req.auth.lawFirm, {
@@ -87,6 +172,8 @@ export class DemographicsController {
           status: 'accepted',
           created_at: demographics.created_at,
         },
+        ...(req.ruleWarnings?.length && { warnings: req.ruleWarnings }),
+        ...(financials && { financials }),
         requestId: req.requestId,
         processingTime,
       });
@@ -108,6 +195,7 @@ export class DemographicsController {
 
     try {
       const { demographics, webhook_url, webhook_events, batch_options } = req.body;
+      const { on_duplicate = 'flag', financials: financialsMode }: CreateDemographicsQuery = req.query;
       const correlationId = uuidv4();
 
       logger.info('Batch demographics creation started', {
@@ -117,89 +205,410 @@ export class DemographicsController {
         correlationId
       });
 
-      const results = [];
       const now = new Date().toISOString();
 
-      for (let i = 0; i < demographics.length; i++) {
-        const demographicsData = demographics[i];
+      const records: Demographics[] = demographics.map((demographicsData: CreateDemographicsRequest) => withNormalizedPhones(withNormalizedAddresses({
+        id: uuidv4(),
+        partitionKey: req.auth.lawFirm,
+        ...withDateOnlyFields(demographicsData),
+        law_firm: req.auth.lawFirm,
+        created_at: now,
+        updated_at: now,
+        created_by: req.auth.apiKey.created_by,
+        status: 'active' as const,
+      })));
+
+      // Items breaking an error-severity business rule, or with totals that
+      // do not add up in strict mode, are reported and skipped
+      const violations = await demographicsRulesService.evaluate(req.auth.lawFirm, demographics.map(withDateOnlyFields));
+      const financials = records.map(record => applyFinancials(record, financialsMode));
+      const invalid = new Set(
+        records
+          .map((_, index) =>
+            violations[index].some(violation => violation.severity === 'error') ||
+            (financialsMode === 'strict' && (financials[index]?.mismatches.length ?? 0) > 0) ? index : -1)
+          .filter(index => index >= 0)
+      );
 
-        try {
-          const demographic: Demographics = {
-            id: uuidv4(),
-            partitionKey: req.auth.lawFirm,
-            law_firm: req.auth.lawFirm,
-            ...demographicsData,
-            created_at: now,
-            updated_at: now,
-            created_by: req.auth.apiKey.created_by,
-            status: 'active'
+      // External ids already held, by a stored record or an earlier item, refuse the item
+      const conflicts = await demographicsExternalIdService.conflicts(req.auth.lawFirm, records, invalid);
+      const skipped = new Set([...invalid, ...conflicts.flatMap((matches, index) => (matches.length > 0 ? [index] : []))]);
+
+      // Every item is checked before anything is written so reject can refuse the whole batch
+      const duplicates = on_duplicate === 'allow'
+        ? records.map((): DemographicsDuplicateMatch[] => [])
+        : await this.findBatchDuplicates(req.auth.lawFirm, records, skipped);
+
+      if (on_duplicate === 'reject' && duplicates.some(matches => matches.length > 0)) {
+        res.status(409).json({
+          ...duplicateResponse(on_duplicate, [], req.requestId),
+          duplicates: duplicates
+            .map((matches, index) => ({ index, duplicates: matches }))
+            .filter(item => item.duplicates.length > 0),
+        });
+        return;
+      }
+
+      // Items refused before anything is written: invalid, conflicting, then likely duplicates
+      const refusals = records.map((_, index) => {
+        if (invalid.has(index)) {
+          return {
+            index,
+            status: 'invalid' as const,
+            violations: violations[index],
+            ...(financials[index] && { financials: financials[index] }),
           };
+        }
+        if (conflicts[index].length > 0) {
+          return { index, status: 'conflict' as const, conflicts: conflicts[index] };
+        }
+        if (duplicates[index].length > 0) {
+          return { index, status: 'duplicate' as const, duplicates: duplicates[index] };
+        }
+        return null;
+      });
 
-          await databaseService.createDemographic(demographic);
-
-          await fifoQueueService.addDemographicsMessage(
-            req.auth.lawFirm,
-            {
-              id: demographic.id,
-              action: 'process',
-              data: demographic,
-              batch_info: {
-                correlation_id: correlationId,
-                batch_size: demographics.length,
-                batch_index: i,
-              },
-            },
-            batch_options?.priority ?? 5,
-          );
-
-          results.push({
-            index: i,
-            id: demographic.id,
-            sf_id: demographic.sf_id,
-            status: 'accepted' as const,
-            created_at: demographic.created_at,
-          });
-        } catch (itemError) {
-          logger.error('Batch item processing failed', {
-            error: itemError,
-            index: i,
-            requestId: req.requestId,
-          });
+      const atomic = batch_options?.atomic ?? false;
+      const audit = { keyId: req.auth.keyId, requestId: req.requestId };
+      const accepted = records
+        .map((record, index) => ({ record, index }))
+        .filter(({ index }) => refusals[index] === null);
 
-          results.push({
-            index: i,
-            status: 'failed' as const,
-            error: itemError instanceof Error ? itemError.message : 'Processing failed',
-          });
+      // One refused item refuses an atomic batch, with every item's errors
+      if (atomic && accepted.length < records.length) {
+        res.status(422).json({
+          success: false,
+          error: 'Batch rejected; no records were created',
+          code: 'BATCH_REJECTED',
+          errors: refusals.filter(refusal => refusal !== null),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Item errors by record id. An atomic batch that fails to insert fails the request.
+      let failures = new Map<string, string>();
+      if (atomic) {
+        await databaseService.createDemographicsBatch(records, audit);
+      } else {
+        failures = await this.createBatchRecords(accepted.map(({ record }) => record), audit);
+      }
+
+      // The batch is recorded before anything is queued so the worker always finds it
+      await demographicsBatchService.create(
+        req.auth.lawFirm,
+        correlationId,
+        records.map((record, index): Omit<DemographicsBatchItem, 'updated_at'> => {
+          if (invalid.has(index)) {
+            const mismatches = financialsMode === 'strict' ? financials[index]?.mismatches : undefined;
+            return { index, status: 'failed', reason: invalidReason(violations[index], mismatches) };
+          }
+          if (conflicts[index].length > 0) {
+            return { index, status: 'failed', reason: externalIdConflictMessage(conflicts[index]) };
+          }
+          if (duplicates[index].length > 0) {
+            return {
+              index,
+              status: 'failed',
+              reason: `Likely duplicate of ${duplicates[index].map(match => match.id).join(', ')}`,
+            };
+          }
+          const failure = failures.get(record.id);
+          return failure ? { index, status: 'failed', reason: failure } : { index, id: record.id, status: 'accepted' };
+        }),
+        {
+          webhook_url,
+          notify_on_completion: Boolean(webhook_url && batch_options?.notify_on_completion),
+        }
+      );
+
+      const created = accepted.filter(({ record }) => !failures.has(record.id));
+      const queued = await fifoQueueService.addDemographicsMessages(
+        req.auth.lawFirm,
+        created.map(({ record, index }) => ({
+          id: record.id,
+          action: 'process',
+          data: record,
+          batch_info: {
+            correlation_id: correlationId,
+            batch_size: demographics.length,
+            batch_index: index,
+          },
+        })),
+        batch_options?.priority ?? 5,
+      );
+      if (queued.error) {
+        const unsent = created.slice(queued.sent);
+        logger.error('Batch items could not be queued', {
+          error: queued.error,
+          count: unsent.length,
+          requestId: req.requestId,
+        });
+
+        // The records were saved but will not be processed; those already queued will be
+        const message = queued.error instanceof Error ? queued.error.message : 'Processing failed';
+        for (const { record, index } of unsent) {
+          failures.set(record.id, message);
+          await demographicsBatchService.setItemStatus(correlationId, index, 'failed', message);
         }
       }
 
-      // Send completion webhook if requested
-      if (webhook_url && batch_options?.notify_on_completion) {
-        await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
-          event: 'demographics.batch_completed',
-          data: {
+      const results = records.map((demographic, i) => {
+        const refusal = refusals[i];
+        if (refusal) return refusal;
+
+        const failure = failures.get(demographic.id);
+        if (failure) {
+          return { index: i, status: 'failed' as const, error: failure };
+        }
+
+        return {
+          index: i,
+          id: demographic.id,
+          sf_id: demographic.sf_id,
+          status: 'accepted' as const,
+          created_at: demographic.created_at,
+          ...(violations[i].length > 0 && { warnings: violations[i] }),
+          ...(financials[i] && { financials: financials[i] }),
+        };
+      });
+
+      // A batch with nothing queued is already finished; otherwise the worker completes it
+      await demographicsBatchService.completeIfFinished(correlationId);
+
+      const successCount = results.filter(r => r.status === 'accepted').length;
+      const processingTime = Date.now() - startTime;
+
+      res.status(202)
+        .location(`${req.baseUrl}/batches/${correlationId}`)
+        .json({
+          success: true,
+          message: `Accepted ${successCount} of ${demographics.length} records for processing`,
+          data: results,
+          metadata: {
             correlation_id: correlationId,
             batch_size: demographics.length,
-            successful_count: results.filter(r => r.status === 'accepted').length,
+            successful_count: successCount,
             failed_count: results.filter(r => r.status === 'failed').length,
-            webhook_url,
+            duplicate_count: results.filter(r => r.status === 'duplicate').length,
+            conflict_count: results.filter(r => r.status === 'conflict').length,
+            invalid_count: invalid.size,
+            atomic,
+            processing_time: processingTime,
           },
+          requestId: req.requestId,
+        });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/batches/:correlation_id
+   * State of a batch submission and each of its items
+   */
+  async getBatch(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const batch = await demographicsBatchService.get(req.auth.lawFirm, String(req.params.correlation_id));
+      if (!batch) {
+        res.status(404).json({
+          success: false,
+          error: 'Batch not found',
+          code: 'BATCH_NOT_FOUND',
+          requestId: req.requestId,
         });
+        return;
       }
 
-      const successCount = results.filter(r => r.status === 'accepted').length;
+      res.status(200).json({
+        success: true,
+        data: { ...batch, counts: countBatchItems(batch.items) },
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /external/v1/demographics/update
+   * Apply changes to many records, each named by id, sf_id or law_firm_client_id
+   */
+  async updateBatch(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const { updates, batch_options }: BulkUpdateDemographicsRequest = req.body;
+      const atomic = batch_options?.atomic ?? false;
+      const audit = { keyId: req.auth.keyId, requestId: req.requestId };
+
+      logger.info('Bulk demographics update started', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        count: updates.length,
+        atomic,
+      });
+
+      // Records named by an external id are looked up together
+      const ids: (string | null)[] = updates.map(entry => entry.id ?? null);
+      const lookups = updates.flatMap((entry, index) => {
+        const externalId = entryExternalId(entry);
+        return externalId ? [{ index, externalId }] : [];
+      });
+      const holders = await demographicsExternalIdService.resolveAll(
+        req.auth.lawFirm,
+        lookups.map(lookup => lookup.externalId)
+      );
+      lookups.forEach(({ index }, i) => { ids[index] = holders[i]; });
+
+      const parsed = updates.map(entry => PatchDemographicsRequestSchema.safeParse(entry.changes));
+      const changes: (DemographicsChanges | null)[] = parsed.map(result => (result.success ? result.data : null));
+
+      // Address and phone changes are normalized and checked against the record they update
+      const violations: DemographicsRuleViolation[][] = updates.map(() => []);
+      for (const [index, entryChanges] of changes.entries()) {
+        if (!entryChanges || !ids[index]) continue;
+
+        const checked = await this.checkChanges(req.auth.lawFirm, ids[index]!, entryChanges);
+        changes[index] = checked.changes;
+        violations[index] = checked.violations;
+      }
+
+      const unchecked = new Set(updates.flatMap((_, index) => (changes[index] && ids[index] ? [] : [index])));
+      const conflicts = await demographicsExternalIdService.conflicts(
+        req.auth.lawFirm,
+        updates.map((_, index) => ({ ...changes[index], id: ids[index] ?? '' })),
+        unchecked
+      );
+
+      // Entries refused before anything is written: invalid, unknown record, then conflicting
+      const refusals = updates.map((_, index) => {
+        const result = parsed[index];
+        if (!result.success) {
+          return {
+            index,
+            status: 'invalid' as const,
+            errors: result.error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message })),
+          };
+        }
+        if (violations[index].some(violation => violation.severity === 'error')) {
+          return { index, status: 'invalid' as const, violations: violations[index] };
+        }
+        if (!ids[index]) {
+          return { index, status: 'not_found' as const };
+        }
+        if (conflicts[index].length > 0) {
+          return { index, status: 'conflict' as const, conflicts: conflicts[index] };
+        }
+        return null;
+      });
+
+      const accepted = updates.flatMap((_, index) =>
+        refusals[index] === null ? [{ index, id: ids[index]!, changes: changes[index]! }] : []);
+
+      // One refused entry refuses an atomic update, with every entry's errors
+      if (atomic && accepted.length < updates.length) {
+        res.status(422).json({
+          success: false,
+          error: 'Batch rejected; no records were updated',
+          code: 'BATCH_REJECTED',
+          errors: refusals.filter(refusal => refusal !== null),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Updated records and write errors by entry index
+      const updated = new Map<number, Versioned<Demographics>>();
+      const failures = new Map<number, string>();
+      if (atomic) {
+        const result = await databaseService.updateDemographicsBatch(req.auth.lawFirm, accepted, audit);
+        if (result.status === 'not_found') {
+          // Deleted after it was looked up
+          res.status(422).json({
+            success: false,
+            error: 'Batch rejected; no records were updated',
+            code: 'BATCH_REJECTED',
+            errors: [{ index: accepted[result.index].index, status: 'not_found' }],
+            requestId: req.requestId,
+          });
+          return;
+        }
+        result.records.forEach((record, i) => updated.set(accepted[i].index, record));
+      } else {
+        for (const { index, id, changes: entryChanges } of accepted) {
+          try {
+            const result = await databaseService.updateDemographic(id, req.auth.lawFirm, entryChanges, undefined, audit);
+            if (result.status === 'ok') {
+              updated.set(index, result.record);
+            } else {
+              failures.set(index, 'Demographic record not found');
+            }
+          } catch (updateError) {
+            logger.error('Bulk update entry failed', { error: updateError, id, requestId: req.requestId });
+            failures.set(index, updateError instanceof Error ? updateError.message : 'Update failed');
+          }
+        }
+      }
+
+      for (const [index, record] of updated) {
+        try {
+          await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+            event: 'demographics.updated',
+            data: {
+              id: record.id,
+              sf_id: record.sf_id,
+              updated_fields: Object.keys(updates[index].changes),
+              updated_at: record.updated_at,
+            },
+          });
+        } catch (webhookError) {
+          // The update is committed; a lost notification must not fail the request
+          logger.error('Update webhook could not be queued', { error: webhookError, id: record.id, requestId: req.requestId });
+        }
+      }
+
+      const results = updates.map((_, index) => {
+        const refusal = refusals[index];
+        if (refusal) return refusal;
+
+        const record = updated.get(index);
+        if (!record) {
+          return { index, status: 'failed' as const, error: failures.get(index) };
+        }
+
+        return {
+          index,
+          id: record.id,
+          status: 'updated' as const,
+          etag: formatETag(record.row_version),
+          updated_at: record.updated_at,
+          ...(violations[index].length > 0 && { warnings: violations[index] }),
+        };
+      });
+
       const processingTime = Date.now() - startTime;
 
-      res.status(202).json({
+      res.status(200).json({
         success: true,
-        message: `Accepted ${successCount} of ${demographics.length} records for processing`,
+        message: `Updated ${updated.size} of ${updates.length} records`,
         data: results,
         metadata: {
-          correlation_id: correlationId,
-          batch_size: demographics.length,
-          successful_count: successCount,
-          failed_count: demographics.length - successCount,
+          batch_size: updates.length,
+          updated_count: updated.size,
+          failed_count: results.filter(r => r.status === 'failed').length,
+          not_found_count: results.filter(r => r.status === 'not_found').length,
+          conflict_count: results.filter(r => r.status === 'conflict').length,
+          invalid_count: results.filter(r => r.status === 'invalid').length,
+          atomic,
           processing_time: processingTime,
         },
         requestId: req.requestId,
@@ -221,36 +630,63 @@ export class DemographicsController {
     const startTime = Date.now();
 
     try {
-      const query: GetDemographicsQuery = req.query;
-      const { limit = 50, offset = 0, filter_claimanttype, filter_status, search } = query;
+      // The validation middleware leaves req.query as received; parse again for coerced values and the sort
+      const query: GetDemographicsQuery = GetDemographicsQuerySchema.parse(req.query);
+      const { limit = 50, offset = 0, cursor } = query;
+      const sort = query.sort ?? DEFAULT_DEMOGRAPHICS_SORT;
+      const filters = toDemographicsFilters(query);
+      const { ssn, ssn_last4, ...loggedFilters } = filters;
 
       logger.info('Demographics retrieval started', {
         requestId: req.requestId,
         lawFirm: req.auth.lawFirm,
-        filters: { limit, offset, filter_claimanttype, filter_status, search },
+        filters: {
+          limit,
+          offset,
+          cursor,
+          sort: sortKey(sort),
+          search_mode: query.search_mode,
+          ssn_lookup: Boolean(ssn || ssn_last4),
+          ...loggedFilters,
+        },
       });
 
-      const demographics = await databaseService.getDemographicsByLawFirm(
-        req.auth.lawFirm,
-        limit,
-        offset,
-        {
-          claimanttype: filter_claimanttype,
-          status: filter_status,
-          search,
-        },
-      );
+      const readOptions = piiReadOptions(req.auth);
+      if (rejectUnqueryable(req, res, sort, filters)) return;
+
+      const pageCursor = cursor ? decodeCursor(cursor, sort) : undefined;
+      if (pageCursor === null) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid pagination cursor',
+          code: 'INVALID_CURSOR',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Fuzzy search ranks name matches by relevance instead of the sort
+      const { search, ...listFilters } = filters;
+      const page = query.search_mode === 'fuzzy' && search
+        ? await databaseService.searchDemographicsByName(req.auth.lawFirm, search, { limit, offset }, listFilters, readOptions)
+        : await databaseService.getDemographicsByLawFirm(
+          req.auth.lawFirm,
+          { limit, offset, cursor: pageCursor, sort },
+          { ...listFilters, search },
+          readOptions,
+        );
 
       const processingTime = Date.now() - startTime;
 
       res.status(200).json({
         success: true,
-        data: demographics,
+        data: page.records.map(demographic => ({ ...demographic, etag: formatETag(demographic.row_version) })),
         pagination: {
           limit,
-          offset,
-          count: demographics.length,
-          has_more: demographics.length === limit,
+          ...(!pageCursor && { offset }),
+          count: page.records.length,
+          has_more: page.has_more,
+          next_cursor: page.next_cursor ? encodeCursor(page.next_cursor) : null,
         },
         requestId: req.requestId,
         processingTime,
@@ -260,9 +696,40 @@ export class DemographicsController {
     }
   }
 
+  /**
+   * /external/v1/demographics/by/:field/:value
+   * Find the record holding an external id and hand on to the handler for
+   * its id, so lookup, update and delete by external id behave as by id
+   */
+  async resolveExternalId(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { field, value } = DemographicsExternalIdParamsSchema.parse(req.params);
+
+      const id = await demographicsExternalIdService.resolve(req.auth.lawFirm, field, value);
+      if (!id) {
+        res.status(404).json({
+          success: false,
+          error: `No demographic record has ${field} ${value}`,
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      req.params.id = id;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/v1/demographics/:id
-   * Get specific demographics record by ID
+   * Get specific demographics record by ID, or as it stood at ?as_of=<timestamp>
    */
   async getById(
     req: AuthenticatedRequest,
@@ -272,9 +739,32 @@ export class DemographicsController {
     const startTime = Date.now();
 
     try {
-      const { id } = req.params;
-      
-      const demographic = await databaseService.getDemographicById(id, req.auth.lawFirm);
+      const id = String(req.params.id);
+      const { as_of }: GetDemographicByIdQuery = req.query;
+
+      if (as_of) {
+        const snapshot = await databaseService.getDemographicAsOf(id, req.auth.lawFirm, as_of, piiReadOptions(req.auth));
+        if (!snapshot) {
+          res.status(404).json({
+            success: false,
+            error: 'Demographic record did not exist at the requested time',
+            code: 'DEMOGRAPHIC_NOT_FOUND',
+            requestId: req.requestId,
+          });
+          return;
+        }
+
+        res.status(200).json({
+          success: true,
+          data: snapshot,
+          as_of,
+          requestId: req.requestId,
+          processingTime: Date.now() - startTime,
+        });
+        return;
+      }
+
+      const demographic = await databaseService.getDemographicById(id, req.auth.lawFirm, piiReadOptions(req.auth));
 
       if (!demographic) {
         res.status(404).json({
@@ -288,6 +778,7 @@ export class DemographicsController {
 
       const processingTime = Date.now() - startTime;
 
+      res.set('ETag', formatETag(demographic.row_version));
       res.status(200).json({
         success: true,
         data: demographic,
@@ -300,10 +791,10 @@ export class DemographicsController {
   }
 
   /**
-   * PUT /api/v1/demographics/:id
-   * Update demographics record
+   * GET /external/v1/demographics/:id/history
+   * Change history of a demographics record, newest first
    */
-  async update(
+  async history(
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
@@ -311,12 +802,12 @@ export class DemographicsController {
     const startTime = Date.now();
 
     try {
-      const { id } = req.params;
-      const updateData = req.body;
+      const id = String(req.params.id);
+      // The validation middleware leaves req.query as received; parse again for coerced values
+      const { limit = 50, offset = 0 }: GetDemographicsHistoryQuery = GetDemographicsHistoryQuerySchema.parse(req.query);
 
-      // Check if record exists and belongs to law firm
-      const existingDemographic = await databaseService.getDemographicById(id, req.auth.lawFirm);
-      if (!existingDemographic) {
+      const demographic = await databaseService.getDemographicById(id, req.auth.lawFirm);
+      if (!demographic) {
         res.status(404).json({
           success: false,
           error: 'Demographic record not found',
@@ -326,33 +817,20 @@ export class DemographicsController {
         return;
       }
 
-      // Update the record
-      const updatePayload = {
-        ...updateData,
-        updated_at: new Date().toISOString(),
-      };
-
-      await databaseService.updateDemographic(id, updatePayload);
-
-      // Queue update notification
-      await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
-        event: 'demographics.updated',
-        data: {
-          id,
-          sf_id: existingDemographic.sf_id,
-          updated_fields: Object.keys(updateData),
-          updated_at: updatePayload.updated_at,
-        },
-      });
+      // One entry past the page tells whether there are more
+      const fetched = await databaseService.getDemographicHistory(id, req.auth.lawFirm, limit + 1, offset);
+      const entries = fetched.slice(0, limit);
 
       const processingTime = Date.now() - startTime;
 
       res.status(200).json({
         success: true,
-        message: 'Demographics record updated successfully',
-        data: {
-          id,
-          updated_at: updatePayload.updated_at,
+        data: entries,
+        pagination: {
+          limit,
+          offset,
+          count: entries.length,
+          has_more: fetched.length > limit,
         },
         requestId: req.requestId,
         processingTime,
@@ -363,10 +841,10 @@ export class DemographicsController {
   }
 
   /**
-   * DELETE /api/v1/demographics/:id
-   * Soft delete demographics record
+   * PATCH /external/v1/demographics/:id
+   * Partially update a demographics record (JSON Merge Patch: null clears a field)
    */
-  async delete(
+  async update(
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
@@ -374,11 +852,32 @@ export class DemographicsController {
     const startTime = Date.now();
 
     try {
-      const { id } = req.params;
+      const id = String(req.params.id);
+      const changes: PatchDemographicsRequest = req.body;
 
-      // Check if record exists
-      const existingDemographic = await databaseService.getDemographicById(id, req.auth.lawFirm);
-      if (!existingDemographic) {
+      const checked = await this.checkChanges(req.auth.lawFirm, id, changes);
+      if (checked.violations.some(violation => violation.severity === 'error')) {
+        res.status(422).json({
+          success: false,
+          error: 'Business rule validation failed',
+          code: 'BUSINESS_RULE_VIOLATION',
+          violations: checked.violations,
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const [conflicts] = await demographicsExternalIdService.conflicts(req.auth.lawFirm, [{ ...changes, id }]);
+      if (conflicts.length > 0) {
+        res.status(409).json(externalIdConflictResponse(conflicts, req.requestId));
+        return;
+      }
+
+      const result = await databaseService.updateDemographic(id, req.auth.lawFirm, checked.changes, req.ifMatch, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
+      if (result.status === 'not_found') {
         res.status(404).json({
           success: false,
           error: 'Demographic record not found',
@@ -387,17 +886,228 @@ export class DemographicsController {
         });
         return;
       }
+      if (result.status === 'version_mismatch') {
+        res.set('ETag', formatETag(result.current_version));
+        res.status(412).json({
+          success: false,
+          error: 'Demographic record was modified by another request',
+          code: 'PRECONDITION_FAILED',
+          requestId: req.requestId,
+        });
+        return;
+      }
 
-      // Soft delete
-      await databaseService.softDeleteDemographic(id, req.auth.lawFirm);
+      const updated = result.record;
 
-      // Queue deletion notification
+      // Queue update notification
+      await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+        event: 'demographics.updated',
+        data: {
+          id,
+          sf_id: updated.sf_id,
+          updated_fields: Object.keys(changes),
+          updated_at: updated.updated_at,
+        },
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      res.set('ETag', formatETag(updated.row_version));
+      res.status(200).json({
+        success: true,
+        message: 'Demographics record updated successfully',
+        data: updated,
+        ...(checked.violations.length > 0 && { warnings: checked.violations }),
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /external/v1/demographics/by-client-id/:law_firm_client_id
+   * Create the record for a client id, or update the one already holding it
+   */
+  async upsertByClientId(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const law_firm_client_id = String(req.params.law_firm_client_id);
+      const demographicsData: CreateDemographicsRequest = req.body;
+      const { financials: financialsMode }: UpsertDemographicsQuery = req.query;
+      const now = new Date().toISOString();
+
+      const demographics: Demographics = withNormalizedPhones(withNormalizedAddresses({
+        id: uuidv4(),
+        partitionKey: req.auth.lawFirm,
+        ...withDateOnlyFields(demographicsData),
+        law_firm_client_id,
+        law_firm: req.auth.lawFirm,
+        created_at: now,
+        updated_at: now,
+        created_by: req.auth.apiKey.created_by,
+        status: 'active' as const,
+      }));
+
+      const financials = applyFinancials(demographics, financialsMode);
+      if (financials && financialsMode === 'strict' && financials.mismatches.length > 0) {
+        res.status(422).json(financialsMismatchResponse(financials, req.requestId));
+        return;
+      }
+
+      // The record holding the client id is the one being written, not a conflict
+      const existingId = await demographicsExternalIdService.resolve(req.auth.lawFirm, 'law_firm_client_id', law_firm_client_id);
+      const [conflicts] = await demographicsExternalIdService.conflicts(req.auth.lawFirm, [
+        { ...demographics, id: existingId ?? demographics.id },
+      ]);
+      if (conflicts.length > 0) {
+        res.status(409).json(externalIdConflictResponse(conflicts, req.requestId));
+        return;
+      }
+
+      // An existing record takes every submitted field and computed total, but keeps what the API sets,
+      // save the raw address values and E.164 forms of the addresses and phone numbers submitted
+      const changes = normalizePhoneChanges(Object.fromEntries(
+        Object.entries(demographics).filter(([field]) => !IMMUTABLE_FIELDS.has(field))
+      ) as DemographicsChanges);
+      if (hasAddressChanges(demographicsData)) {
+        changes.address_raw = demographics.address_raw ?? null;
+      }
+
+      const result = await databaseService.upsertDemographicByClientId(demographics, changes, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
+      const record = result.record;
+
+      if (result.status === 'created') {
+        await fifoQueueService.addDemographicsMessage(req.auth.lawFirm, {
+          id: record.id,
+          action: 'process',
+          data: demographics,
+        }, 5);
+
+        await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+          event: 'demographics.created',
+          data: {
+            id: record.id,
+            sf_id: record.sf_id,
+            law_firm: record.law_firm,
+            created_at: record.created_at,
+          },
+          metadata: {
+            apiKeyId: req.auth.keyId,
+            requestId: req.requestId!,
+          },
+        });
+      } else {
+        await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+          event: 'demographics.updated',
+          data: {
+            id: record.id,
+            sf_id: record.sf_id,
+            updated_fields: Object.keys(demographicsData),
+            updated_at: record.updated_at,
+          },
+        });
+      }
+
+      const processingTime = Date.now() - startTime;
+
+      logger.info('Demographics upserted by client id', {
+        requestId: req.requestId,
+        demographicsId: record.id,
+        lawFirm: req.auth.lawFirm,
+        outcome: result.status,
+        processingTime,
+      });
+
+      if (result.status === 'created') {
+        res.location(`${req.baseUrl}/${record.id}`);
+      }
+      res.set('ETag', formatETag(record.row_version));
+      res.status(result.status === 'created' ? 201 : 200).json({
+        success: true,
+        message: result.status === 'created'
+          ? 'Demographics record created successfully'
+          : 'Demographics record updated successfully',
+        data: record,
+        ...(req.ruleWarnings?.length && { warnings: req.ruleWarnings }),
+        ...(financials && { financials }),
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/v1/demographics/:id
+   * Soft delete demographics record
+   */
+  async delete(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const id = String(req.params.id);
+
+      // Check if record exists
+      const existingDemographic = await databaseService.getDemographicById(id, req.auth.lawFirm);
+      if (!existingDemographic) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Soft delete
+      const result = await databaseService.softDeleteDemographic(id, req.auth.lawFirm, req.ifMatch, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
+      if (result.status === 'not_found') {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+      if (result.status === 'version_mismatch') {
+        res.set('ETag', formatETag(result.current_version));
+        res.status(412).json({
+          success: false,
+          error: 'Demographic record was modified by another request',
+          code: 'PRECONDITION_FAILED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const deletedAt = result.record.deleted_at;
+
+      // Queue deletion notification
       await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
         event: 'demographics.deleted',
         data: {
           id,
           sf_id: existingDemographic.sf_id,
-          deleted_at: new Date().toISOString(),
+          deleted_at: deletedAt,
         },
       });
 
@@ -408,7 +1118,8 @@ export class DemographicsController {
         message: 'Demographics record deleted successfully',
         data: {
           id,
-          deleted_at: new Date().toISOString(),
+          deleted_at: deletedAt,
+          restore_deadline: demographicsRetentionService.restoreDeadline(deletedAt).toISOString(),
         },
         requestId: req.requestId,
         processingTime,
@@ -417,6 +1128,459 @@ export class DemographicsController {
       next(error);
     }
   }
+
+  /**
+   * POST /external/v1/demographics/:id/restore
+   * Undo a soft delete within the restore window
+   */
+  async restore(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const id = String(req.params.id);
+
+      const existing = await databaseService.getDemographicById(id, req.auth.lawFirm);
+      if (!existing) {
+        const tombstone = await databaseService.getDemographicsTombstone(id, req.auth.lawFirm);
+        res.status(tombstone ? 410 : 404).json({
+          success: false,
+          error: tombstone ? 'Demographic record was purged and cannot be restored' : 'Demographic record not found',
+          code: tombstone ? 'DEMOGRAPHIC_PURGED' : 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+      if (existing.status !== 'deleted') {
+        res.status(409).json({
+          success: false,
+          error: 'Demographic record is not deleted',
+          code: 'DEMOGRAPHIC_NOT_DELETED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+      // Its data lives on in the record it was merged into
+      if (existing.merged_into) {
+        res.status(409).json({
+          success: false,
+          error: `Demographic record was merged into ${existing.merged_into} and cannot be restored`,
+          code: 'DEMOGRAPHIC_MERGED',
+          merged_into: existing.merged_into,
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const restoreDeadline = demographicsRetentionService.restoreDeadline(existing.deleted_at!);
+      if (restoreDeadline.getTime() < Date.now()) {
+        res.status(409).json({
+          success: false,
+          error: 'The restore window of this record has passed',
+          code: 'RESTORE_WINDOW_EXPIRED',
+          restore_deadline: restoreDeadline.toISOString(),
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const [conflicts] = await demographicsExternalIdService.conflicts(req.auth.lawFirm, [existing]);
+      if (conflicts.length > 0) {
+        res.status(409).json(externalIdConflictResponse(conflicts, req.requestId));
+        return;
+      }
+
+      const result = await databaseService.restoreDemographic(id, req.auth.lawFirm, req.ifMatch, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
+      if (result.status === 'not_found') {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+      if (result.status === 'version_mismatch') {
+        res.set('ETag', formatETag(result.current_version));
+        res.status(412).json({
+          success: false,
+          error: 'Demographic record was modified by another request',
+          code: 'PRECONDITION_FAILED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const restored = result.record;
+
+      await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+        event: 'demographics.restored',
+        data: {
+          id,
+          sf_id: restored.sf_id,
+          status: restored.status,
+          restored_at: restored.updated_at,
+        },
+        metadata: {
+          apiKeyId: req.auth.keyId,
+          requestId: req.requestId!,
+        },
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      logger.info('Demographics restored', {
+        requestId: req.requestId,
+        demographicsId: id,
+        processingTime,
+      });
+
+      res.set('ETag', formatETag(restored.row_version));
+      res.status(200).json({
+        success: true,
+        message: 'Demographics record restored successfully',
+        data: restored,
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/v1/demographics/:id/merge
+   * Merge duplicate records into this one
+   */
+  async merge(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const id = String(req.params.id);
+      const { source_ids }: MergeDemographicsRequest = req.body;
+
+      const result = await databaseService.mergeDemographics(id, source_ids, req.auth.lawFirm, req.ifMatch, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
+      if (result.status === 'not_found') {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+      if (result.status === 'source_not_found') {
+        res.status(422).json({
+          success: false,
+          error: 'Records to merge must exist, must not be deleted and must differ from the target',
+          code: 'MERGE_SOURCE_NOT_FOUND',
+          source_ids: result.source_ids,
+          requestId: req.requestId,
+        });
+        return;
+      }
+      if (result.status === 'version_mismatch') {
+        res.set('ETag', formatETag(result.current_version));
+        res.status(412).json({
+          success: false,
+          error: 'Demographic record was modified by another request',
+          code: 'PRECONDITION_FAILED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const merged = result.record;
+
+      // Guardianships and settlements of the duplicates move to the survivor
+      await fifoQueueService.addClaimantMergedMessages(source_ids, id);
+
+      await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+        event: 'demographics.merged',
+        data: {
+          id,
+          sf_id: merged.sf_id,
+          merged_ids: source_ids,
+          updated_at: merged.updated_at,
+        },
+        metadata: {
+          apiKeyId: req.auth.keyId,
+          requestId: req.requestId!,
+        },
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      logger.info('Demographics merged', {
+        requestId: req.requestId,
+        demographicsId: id,
+        mergedIds: source_ids,
+        processingTime,
+      });
+
+      res.set('ETag', formatETag(merged.row_version));
+      res.status(200).json({
+        success: true,
+        message: 'Demographics records merged successfully',
+        data: { ...merged, merged_ids: source_ids },
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/rules
+   * Business rules checked on create, with the law firm's severity of each
+   */
+  async listRules(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const rules = await demographicsRulesService.listRules(req.auth.lawFirm);
+
+      res.status(200).json({
+        success: true,
+        data: rules,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /external/v1/demographics/rules/:code
+   * Make a business rule an error or a warning for the law firm
+   */
+  async updateRule(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const code = String(req.params.code);
+      const { severity }: UpdateDemographicsRuleRequest = req.body;
+
+      const rule = await demographicsRulesService.setSeverity(req.auth.lawFirm, code, severity, req.auth.keyId);
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: `Unknown business rule ${code}`,
+          code: 'RULE_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      logger.info('Demographics rule severity updated', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        rule: code,
+        severity,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: rule,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create the records of a best-effort batch in one bulk insert or, if that
+   * fails, one at a time so only the failing records are lost. Returns the
+   * error of each record that could not be created, by id.
+   */
+  private async createBatchRecords(records: Demographics[], audit: AuditContext): Promise<Map<string, string>> {
+    const failures = new Map<string, string>();
+
+    try {
+      await databaseService.createDemographicsBatch(records, audit);
+      return failures;
+    } catch (error) {
+      logger.warn('Bulk batch insert failed, creating records one at a time', {
+        error,
+        count: records.length,
+        requestId: audit.requestId,
+      });
+    }
+
+    for (const record of records) {
+      try {
+        await databaseService.createDemographic(record, audit);
+      } catch (itemError) {
+        logger.error('Batch item processing failed', {
+          error: itemError,
+          id: record.id,
+          requestId: audit.requestId,
+        });
+        failures.set(record.id, itemError instanceof Error ? itemError.message : 'Processing failed');
+      }
+    }
+
+    return failures;
+  }
+
+  /**
+   * Likely duplicates of each batch item among stored records and the items
+   * before it in the batch, with the stored ones looked up in one query
+   */
+  private async findBatchDuplicates(
+    lawFirm: string,
+    records: Demographics[],
+    skip: Set<number> = new Set()
+  ): Promise<DemographicsDuplicateMatch[][]> {
+    // Skipped items are not written, so they neither have nor are duplicates
+    const written = records.filter((_, index) => !skip.has(index));
+    const stored = await databaseService.findDuplicateDemographicsBatch(lawFirm, written);
+
+    let next = 0;
+    return records.map((record, i) => {
+      if (skip.has(i)) return [];
+
+      const earlier = findDuplicates(record, records.slice(0, i).filter((_, index) => !skip.has(index)))
+        .map(match => ({ ...match, batch_index: records.findIndex(candidate => candidate.id === match.id) }));
+      return [...stored[next++], ...earlier];
+    });
+  }
+
+  /**
+   * Normalize the dates, address and phone fields a change sets and run the
+   * rules reading any field it sets, in the context of the stored record. A
+   * record that does not exist is left to the update to report.
+   */
+  private async checkChanges(
+    lawFirm: string,
+    id: string,
+    submitted: DemographicsChanges
+  ): Promise<{ changes: DemographicsChanges; violations: DemographicsRuleViolation[] }> {
+    const changes = withDateOnlyFields(submitted);
+    if (!hasAddressChanges(changes) && !hasPhoneChanges(changes) && !hasRuleCheckedChanges(changes)) {
+      return { changes, violations: [] };
+    }
+
+    const stored = await databaseService.getDemographicById(id, lawFirm, { pii: true });
+    if (!stored) return { changes, violations: [] };
+
+    const [violations] = await demographicsRulesService.evaluateUpdates(lawFirm, [{ stored, changes }]);
+    return { changes: normalizePhoneChanges(normalizeAddressChanges(changes, stored), stored), violations };
+  }
+}
+
+/**
+ * Compute the record's financial totals when the request asked for it. In
+ * derive mode the totals that were not sent are set on the record.
+ */
+function applyFinancials(record: Demographics, mode?: FinancialsMode): DemographicsFinancials | undefined {
+  if (!mode) return undefined;
+
+  const { financials, values } = computeDemographicsFinancials(record, mode);
+  Object.assign(record, values);
+  return financials;
+}
+
+/**
+ * Reject a sort or filter the caller cannot run: SSN lookups without the PII
+ * scope, and encrypted fields. Returns whether a response was sent.
+ */
+export function rejectUnqueryable(
+  req: AuthenticatedRequest,
+  res: Response,
+  sort: DemographicsSort[],
+  filters: DemographicsFilters
+): boolean {
+  if ((filters.ssn || filters.ssn_last4) && !piiReadOptions(req.auth).pii) {
+    res.status(403).json({
+      success: false,
+      error: `SSN lookups require the ${PII_SCOPE} scope`,
+      code: 'INSUFFICIENT_SCOPE',
+      requestId: req.requestId,
+    });
+    return true;
+  }
+
+  // Encrypted columns are NULL, so they cannot be sorted or range-filtered
+  const encryptedFields = fieldEncryptionService.unqueryableFields(sort, filters);
+  if (encryptedFields.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: `Cannot sort or filter on encrypted fields: ${encryptedFields.join(', ')}`,
+      code: 'FIELD_ENCRYPTED',
+      requestId: req.requestId,
+    });
+    return true;
+  }
+
+  return false;
+}
+
+function financialsMismatchResponse(financials: DemographicsFinancials, requestId?: string) {
+  return {
+    success: false,
+    error: `Submitted totals do not match their components: ${financials.mismatches.join(', ')}`,
+    code: 'FINANCIALS_MISMATCH',
+    financials,
+    requestId,
+  };
+}
+
+// Why a batch item was not accepted: its error-severity rules, then any totals mismatch
+function invalidReason(violations: DemographicsRuleViolation[], mismatches: string[] = []): string {
+  return [
+    ...violations.filter(violation => violation.severity === 'error').map(violation => violation.message),
+    ...(mismatches.length > 0 ? [`Submitted totals do not match their components: ${mismatches.join(', ')}`] : []),
+  ].join('; ');
+}
+
+// The external id naming a bulk update entry's record, when it is not named by id
+function entryExternalId(entry: BulkUpdateDemographicsEntry): DemographicsExternalId | null {
+  if (entry.sf_id !== undefined) return { field: 'sf_id', value: entry.sf_id };
+  if (entry.law_firm_client_id !== undefined) return { field: 'law_firm_client_id', value: entry.law_firm_client_id };
+  return null;
+}
+
+function externalIdConflictResponse(conflicts: DemographicsExternalIdConflict[], requestId?: string) {
+  return {
+    success: false,
+    error: externalIdConflictMessage(conflicts),
+    code: 'EXTERNAL_ID_CONFLICT',
+    conflicts,
+    requestId,
+  };
+}
+
+function duplicateResponse(onDuplicate: OnDuplicate, duplicates: DemographicsDuplicateMatch[], requestId?: string) {
+  return {
+    success: false,
+    error: onDuplicate === 'reject'
+      ? 'Rejected as a likely duplicate of existing records'
+      : 'Likely duplicate of existing records; resubmit with on_duplicate=allow to create it anyway',
+    code: onDuplicate === 'reject' ? 'DUPLICATE_REJECTED' : 'DUPLICATE_SUSPECTED',
+    duplicates,
+    requestId,
+  };
 }
 
 export const demographicsController = new DemographicsController();
\ No newline at end of file
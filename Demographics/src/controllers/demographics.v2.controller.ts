@@ -0,0 +1,272 @@
+// src/controllers/demographics.v2.controller.ts
+import { Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_DEMOGRAPHICS_SORT,
+  DemographicsV2,
+  CreateDemographicsV2Query,
+  CreateDemographicsV2Request,
+  GetDemographicsQuery,
+  GetDemographicsQuerySchema,
+} from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { databaseService } from '@shared/database/database.service';
+import { fifoQueueService } from '@shared/services/fifoQueue.service';
+import { fieldEncryptionService, PII_SCOPE, piiReadOptions } from '@shared/services/fieldEncryption.service';
+import {
+  demographicsExternalIdService,
+  externalIdConflictMessage,
+} from '@shared/services/demographicsExternalIds.service';
+import { withNormalizedAddresses } from '@shared/utils/demographics.address';
+import { withDateOnlyFields } from '@shared/utils/demographics.dates';
+import { emptyCollections, normalizeCollections } from '@shared/utils/demographics.mapper';
+import { decodeCursor, encodeCursor } from '@shared/utils/cursor';
+import { toDemographicsFilters } from '@shared/utils/demographics.filters';
+import { computeDemographicsFinancials } from '@shared/utils/demographics.financials';
+import { withNormalizedPhones } from '@shared/utils/demographics.phone';
+import { formatETag } from '@shared/utils/etag';
+import { logger } from '@shared/utils/logger';
+
+/**
+ * v2 demographics resource: attorneys, liens, vendor expenses and attorney
+ * cost details are exposed as arrays instead of numbered columns
+ */
+export class DemographicsV2Controller {
+  /**
+   * POST /external/v2/demographics
+   * Create single demographics record
+   */
+  async create(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      logger.info('Demographics v2 creation started', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+      });
+
+      const demographicsData: CreateDemographicsV2Request = req.body;
+      const { financials: financialsMode }: CreateDemographicsV2Query = req.query;
+      const now = new Date().toISOString();
+
+      const record: DemographicsV2 = withNormalizedPhones(withNormalizedAddresses(normalizeCollections({
+        ...emptyCollections(),
+        id: uuidv4(),
+        partitionKey: req.auth.lawFirm,
+        ...withDateOnlyFields(demographicsData),
+        law_firm: req.auth.lawFirm,
+        created_at: now,
+        updated_at: now,
+        created_by: req.auth.apiKey.created_by,
+        status: 'active'
+      })));
+
+      const computed = financialsMode ? computeDemographicsFinancials(record, financialsMode) : undefined;
+      if (computed && financialsMode === 'strict' && computed.financials.mismatches.length > 0) {
+        res.status(422).json({
+          success: false,
+          error: `Submitted totals do not match their components: ${computed.financials.mismatches.join(', ')}`,
+          code: 'FINANCIALS_MISMATCH',
+          financials: computed.financials,
+          requestId: req.requestId,
+        });
+        return;
+      }
+      Object.assign(record, computed?.values);
+
+      const [conflicts] = await demographicsExternalIdService.conflicts(req.auth.lawFirm, [record]);
+      if (conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: externalIdConflictMessage(conflicts),
+          code: 'EXTERNAL_ID_CONFLICT',
+          conflicts,
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      await databaseService.createDemographicRecord(record, {
+        keyId: req.auth.keyId,
+        requestId: req.requestId,
+      });
+
+      await fifoQueueService.addDemographicsMessage(req.auth.lawFirm, {
+        id: record.id,
+        action: 'process',
+        data: record,
+      }, 5);
+
+      await fifoQueueService.addWebhookMessage(req.auth.lawFirm, {
+        event: 'demographics.created',
+        data: {
+          id: record.id,
+          sf_id: record.sf_id,
+          law_firm: record.law_firm,
+          created_at: record.created_at,
+        },
+        metadata: {
+          apiKeyId: req.auth.keyId,
+          requestId: req.requestId!,
+        },
+      });
+
+      const processingTime = Date.now() - startTime;
+
+      logger.info('Demographics v2 created successfully', {
+        requestId: req.requestId,
+        demographicsId: record.id,
+        lawFirm: record.law_firm,
+        attorneys: record.attorneys.length,
+        medicalLiens: record.medical_liens.length,
+        processingTime,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Demographics submitted successfully',
+        data: {
+          id: record.id,
+          sf_id: record.sf_id,
+          status: 'accepted',
+          created_at: record.created_at,
+        },
+        ...(req.ruleWarnings?.length && { warnings: req.ruleWarnings }),
+        ...(computed && { financials: computed.financials }),
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v2/demographics
+   * Retrieve demographics with filtering and pagination
+   */
+  async list(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const query: GetDemographicsQuery = GetDemographicsQuerySchema.parse(req.query);
+      const { limit = 50, offset = 0, cursor } = query;
+      const sort = query.sort ?? DEFAULT_DEMOGRAPHICS_SORT;
+      const filters = toDemographicsFilters(query);
+
+      const readOptions = piiReadOptions(req.auth);
+      if ((filters.ssn || filters.ssn_last4) && !readOptions.pii) {
+        res.status(403).json({
+          success: false,
+          error: `SSN lookups require the ${PII_SCOPE} scope`,
+          code: 'INSUFFICIENT_SCOPE',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Encrypted columns are NULL, so they cannot be sorted or range-filtered
+      const encryptedFields = fieldEncryptionService.unqueryableFields(sort, filters);
+      if (encryptedFields.length > 0) {
+        res.status(400).json({
+          success: false,
+          error: `Cannot sort or filter on encrypted fields: ${encryptedFields.join(', ')}`,
+          code: 'FIELD_ENCRYPTED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const pageCursor = cursor ? decodeCursor(cursor, sort) : undefined;
+      if (pageCursor === null) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid pagination cursor',
+          code: 'INVALID_CURSOR',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // Fuzzy search ranks name matches by relevance instead of the sort
+      const { search, ...listFilters } = filters;
+      const page = query.search_mode === 'fuzzy' && search
+        ? await databaseService.searchDemographicRecordsByName(req.auth.lawFirm, search, { limit, offset }, listFilters, readOptions)
+        : await databaseService.getDemographicRecordsByLawFirm(
+          req.auth.lawFirm,
+          { limit, offset, cursor: pageCursor, sort },
+          { ...listFilters, search },
+          readOptions,
+        );
+
+      const processingTime = Date.now() - startTime;
+
+      res.status(200).json({
+        success: true,
+        data: page.records.map(record => ({ ...record, etag: formatETag(record.row_version) })),
+        pagination: {
+          limit,
+          ...(!pageCursor && { offset }),
+          count: page.records.length,
+          has_more: page.has_more,
+          next_cursor: page.next_cursor ? encodeCursor(page.next_cursor) : null,
+        },
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v2/demographics/:id
+   * Get specific demographics record by ID
+   */
+  async getById(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const id = String(req.params.id);
+
+      const record = await databaseService.getDemographicRecordById(id, req.auth.lawFirm, piiReadOptions(req.auth));
+
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const processingTime = Date.now() - startTime;
+
+      res.set('ETag', formatETag(record.row_version));
+      res.status(200).json({
+        success: true,
+        data: record,
+        requestId: req.requestId,
+        processingTime,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const demographicsV2Controller = new DemographicsV2Controller();
@@ -0,0 +1,105 @@
+import { Response, NextFunction } from 'express';
+import {
+  CreateDemographicsExportRequest,
+  CreateDemographicsExportRequestSchema,
+  DEFAULT_DEMOGRAPHICS_SORT,
+} from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { demographicsExportService } from '@shared/services/demographicsExport.service';
+import { PII_SCOPE, piiReadOptions } from '@shared/services/fieldEncryption.service';
+import { toDemographicsFilters } from '@shared/utils/demographics.filters';
+import { logger } from '@shared/utils/logger';
+import { rejectUnqueryable } from './demographics.controller';
+
+export class DemographicsExportController {
+  /**
+   * POST /external/v1/demographics/exports
+   * Start a background export of the records matching the list filters
+   */
+  async create(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      // The validation middleware leaves req.body as received; parse again for coerced values and the sort
+      const request: CreateDemographicsExportRequest = CreateDemographicsExportRequestSchema.parse(req.body);
+      const sort = request.sort ?? DEFAULT_DEMOGRAPHICS_SORT;
+      if (rejectUnqueryable(req, res, sort, toDemographicsFilters(request))) return;
+
+      const job = await demographicsExportService.start(
+        req.auth.lawFirm,
+        request,
+        piiReadOptions(req.auth),
+        req.auth.apiKey.created_by
+      );
+
+      logger.info('Demographics export started', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        exportId: job.id,
+        format: job.format,
+        fieldCount: job.fields.length,
+      });
+
+      res.status(202)
+        .location(`${req.baseUrl}/exports/${job.id}`)
+        .json({
+          success: true,
+          message: 'Export accepted for processing',
+          data: job,
+          requestId: req.requestId,
+        });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/exports/:id
+   * Progress of an export, with a short-lived download URL once complete
+   */
+  async getById(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const job = await demographicsExportService.get(req.auth.lawFirm, String(req.params.id));
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Export not found',
+          code: 'EXPORT_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      // An export written unmasked is only handed to callers who could read it unmasked
+      if (job.pii && !piiReadOptions(req.auth).pii) {
+        res.status(403).json({
+          success: false,
+          error: `This export holds unmasked values and requires the ${PII_SCOPE} scope`,
+          code: 'INSUFFICIENT_SCOPE',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...job,
+          ...(job.status === 'completed' && await demographicsExportService.download(job)),
+        },
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const demographicsExportController = new DemographicsExportController();
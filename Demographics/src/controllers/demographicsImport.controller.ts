@@ -0,0 +1,206 @@
+import { Response, NextFunction } from 'express';
+import {
+  CreateDemographicsImportRequest,
+  UpdateDemographicsImportAliasesRequest,
+} from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { blobSasService } from '@shared/services/blobSas.service';
+import {
+  DemographicsImportFile,
+  demographicsImportService,
+  MAX_IMPORT_FILE_MB,
+} from '@shared/services/demographicsImport.service';
+import { importErrorsCsv, importFormatOf } from '@shared/utils/demographics.import';
+import { logger } from '@shared/utils/logger';
+
+export class DemographicsImportController {
+  /**
+   * POST /external/v1/demographics/imports
+   * Start an import of a CSV or XLSX file, uploaded here or through a SAS URL
+   */
+  async create(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { blob_name, format }: CreateDemographicsImportRequest = req.body ?? {};
+
+      if (!req.file && !blob_name) {
+        res.status(400).json({
+          success: false,
+          error: 'Send the file as multipart field "file" or give the blob_name of an uploaded one',
+          code: 'IMPORT_FILE_REQUIRED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      if (!req.file && !blobSasService.isLawFirmBlob(req.auth.lawFirm, blob_name!)) {
+        res.status(404).json({
+          success: false,
+          error: 'Blob not found',
+          code: 'BLOB_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const name = req.file ? req.file.originalname : blob_name!.split('/').pop()!;
+      const fileFormat = format ?? importFormatOf(name);
+      if (!fileFormat) {
+        res.status(415).json({
+          success: false,
+          error: 'Imports must be .csv or .xlsx files; set format for other file names',
+          code: 'UNSUPPORTED_IMPORT_FORMAT',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      const file: DemographicsImportFile = {
+        name,
+        format: fileFormat,
+        content: req.file ? req.file.buffer : await blobSasService.downloadBlob(blob_name!, MAX_IMPORT_FILE_MB),
+      };
+
+      const job = await demographicsImportService.start(req.auth.lawFirm, file, req.auth.apiKey.created_by);
+
+      logger.info('Demographics import started', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        importId: job.id,
+        format: job.format,
+        source: req.file ? 'upload' : 'blob',
+      });
+
+      res.status(202)
+        .location(`${req.baseUrl}/imports/${job.id}`)
+        .json({
+          success: true,
+          message: 'Import accepted for processing',
+          data: job,
+          requestId: req.requestId,
+        });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/imports/:id
+   * Progress and counts of an import
+   */
+  async getById(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const job = await demographicsImportService.get(req.auth.lawFirm, String(req.params.id));
+      if (!job) {
+        res.status(404).json(importNotFound(req.requestId));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: job,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/imports/:id/errors
+   * CSV of the rejected rows: row number, field and message
+   */
+  async errors(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = String(req.params.id);
+      const errors = await demographicsImportService.errors(req.auth.lawFirm, id);
+      if (!errors) {
+        res.status(404).json(importNotFound(req.requestId));
+        return;
+      }
+
+      res.status(200)
+        .type('text/csv')
+        .attachment(`import-${id}-errors.csv`)
+        .send(importErrorsCsv(errors));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/imports/aliases
+   * The law firm's header aliases, by normalized header
+   */
+  async getAliases(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const aliases = await demographicsImportService.aliases(req.auth.lawFirm);
+
+      res.status(200).json({
+        success: true,
+        data: { aliases },
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /external/v1/demographics/imports/aliases
+   * Replace the law firm's header aliases
+   */
+  async updateAliases(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { aliases }: UpdateDemographicsImportAliasesRequest = req.body;
+
+      const saved = await demographicsImportService.setAliases(req.auth.lawFirm, aliases, req.auth.keyId);
+
+      logger.info('Demographics import aliases updated', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        count: Object.keys(saved).length,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { aliases: saved },
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+function importNotFound(requestId?: string) {
+  return {
+    success: false,
+    error: 'Import not found',
+    code: 'IMPORT_NOT_FOUND',
+    requestId,
+  };
+}
+
+export const demographicsImportController = new DemographicsImportController();
@@ -0,0 +1,190 @@
+import { Response, NextFunction } from 'express';
+import {
+  PlaceDemographicsLegalHoldRequest,
+  UpdateDemographicsRetentionRequest,
+} from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { databaseService } from '@shared/database/database.service';
+import { demographicsRetentionService } from '@shared/services/demographicsRetention.service';
+import { logger } from '@shared/utils/logger';
+
+export class DemographicsRetentionController {
+  /**
+   * GET /external/v1/demographics/retention
+   * The law firm's retention of soft deleted records
+   */
+  async getRetention(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const policy = await demographicsRetentionService.getPolicy(req.auth.lawFirm);
+
+      res.status(200).json({
+        success: true,
+        data: policy,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /external/v1/demographics/retention
+   * Set how many days soft deleted records are kept before they are purged,
+   * or null to keep them
+   */
+  async updateRetention(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { retention_days }: UpdateDemographicsRetentionRequest = req.body;
+
+      const policy = await demographicsRetentionService.setRetentionDays(
+        req.auth.lawFirm,
+        retention_days,
+        req.auth.keyId
+      );
+
+      logger.info('Demographics retention updated', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        retentionDays: retention_days,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: policy,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /external/v1/demographics/:id/legal-hold
+   * Keep a record, deleted or not, from being purged
+   */
+  async placeLegalHold(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = String(req.params.id);
+      const { reason }: PlaceDemographicsLegalHoldRequest = req.body;
+
+      const hold = {
+        demographic_id: id,
+        law_firm: req.auth.lawFirm,
+        reason,
+        placed_by: req.auth.keyId,
+        placed_at: new Date().toISOString(),
+      };
+
+      if (!(await databaseService.placeDemographicsLegalHold(hold))) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record not found',
+          code: 'DEMOGRAPHIC_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      logger.info('Demographics legal hold placed', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        demographicsId: id,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: hold,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /external/v1/demographics/:id/legal-hold
+   * Release a record's legal hold, so retention applies to it again
+   */
+  async releaseLegalHold(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = String(req.params.id);
+
+      if (!(await databaseService.releaseDemographicsLegalHold(id, req.auth.lawFirm))) {
+        res.status(404).json({
+          success: false,
+          error: 'Demographic record has no legal hold',
+          code: 'LEGAL_HOLD_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      logger.info('Demographics legal hold released', {
+        requestId: req.requestId,
+        lawFirm: req.auth.lawFirm,
+        keyId: req.auth.keyId,
+        demographicsId: id,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Legal hold released',
+        data: { demographic_id: id },
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /external/v1/demographics/:id/tombstone
+   * Proof that a record was purged: its ids and when it was deleted and purged
+   */
+  async getTombstone(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const tombstone = await databaseService.getDemographicsTombstone(String(req.params.id), req.auth.lawFirm);
+      if (!tombstone) {
+        res.status(404).json({
+          success: false,
+          error: 'No purge of this record was recorded',
+          code: 'TOMBSTONE_NOT_FOUND',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: tombstone,
+        requestId: req.requestId,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const demographicsRetentionController = new DemographicsRetentionController();
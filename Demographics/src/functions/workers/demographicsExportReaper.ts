@@ -0,0 +1,19 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import logger from '@shared/utils/logger';
+import { demographicsExportService } from '@shared/services/demographicsExport.service';
+
+// Fail demographics exports left pending or processing by a stopped process
+async function failStaleDemographicsExports(timer: Timer, context: InvocationContext): Promise<void> {
+  const failed = await demographicsExportService.failStale();
+
+  logger.info('Stale demographics exports checked', {
+    executionId: context.invocationId,
+    isPastDue: timer.isPastDue,
+    failed,
+  });
+}
+
+app.timer('failStaleDemographicsExports', {
+  schedule: process.env.DEMOGRAPHICS_EXPORT_REAPER_SCHEDULE || '0 */15 * * * *', // Every 15 minutes
+  handler: failStaleDemographicsExports,
+});
@@ -0,0 +1,23 @@
+import { app, InvocationContext, Timer } from '@azure/functions';
+import logger from '@shared/utils/logger';
+import { demographicsRetentionService } from '@shared/services/demographicsRetention.service';
+
+// Purge soft deleted demographics past their law firm's retention period
+async function purgeDeletedDemographics(timer: Timer, context: InvocationContext): Promise<void> {
+  const startTime = Date.now();
+
+  logger.info('Demographics purge started', { executionId: context.invocationId, isPastDue: timer.isPastDue });
+
+  const purged = await demographicsRetentionService.purgeExpired();
+
+  logger.info('Demographics purge completed', {
+    executionId: context.invocationId,
+    purged,
+    processingTime: Date.now() - startTime,
+  });
+}
+
+app.timer('purgeDeletedDemographics', {
+  schedule: process.env.DEMOGRAPHICS_PURGE_SCHEDULE || '0 0 3 * * *', // Daily at 03:00 UTC
+  handler: purgeDeletedDemographics,
+});
@@ -2,6 +2,10 @@ import { app, InvocationContext } from '@azure/functions';
 import logger from '@shared/utils/logger';
 import { databaseService } from '@shared/database/database.service';
 import { fifoQueueService } from '@shared/services/fifoQueue.service';
+import { demographicsBatchService } from '@shared/services/demographicsBatch.service';
+
+// maxDeliveryCount of the demographics queue; the last delivery's failure is final
+const DEMOGRAPHICS_MAX_DELIVERY_COUNT = 5;
 
 /**
  * FIFO Demographics Processor - Processes messages in order per law firm
@@ -10,6 +14,7 @@ import { fifoQueueService } from '@shared/services/fifoQueue.service';
 async function processDemographicsFifoMessage(message: unknown, context: InvocationContext): Promise<void> {
   const startTime = Date.now();
   const executionId = context.invocationId;
+  let batchInfo: { correlation_id: string; batch_index: number } | undefined;
 
   try {
     // Extract session information for FIFO processing
@@ -30,6 +35,12 @@ async function processDemographicsFifoMessage(message: unknown, context: Invocat
     // Extract law firm from session ID for processing context
     const lawFirm = sessionId.replace('demographics_', '').replace(/_/g, ' ');
 
+    // Items of a batch submission are tracked until they finish
+    batchInfo = payload?.batch_info;
+    if (batchInfo) {
+      await demographicsBatchService.setItemStatus(batchInfo.correlation_id, batchInfo.batch_index, 'processing');
+    }
+
     switch (type) {
       case 'demographics':
         await processDemographicsData(payload, lawFirm, correlation_id);
@@ -39,6 +50,10 @@ async function processDemographicsFifoMessage(message: unknown, context: Invocat
         logger.warn('Unknown FIFO message type', { type, messageId });
     }
 
+    if (batchInfo) {
+      await demographicsBatchService.setItemStatus(batchInfo.correlation_id, batchInfo.batch_index, 'processed');
+    }
+
     // Send success notification
     await fifoQueueService.addWebhookMessage(lawFirm, {
       event: 'demographics.processed',
@@ -74,6 +89,16 @@ async function processDemographicsFifoMessage(message: unknown, context: Invocat
       processingTime
     });
 
+    const deliveryCount = context.triggerMetadata?.deliveryCount as number;
+    if (batchInfo && deliveryCount >= DEMOGRAPHICS_MAX_DELIVERY_COUNT) {
+      await demographicsBatchService.setItemStatus(
+        batchInfo.correlation_id,
+        batchInfo.batch_index,
+        'failed',
+        error instanceof Error ? error.message : 'Processing failed'
+      ).catch(statusError => logger.error('Failed to record batch item failure', { batchInfo, error: statusError }));
+    }
+
     // Let Service Bus handle retries via session dead lettering
     throw error;
   }
@@ -179,6 +204,9 @@ async function processDocumentMessage(message: unknown, context: InvocationConte
 
 // Helper functions
 async function processDemographicsData(payload: any, lawFirm: string, correlationId: string): Promise<void> {
+  // The API saved the record before queueing it for processing
+  if (payload.action === 'process') return;
+
   // Create demographics record
   const now = new Date().toISOString();
   const demographicsRecord = {
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { parseIfMatch } from '@shared/utils/etag';
+
+/**
+ * Parse If-Match into req.ifMatch for conditional updates and deletes.
+ * Keys whose policy sets require_if_match get 428 when the header is missing.
+ */
+export function ifMatchMiddleware() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get('If-Match');
+
+    if (!header) {
+      if ((req as AuthenticatedRequest).auth?.apiKey.policies?.require_if_match) {
+        res.status(428).json({
+          success: false,
+          error: 'If-Match header is required for this API key',
+          code: 'PRECONDITION_REQUIRED',
+          requestId: req.requestId,
+        });
+        return;
+      }
+      return next();
+    }
+
+    req.ifMatch = parseIfMatch(header);
+    next();
+  };
+}
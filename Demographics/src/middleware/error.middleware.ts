@@ -39,6 +39,16 @@ export function errorMiddleware(error: any, req: Request, res: Response, next: N
     return;
   }
 
+  // Unique external id indexes, for writes that raced past the conflict checks
+  if ((error.number === 2601 || error.number === 2627) && /UX_Demographics_/.test(error.message ?? '')) {
+    res.status(409).json({
+      error: 'An external id is already used by another record',
+      code: 'EXTERNAL_ID_CONFLICT',
+      requestId,
+    });
+    return;
+  }
+
   // Validation errors
   if (error.name === 'ValidationError') {
     res.status(400).json({
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { piiReadOptions } from '@shared/services/fieldEncryption.service';
+import { maskPiiResponse } from '@shared/utils/demographics.masking';
+
+/**
+ * Mask PII in every JSON response of the router it is mounted on, per
+ * DEMOGRAPHICS_PII_MASKS, unless the caller's key has demographics:pii.
+ * The scope is checked when the response is sent, after authentication.
+ */
+export function piiMaskingMiddleware() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const json = res.json.bind(res);
+
+    res.json = (body?: unknown) => {
+      const auth = (req as AuthenticatedRequest).auth;
+      return json(auth && piiReadOptions(auth).pii ? body : maskPiiResponse(body));
+    };
+
+    next();
+  };
+}
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+/**
+ * Read a multipart upload of one file (field "file") into req.file, in
+ * memory. Requests that are not multipart pass through untouched.
+ */
+export function fileUploadMiddleware(maxSizeMB: number) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSizeMB * 1024 * 1024, files: 1 },
+  }).single('file');
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, error => {
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+        res.status(tooLarge ? 413 : 400).json({
+          success: false,
+          error: tooLarge ? `File exceeds the ${maxSizeMB}MB limit` : error.message,
+          code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+          requestId: req.requestId,
+        });
+        return;
+      }
+
+      next(error);
+    });
+  };
+}
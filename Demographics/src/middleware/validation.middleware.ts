@@ -1,22 +1,39 @@
 import { Request, Response, NextFunction } from 'express';
-import { ZodSchema, ZodError } from 'zod';
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+import { DemographicsRuleViolation } from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { demographicsRulesService } from '@shared/services/demographicsRules.service';
+import { DemographicsRuleInput } from '@shared/utils/demographics.rules';
 
+// Cross-field checks run on data that passed the schema
+export type RuleCheck<T> = (data: T, req: AuthenticatedRequest) => Promise<DemographicsRuleViolation[]>;
+
+// Business rules of a demographics submission, at the caller's law firm severities
+export const demographicsRuleCheck: RuleCheck<DemographicsRuleInput> = async (data, req) =>
+  (await demographicsRulesService.evaluate(req.auth.lawFirm, [data]))[0];
+
+/**
+ * Parse the target with the schema, then run the rule check if given.
+ * Error-severity violations fail the request with 422; warnings are left
+ * in req.ruleWarnings for the handler to return.
+ */
 export function validationMiddleware<T>(
-  schema: ZodSchema<T>, 
-  target: 'body' | 'query' | 'params' = 'body'
+  schema: ZodType<T, ZodTypeDef, unknown>, 
+  target: 'body' | 'query' | 'params' = 'body',
+  rules?: RuleCheck<T>
 ) {
   return (req: Request, res: Response, next: NextFunction): void => {
+    let validatedData: T;
+
     try {
       const data = target === 'body' ? req.body : 
                   target === 'query' ? req.query : req.params;
       
-      const validatedData = schema.parse(data);
+      validatedData = schema.parse(data);
       
       // Store validated data in a custom property
       (req as any).validatedData = (req as any).validatedData || {};
       (req as any).validatedData[target] = validatedData;
-
-      next();
     } catch (error) {
       if (error instanceof ZodError) {
         res.status(400).json({
@@ -32,7 +49,27 @@ export function validationMiddleware<T>(
         return; // Prevent calling next(error) for validation errors
       }
 
-      next(error);
+      return next(error);
     }
+
+    if (!rules) return next();
+
+    rules(validatedData, req as AuthenticatedRequest)
+      .then(violations => {
+        if (violations.some(violation => violation.severity === 'error')) {
+          res.status(422).json({
+            success: false,
+            error: 'Business rule validation failed',
+            code: 'BUSINESS_RULE_VIOLATION',
+            violations,
+            requestId: req.requestId,
+          });
+          return;
+        }
+
+        req.ruleWarnings = violations;
+        next();
+      })
+      .catch(next);
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,61 @@
+-- Bring existing Demographics tables in line with DemographicsSchema so every
+-- submitted field is persisted (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+IF COL_LENGTH('Demographics', 'law_firm') IS NULL
+    ALTER TABLE Demographics ADD law_firm NVARCHAR(55) NULL;
+IF COL_LENGTH('Demographics', 'email') IS NULL
+    ALTER TABLE Demographics ADD email NVARCHAR(100) NULL;
+IF COL_LENGTH('Demographics', 'phone') IS NULL
+    ALTER TABLE Demographics ADD phone NVARCHAR(20) NULL;
+IF COL_LENGTH('Demographics', 'ethnicity') IS NULL
+    ALTER TABLE Demographics ADD ethnicity NVARCHAR(11) NULL;
+GO
+
+-- Backfill and tighten the required columns
+UPDATE Demographics SET law_firm = partitionKey WHERE law_firm IS NULL;
+UPDATE Demographics SET email = '' WHERE email IS NULL;
+UPDATE Demographics SET phone = '' WHERE phone IS NULL;
+UPDATE Demographics SET ethnicity = '' WHERE ethnicity IS NULL;
+GO
+
+ALTER TABLE Demographics ALTER COLUMN law_firm NVARCHAR(55) NOT NULL;
+ALTER TABLE Demographics ALTER COLUMN email NVARCHAR(100) NOT NULL;
+ALTER TABLE Demographics ALTER COLUMN phone NVARCHAR(20) NOT NULL;
+ALTER TABLE Demographics ALTER COLUMN ethnicity NVARCHAR(11) NOT NULL;
+
+-- firstname / lastname are optional in the API
+DROP INDEX IX_Demographics_FirstnameLastname ON Demographics;
+ALTER TABLE Demographics ALTER COLUMN firstname NVARCHAR(55) NULL;
+ALTER TABLE Demographics ALTER COLUMN lastname NVARCHAR(75) NULL;
+CREATE INDEX IX_Demographics_FirstnameLastname ON Demographics (firstname, lastname);
+
+-- dob / dod are calendar dates
+ALTER TABLE Demographics ALTER COLUMN dob DATE NULL;
+ALTER TABLE Demographics ALTER COLUMN dod DATE NULL;
+GO
+
+-- Enumerated fields
+ALTER TABLE Demographics ADD
+    CONSTRAINT CK_Demographics_LawFirmApproval CHECK (law_firm_approval IN ('Approved', 'Hold')),
+    CONSTRAINT CK_Demographics_ClaimantType CHECK (claimanttype IN ('Adult', 'Minor', 'Incapacitated Adult', 'Decedent', 'Alternate', 'Municipality')),
+    CONSTRAINT CK_Demographics_LiensFinal CHECK (liensfinal IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_Bankruptcy CHECK (bankruptcy IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_BankruptcyCleared CHECK (bankruptcycleared IN ('Cleared to Trustee', 'Cleared to Claimant', 'Cleared-Split', 'Non applicable')),
+    CONSTRAINT CK_Demographics_Probate CHECK (probate IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_ProbateCleared CHECK (probatecleared IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_PathwayOptIn CHECK (pathway_opt_in_status IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_GenderIdentity CHECK (genderidentity IN ('Male', 'Female', 'Nonbinary', 'Not Listed')),
+    CONSTRAINT CK_Demographics_Pronouns CHECK (pronouns IN ('He/Him', 'She/Her', 'They/Them', 'He/They', 'She/They', 'Not Listed')),
+    CONSTRAINT CK_Demographics_SmsOptIn CHECK (sms_opt_in IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_AltClaimantType CHECK (altclaimanttype IN ('Personal Representative (POA)', 'Trustee', 'Estate Representative', 'Heir', 'Other')),
+    CONSTRAINT CK_Demographics_AttorneyFeeCalcMethod CHECK (attorneyfeecalcmethod IN ('Gross', 'Net Cost')),
+    CONSTRAINT CK_Demographics_LienType1 CHECK (lientype1 IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)')),
+    CONSTRAINT CK_Demographics_LienType2 CHECK (lientype2 IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)')),
+    CONSTRAINT CK_Demographics_LienType3 CHECK (lientype3 IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)')),
+    CONSTRAINT CK_Demographics_LienType4 CHECK (lientype4 IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)')),
+    CONSTRAINT CK_Demographics_LienType5 CHECK (lientype5 IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)')),
+    CONSTRAINT CK_Demographics_LienType6 CHECK (lientype6 IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)')),
+    CONSTRAINT CK_Demographics_Status CHECK (status IN ('active', 'inactive', 'archived', 'deleted'));
+GO
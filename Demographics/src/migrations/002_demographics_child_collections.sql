@@ -0,0 +1,269 @@
+-- Move attorneys, liens, vendor expenses and attorney cost details out of the
+-- numbered Demographics columns into child tables (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsAttorneys (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    name NVARCHAR(75),
+    fee_percent DECIMAL(10,4),
+    fees DECIMAL(15,4),
+    cost_amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsAttorneys PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsAttorneys_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE
+);
+
+CREATE TABLE DemographicsMedicalLiens (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    name NVARCHAR(55),
+    lien_id NVARCHAR(55),
+    lien_type NVARCHAR(35), -- enum
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsMedicalLiens PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsMedicalLiens_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE,
+    CONSTRAINT CK_DemographicsMedicalLiens_LienType CHECK (lien_type IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)'))
+);
+
+CREATE TABLE DemographicsOtherLiens (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    name NVARCHAR(55),
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsOtherLiens PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsOtherLiens_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE
+);
+
+CREATE TABLE DemographicsVendorExpenses (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    vendor_type NVARCHAR(20) NOT NULL, -- enum
+    position INT NOT NULL,
+    name NVARCHAR(55),
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsVendorExpenses PRIMARY KEY (demographic_id, vendor_type, position),
+    CONSTRAINT FK_DemographicsVendorExpenses_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE,
+    CONSTRAINT CK_DemographicsVendorExpenses_VendorType CHECK (vendor_type IN ('qsfadmin', 'claimsadmin', 'lraholdback', 'lrafinal', 'specialmaster', 'eifappeal', 'bankruptcycounsel', 'probatecounsel', 'other'))
+);
+
+CREATE TABLE DemographicsAttorneyCostDetails (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    attorney_name NVARCHAR(75),
+    detail_name NVARCHAR(128),
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsAttorneyCostDetails PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsAttorneyCostDetails_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE
+);
+GO
+
+INSERT INTO DemographicsAttorneys (demographic_id, position, name, fee_percent, fees, cost_amount)
+SELECT d.id, a.position, a.name, a.fee_percent, a.fees, a.cost_amount
+FROM Demographics d
+CROSS APPLY (VALUES
+        (1, attorney1name, attorney1feepercent, attorney1fees, attorney1costamount),
+        (2, attorney2name, attorney2feepercent, attorney2fees, attorney2costamount),
+        (3, attorney3name, attorney3feepercent, attorney3fees, attorney3costamount),
+        (4, attorney4name, attorney4feepercent, attorney4fees, attorney4costamount),
+        (5, attorney5name, attorney5feepercent, attorney5fees, attorney5costamount),
+        (6, attorney6name, attorney6feepercent, attorney6fees, attorney6costamount),
+        (7, attorney7name, attorney7feepercent, attorney7fees, attorney7costamount),
+        (8, attorney8name, attorney8feepercent, attorney8fees, attorney8costamount),
+        (9, attorney9name, attorney9feepercent, attorney9fees, attorney9costamount),
+        (10, attorney10name, attorney10feepercent, attorney10fees, attorney10costamount)
+) AS a (position, name, fee_percent, fees, cost_amount)
+WHERE COALESCE(a.name, CAST(a.fee_percent AS NVARCHAR(40)), CAST(a.fees AS NVARCHAR(40)), CAST(a.cost_amount AS NVARCHAR(40))) IS NOT NULL;
+
+INSERT INTO DemographicsMedicalLiens (demographic_id, position, name, lien_id, lien_type, amount)
+SELECT d.id, l.position, l.name, l.lien_id, l.lien_type, l.amount
+FROM Demographics d
+CROSS APPLY (VALUES
+        (1, medicallien1name, lienid1, lientype1, medicallien1),
+        (2, medicallien2name, lienid2, lientype2, medicallien2),
+        (3, medicallien3name, lienid3, lientype3, medicallien3),
+        (4, medicallien4name, lienid4, lientype4, medicallien4),
+        (5, medicallien5name, lienid5, lientype5, medicallien5),
+        (6, medicallien6name, lienid6, lientype6, medicallien6)
+) AS l (position, name, lien_id, lien_type, amount)
+WHERE COALESCE(l.name, l.lien_id, l.lien_type, CAST(l.amount AS NVARCHAR(40))) IS NOT NULL;
+
+INSERT INTO DemographicsOtherLiens (demographic_id, position, name, amount)
+SELECT d.id, o.position, o.name, o.amount
+FROM Demographics d
+CROSS APPLY (VALUES
+        (1, otherlien1name, otherlien1amount),
+        (2, otherlien2name, otherlien2amount)
+) AS o (position, name, amount)
+WHERE COALESCE(o.name, CAST(o.amount AS NVARCHAR(40))) IS NOT NULL;
+
+INSERT INTO DemographicsVendorExpenses (demographic_id, vendor_type, position, name, amount)
+SELECT d.id, v.vendor_type, 1, v.name, v.amount
+FROM Demographics d
+CROSS APPLY (VALUES
+        ('qsfadmin', vendorexpenseqsfadminname, vendorexpenseqsfadmin),
+        ('claimsadmin', vendorexpenseclaimsadminname, vendorexpenseclaimsadmin),
+        ('lraholdback', vendorexpenselraholdbackname, vendorexpenselraholdback),
+        ('lrafinal', vendorexpenselrafinalname, vendorexpenselrafinal),
+        ('specialmaster', vendorexpensespecialmastername, vendorexpensespecialmaster),
+        ('eifappeal', vendorexpenseeifappealname, vendorexpenseeifappeal),
+        ('bankruptcycounsel', vendorexpensebankruptcycounselname, vendorexpensebankruptcycounsel),
+        ('probatecounsel', vendorexpenseprobatecounselname, vendorexpenseprobatecounsel),
+        ('other', vendorothername, vendorother)
+) AS v (vendor_type, name, amount)
+WHERE COALESCE(v.name, CAST(v.amount AS NVARCHAR(40))) IS NOT NULL;
+
+INSERT INTO DemographicsAttorneyCostDetails (demographic_id, position, attorney_name, detail_name, amount)
+SELECT d.id, c.position, c.attorney_name, c.detail_name, c.amount
+FROM Demographics d
+CROSS APPLY (VALUES
+        (1, attorney1name_cost, attorney1_costdetailname, attorney1_costdetailamount),
+        (2, attorney2name_cost, attorney2_costdetailname, attorney2_costdetailamount),
+        (3, attorney3name_cost, attorney3_costdetailname, attorney3_costdetailamount),
+        (4, attorney4name_cost, attorney4_costdetailname, attorney4_costdetailamount),
+        (5, attorney5name_cost, attorney5_costdetailname, attorney5_costdetailamount),
+        (6, attorney6name_cost, attorney6_costdetailname, attorney6_costdetailamount),
+        (7, attorney7name_cost, attorney7_costdetailname, attorney7_costdetailamount),
+        (8, attorney8name_cost, attorney8_costdetailname, attorney8_costdetailamount),
+        (9, attorney9name_cost, attorney9_costdetailname, attorney9_costdetailamount),
+        (10, attorney10name_cost, attorney10_costdetailname, attorney10_costdetailamount)
+) AS c (position, attorney_name, detail_name, amount)
+WHERE COALESCE(c.attorney_name, c.detail_name, CAST(c.amount AS NVARCHAR(40))) IS NOT NULL;
+GO
+
+-- Drop the numbered columns now that the child tables are the source of truth
+ALTER TABLE Demographics DROP CONSTRAINT
+    CK_Demographics_LienType1,
+    CK_Demographics_LienType2,
+    CK_Demographics_LienType3,
+    CK_Demographics_LienType4,
+    CK_Demographics_LienType5,
+    CK_Demographics_LienType6;
+
+ALTER TABLE Demographics DROP COLUMN
+    attorney1name,
+    attorney1feepercent,
+    attorney1fees,
+    attorney1costamount,
+    attorney2name,
+    attorney2feepercent,
+    attorney2fees,
+    attorney2costamount,
+    attorney3name,
+    attorney3feepercent,
+    attorney3fees,
+    attorney3costamount,
+    attorney4name,
+    attorney4feepercent,
+    attorney4fees,
+    attorney4costamount,
+    attorney5name,
+    attorney5feepercent,
+    attorney5fees,
+    attorney5costamount,
+    attorney6name,
+    attorney6feepercent,
+    attorney6fees,
+    attorney6costamount,
+    attorney7name,
+    attorney7feepercent,
+    attorney7fees,
+    attorney7costamount,
+    attorney8name,
+    attorney8feepercent,
+    attorney8fees,
+    attorney8costamount,
+    attorney9name,
+    attorney9feepercent,
+    attorney9fees,
+    attorney9costamount,
+    attorney10name,
+    attorney10feepercent,
+    attorney10fees,
+    attorney10costamount,
+    vendorexpenseqsfadmin,
+    vendorexpenseqsfadminname,
+    vendorexpenseclaimsadmin,
+    vendorexpenseclaimsadminname,
+    vendorexpenselraholdback,
+    vendorexpenselraholdbackname,
+    vendorexpenselrafinal,
+    vendorexpenselrafinalname,
+    vendorexpensespecialmaster,
+    vendorexpensespecialmastername,
+    vendorexpenseeifappeal,
+    vendorexpenseeifappealname,
+    vendorexpensebankruptcycounsel,
+    vendorexpensebankruptcycounselname,
+    vendorexpenseprobatecounsel,
+    vendorexpenseprobatecounselname,
+    vendorother,
+    vendorothername,
+    medicallien1name,
+    lienid1,
+    lientype1,
+    medicallien1,
+    medicallien2name,
+    lienid2,
+    lientype2,
+    medicallien2,
+    medicallien3name,
+    lienid3,
+    lientype3,
+    medicallien3,
+    medicallien4name,
+    lienid4,
+    lientype4,
+    medicallien4,
+    medicallien5name,
+    lienid5,
+    lientype5,
+    medicallien5,
+    medicallien6name,
+    lienid6,
+    lientype6,
+    medicallien6,
+    otherlien1name,
+    otherlien1amount,
+    otherlien2name,
+    otherlien2amount,
+    attorney1name_cost,
+    attorney1_costdetailname,
+    attorney1_costdetailamount,
+    attorney2name_cost,
+    attorney2_costdetailname,
+    attorney2_costdetailamount,
+    attorney3name_cost,
+    attorney3_costdetailname,
+    attorney3_costdetailamount,
+    attorney4name_cost,
+    attorney4_costdetailname,
+    attorney4_costdetailamount,
+    attorney5name_cost,
+    attorney5_costdetailname,
+    attorney5_costdetailamount,
+    attorney6name_cost,
+    attorney6_costdetailname,
+    attorney6_costdetailamount,
+    attorney7name_cost,
+    attorney7_costdetailname,
+    attorney7_costdetailamount,
+    attorney8name_cost,
+    attorney8_costdetailname,
+    attorney8_costdetailamount,
+    attorney9name_cost,
+    attorney9_costdetailname,
+    attorney9_costdetailamount,
+    attorney10name_cost,
+    attorney10_costdetailname,
+    attorney10_costdetailamount;
+GO
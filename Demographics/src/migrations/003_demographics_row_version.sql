@@ -0,0 +1,11 @@
+-- Optimistic concurrency: a row version per Demographics record (returned as
+-- the ETag) and per API key request policies such as require_if_match
+USE PartnersDB;
+GO
+
+IF COL_LENGTH('Demographics', 'row_version') IS NULL
+    ALTER TABLE Demographics ADD row_version ROWVERSION NOT NULL;
+
+IF COL_LENGTH('ApiKeys', 'policies') IS NULL
+    ALTER TABLE ApiKeys ADD policies NVARCHAR(MAX) NULL;
+GO
@@ -0,0 +1,46 @@
+-- Change history for Demographics records (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsHistory (
+    id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    partitionKey NVARCHAR(75) NOT NULL,
+    action NVARCHAR(10) NOT NULL,
+    changes NVARCHAR(MAX) NOT NULL, -- JSON array of { field, old_value, new_value }
+    snapshot NVARCHAR(MAX) NOT NULL, -- JSON record (v2 shape)
+    key_id NVARCHAR(50),
+    request_id NVARCHAR(100),
+    changed_at DATETIME2 NOT NULL,
+
+    INDEX IX_DemographicsHistory_Demographic (demographic_id, changed_at),
+    CONSTRAINT CK_DemographicsHistory_Action CHECK (action IN ('create', 'update', 'delete'))
+);
+GO
+
+-- Earlier edits were overwritten in place, so the best baseline for existing
+-- records is their current state as of their last update
+INSERT INTO DemographicsHistory (demographic_id, partitionKey, action, changes, snapshot, changed_at)
+SELECT
+    d.id,
+    d.partitionKey,
+    'create',
+    '[]',
+    (
+        SELECT
+            d.*,
+            (SELECT position, name, fee_percent, fees, cost_amount
+             FROM DemographicsAttorneys WHERE demographic_id = d.id ORDER BY position FOR JSON PATH) AS attorneys,
+            (SELECT position, name, lien_id, lien_type, amount
+             FROM DemographicsMedicalLiens WHERE demographic_id = d.id ORDER BY position FOR JSON PATH) AS medical_liens,
+            (SELECT position, name, amount
+             FROM DemographicsOtherLiens WHERE demographic_id = d.id ORDER BY position FOR JSON PATH) AS other_liens,
+            (SELECT position, vendor_type, name, amount
+             FROM DemographicsVendorExpenses WHERE demographic_id = d.id ORDER BY vendor_type, position FOR JSON PATH) AS vendor_expenses,
+            (SELECT position, attorney_name, detail_name, amount
+             FROM DemographicsAttorneyCostDetails WHERE demographic_id = d.id ORDER BY position FOR JSON PATH) AS attorney_cost_details
+        FOR JSON PATH, WITHOUT_ARRAY_WRAPPER
+    ),
+    d.updated_at
+FROM Demographics d;
+GO
@@ -0,0 +1,8 @@
+-- Supports cursor pagination of a law firm's records by (created_at, id)
+USE PartnersDB;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_Keyset')
+    CREATE INDEX IX_Demographics_PartitionKey_Keyset
+        ON Demographics (partitionKey, created_at DESC, id DESC);
+GO
@@ -0,0 +1,33 @@
+-- Supports the filter_* parameters and sort orders of GET /demographics
+USE PartnersDB;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_UpdatedAt')
+    CREATE INDEX IX_Demographics_PartitionKey_UpdatedAt
+        ON Demographics (partitionKey, updated_at DESC, id DESC);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_Name')
+    CREATE INDEX IX_Demographics_PartitionKey_Name
+        ON Demographics (partitionKey, lastname, firstname);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_State')
+    CREATE INDEX IX_Demographics_PartitionKey_State
+        ON Demographics (partitionKey, state);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_SfId')
+    CREATE INDEX IX_Demographics_PartitionKey_SfId
+        ON Demographics (partitionKey, sf_id);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_MlId')
+    CREATE INDEX IX_Demographics_PartitionKey_MlId
+        ON Demographics (partitionKey, ml_id);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_ClientId')
+    CREATE INDEX IX_Demographics_PartitionKey_ClientId
+        ON Demographics (partitionKey, law_firm_client_id);
+GO
@@ -0,0 +1,34 @@
+-- Phonetic name keys for fuzzy name search (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsNameKeys (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    partitionKey NVARCHAR(75) NOT NULL,
+    name_field NVARCHAR(30) NOT NULL,
+    phonetic_key CHAR(4) NOT NULL,
+
+    CONSTRAINT PK_DemographicsNameKeys PRIMARY KEY (demographic_id, name_field, phonetic_key),
+    CONSTRAINT FK_DemographicsNameKeys_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE,
+    INDEX IX_DemographicsNameKeys_Key (partitionKey, phonetic_key)
+);
+GO
+
+-- Backfill with SQL Server's SOUNDEX, which matches the API's keys for plain
+-- ASCII names (requires compatibility level 110 or later). Words are split on
+-- spaces and hyphens and stripped of apostrophes and periods like the API does.
+INSERT INTO DemographicsNameKeys (demographic_id, partitionKey, name_field, phonetic_key)
+SELECT DISTINCT n.id, n.partitionKey, n.name_field, SOUNDEX(w.word)
+FROM (
+    SELECT id, partitionKey, 'firstname' AS name_field, firstname AS name FROM Demographics
+    UNION ALL SELECT id, partitionKey, 'lastname', lastname FROM Demographics
+    UNION ALL SELECT id, partitionKey, 'alternateclaimantfirstname', alternateclaimantfirstname FROM Demographics
+    UNION ALL SELECT id, partitionKey, 'alternateclaimantlastname', alternateclaimantlastname FROM Demographics
+) n
+CROSS APPLY (
+    SELECT REPLACE(REPLACE(value, '''', ''), '.', '') AS word
+    FROM STRING_SPLIT(REPLACE(n.name, '-', ' '), ' ')
+) w
+WHERE n.name IS NOT NULL AND w.word <> '' AND SOUNDEX(w.word) <> '';
+GO
@@ -0,0 +1,27 @@
+-- Duplicate detection on create and POST /demographics/:id/merge
+USE PartnersDB;
+GO
+
+ALTER TABLE Demographics ADD merged_into UNIQUEIDENTIFIER NULL;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_Ssn')
+    CREATE INDEX IX_Demographics_PartitionKey_Ssn ON Demographics (partitionKey, ssn);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_DobLastname')
+    CREATE INDEX IX_Demographics_PartitionKey_DobLastname ON Demographics (partitionKey, dob, lastname);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_Email')
+    CREATE INDEX IX_Demographics_PartitionKey_Email ON Demographics (partitionKey, email);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_Phone')
+    CREATE INDEX IX_Demographics_PartitionKey_Phone ON Demographics (partitionKey, phone);
+GO
+
+ALTER TABLE DemographicsHistory DROP CONSTRAINT CK_DemographicsHistory_Action;
+ALTER TABLE DemographicsHistory ADD CONSTRAINT CK_DemographicsHistory_Action
+    CHECK (action IN ('create', 'update', 'delete', 'merge'));
+GO
@@ -0,0 +1,57 @@
+-- Field-level encryption of ssn, dob, alternateclaimantssn and alternateclaimantdob.
+-- Existing plaintext is sealed by the application (npm run seal-pii), which needs
+-- the master key; this migration only adds the columns and scrubs the history.
+USE PartnersDB;
+GO
+
+ALTER TABLE Demographics ADD
+    pii_envelope NVARCHAR(MAX) NULL,
+    ssn_bidx VARCHAR(64) NULL,
+    ssn_last4_bidx VARCHAR(64) NULL,
+    dob_bidx VARCHAR(64) NULL;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_SsnBidx')
+    CREATE INDEX IX_Demographics_PartitionKey_SsnBidx ON Demographics (partitionKey, ssn_bidx);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_SsnLast4Bidx')
+    CREATE INDEX IX_Demographics_PartitionKey_SsnLast4Bidx ON Demographics (partitionKey, ssn_last4_bidx);
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_DobBidxLastname')
+    CREATE INDEX IX_Demographics_PartitionKey_DobBidxLastname ON Demographics (partitionKey, dob_bidx, lastname);
+GO
+
+-- History snapshots no longer hold the encrypted fields
+UPDATE DemographicsHistory
+SET snapshot = JSON_MODIFY(JSON_MODIFY(JSON_MODIFY(JSON_MODIFY(snapshot,
+    '$.ssn', NULL), '$.dob', NULL), '$.alternateclaimantssn', NULL), '$.alternateclaimantdob', NULL);
+GO
+
+-- Redact their old and new values in recorded changes, one array element per row per pass
+WHILE 1 = 1
+BEGIN
+    UPDATE h
+    SET changes = JSON_MODIFY(h.changes, '$[' + c.[key] + '].old_value', '[encrypted]')
+    FROM DemographicsHistory h
+    CROSS APPLY OPENJSON(h.changes) c
+    WHERE JSON_VALUE(c.value, '$.field') IN ('ssn', 'dob', 'alternateclaimantssn', 'alternateclaimantdob')
+      AND JSON_VALUE(c.value, '$.old_value') != '[encrypted]';
+
+    IF @@ROWCOUNT = 0 BREAK;
+END
+GO
+
+WHILE 1 = 1
+BEGIN
+    UPDATE h
+    SET changes = JSON_MODIFY(h.changes, '$[' + c.[key] + '].new_value', '[encrypted]')
+    FROM DemographicsHistory h
+    CROSS APPLY OPENJSON(h.changes) c
+    WHERE JSON_VALUE(c.value, '$.field') IN ('ssn', 'dob', 'alternateclaimantssn', 'alternateclaimantdob')
+      AND JSON_VALUE(c.value, '$.new_value') != '[encrypted]';
+
+    IF @@ROWCOUNT = 0 BREAK;
+END
+GO
@@ -0,0 +1,15 @@
+-- Per law firm business rule severities (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsRuleSettings (
+    law_firm NVARCHAR(75) NOT NULL,
+    rule_code NVARCHAR(64) NOT NULL,
+    severity NVARCHAR(10) NOT NULL,
+    updated_by NVARCHAR(50),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT PK_DemographicsRuleSettings PRIMARY KEY (law_firm, rule_code),
+    CONSTRAINT CK_DemographicsRuleSettings_Severity CHECK (severity IN ('error', 'warning'))
+);
+GO
@@ -0,0 +1,49 @@
+-- CSV and XLSX demographics imports and header aliases (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsImports (
+    id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    file_name NVARCHAR(255) NOT NULL,
+    format NVARCHAR(10) NOT NULL,
+    status NVARCHAR(20) NOT NULL,
+    total_rows INT NOT NULL DEFAULT 0,
+    processed_rows INT NOT NULL DEFAULT 0,
+    queued_rows INT NOT NULL DEFAULT 0,
+    rejected_rows INT NOT NULL DEFAULT 0,
+    unmapped_columns NVARCHAR(MAX) NOT NULL, -- JSON array
+    error NVARCHAR(1000),
+    created_by NVARCHAR(50) NOT NULL,
+    created_at DATETIME2 NOT NULL,
+    updated_at DATETIME2 NOT NULL,
+    completed_at DATETIME2,
+
+    CONSTRAINT CK_DemographicsImports_Format CHECK (format IN ('csv', 'xlsx')),
+    CONSTRAINT CK_DemographicsImports_Status CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    INDEX IX_DemographicsImports_LawFirm (law_firm, created_at)
+);
+GO
+
+CREATE TABLE DemographicsImportErrors (
+    id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    import_id UNIQUEIDENTIFIER NOT NULL,
+    row_number INT NOT NULL,
+    field NVARCHAR(255) NOT NULL,
+    message NVARCHAR(1000) NOT NULL,
+
+    CONSTRAINT FK_DemographicsImportErrors_Import FOREIGN KEY (import_id) REFERENCES DemographicsImports(id) ON DELETE CASCADE,
+    INDEX IX_DemographicsImportErrors_Import (import_id, row_number)
+);
+GO
+
+CREATE TABLE DemographicsImportAliases (
+    law_firm NVARCHAR(75) NOT NULL,
+    header NVARCHAR(100) NOT NULL, -- Normalized: lower case letters and digits
+    field NVARCHAR(64) NOT NULL,
+    updated_by NVARCHAR(50),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT PK_DemographicsImportAliases PRIMARY KEY (law_firm, header)
+);
+GO
@@ -0,0 +1,26 @@
+-- Background demographics exports (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsExports (
+    id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    format NVARCHAR(10) NOT NULL,
+    fields NVARCHAR(MAX) NOT NULL, -- JSON array
+    filters NVARCHAR(MAX) NOT NULL, -- JSON object, without the SSN filters
+    sort NVARCHAR(MAX) NOT NULL, -- JSON array
+    status NVARCHAR(20) NOT NULL,
+    pii BIT NOT NULL DEFAULT 0, -- Values written unmasked
+    row_count INT NOT NULL DEFAULT 0,
+    blob_name NVARCHAR(1024),
+    error NVARCHAR(1000),
+    created_by NVARCHAR(50) NOT NULL,
+    created_at DATETIME2 NOT NULL,
+    updated_at DATETIME2 NOT NULL,
+    completed_at DATETIME2,
+
+    CONSTRAINT CK_DemographicsExports_Format CHECK (format IN ('csv', 'xlsx', 'ndjson')),
+    CONSTRAINT CK_DemographicsExports_Status CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    INDEX IX_DemographicsExports_LawFirm (law_firm, created_at)
+);
+GO
@@ -0,0 +1,33 @@
+-- Demographics batch jobs and item states (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+CREATE TABLE DemographicsBatches (
+    correlation_id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    batch_size INT NOT NULL,
+    status NVARCHAR(20) NOT NULL,
+    webhook_url NVARCHAR(2048),
+    notify_on_completion BIT NOT NULL DEFAULT 0,
+    created_at DATETIME2 NOT NULL,
+    updated_at DATETIME2 NOT NULL,
+    completed_at DATETIME2,
+
+    CONSTRAINT CK_DemographicsBatches_Status CHECK (status IN ('processing', 'completed')),
+    INDEX IX_DemographicsBatches_LawFirm (law_firm, created_at)
+);
+GO
+
+CREATE TABLE DemographicsBatchItems (
+    correlation_id UNIQUEIDENTIFIER NOT NULL,
+    batch_index INT NOT NULL,
+    demographic_id UNIQUEIDENTIFIER,
+    status NVARCHAR(20) NOT NULL,
+    reason NVARCHAR(1000),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT PK_DemographicsBatchItems PRIMARY KEY (correlation_id, batch_index),
+    CONSTRAINT FK_DemographicsBatchItems_Batch FOREIGN KEY (correlation_id) REFERENCES DemographicsBatches(correlation_id) ON DELETE CASCADE,
+    CONSTRAINT CK_DemographicsBatchItems_Status CHECK (status IN ('accepted', 'processing', 'processed', 'failed'))
+);
+GO
@@ -0,0 +1,53 @@
+-- sf_id, ml_id, law_firm_client_id and otherid are unique per law firm among
+-- records that are not deleted, so /demographics/by/:field/:value finds one record
+USE PartnersDB;
+GO
+
+-- Resolve existing collisions (merge or clear the ids) before running this
+IF EXISTS (
+    SELECT 1 FROM (
+        SELECT partitionKey, 'sf_id' AS field, sf_id AS value FROM Demographics WHERE sf_id IS NOT NULL AND status <> 'deleted'
+        UNION ALL
+        SELECT partitionKey, 'ml_id', ml_id FROM Demographics WHERE ml_id IS NOT NULL AND status <> 'deleted'
+        UNION ALL
+        SELECT partitionKey, 'law_firm_client_id', law_firm_client_id FROM Demographics WHERE law_firm_client_id IS NOT NULL AND status <> 'deleted'
+        UNION ALL
+        SELECT partitionKey, 'otherid', otherid FROM Demographics WHERE otherid IS NOT NULL AND status <> 'deleted'
+    ) ids
+    GROUP BY partitionKey, field, value
+    HAVING COUNT(*) > 1
+)
+    THROW 50014, 'Demographics share external ids within a law firm; resolve them before adding the unique indexes', 1;
+GO
+
+IF EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_SfId')
+    DROP INDEX IX_Demographics_PartitionKey_SfId ON Demographics;
+IF EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_MlId')
+    DROP INDEX IX_Demographics_PartitionKey_MlId ON Demographics;
+IF EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_ClientId')
+    DROP INDEX IX_Demographics_PartitionKey_ClientId ON Demographics;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'UX_Demographics_PartitionKey_SfId')
+    CREATE UNIQUE INDEX UX_Demographics_PartitionKey_SfId
+        ON Demographics (partitionKey, sf_id)
+        WHERE sf_id IS NOT NULL AND status <> 'deleted';
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'UX_Demographics_PartitionKey_MlId')
+    CREATE UNIQUE INDEX UX_Demographics_PartitionKey_MlId
+        ON Demographics (partitionKey, ml_id)
+        WHERE ml_id IS NOT NULL AND status <> 'deleted';
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'UX_Demographics_PartitionKey_ClientId')
+    CREATE UNIQUE INDEX UX_Demographics_PartitionKey_ClientId
+        ON Demographics (partitionKey, law_firm_client_id)
+        WHERE law_firm_client_id IS NOT NULL AND status <> 'deleted';
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'UX_Demographics_PartitionKey_OtherId')
+    CREATE UNIQUE INDEX UX_Demographics_PartitionKey_OtherId
+        ON Demographics (partitionKey, otherid)
+        WHERE otherid IS NOT NULL AND status <> 'deleted';
+GO
@@ -0,0 +1,7 @@
+-- Address normalization on create and update keeps the submitted form of
+-- every address field it changes
+USE PartnersDB;
+GO
+
+ALTER TABLE Demographics ADD address_raw NVARCHAR(MAX) NULL;
+GO
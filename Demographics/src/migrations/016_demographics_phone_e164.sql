@@ -0,0 +1,10 @@
+-- E.164 forms of the phone numbers, kept alongside the numbers as submitted
+USE PartnersDB;
+GO
+
+ALTER TABLE Demographics ADD
+    phone_e164 NVARCHAR(16) NULL,
+    claimantmobilephone_e164 NVARCHAR(16) NULL,
+    claimanthomephone_e164 NVARCHAR(16) NULL,
+    alternateclaimantpersonalphonenumber_e164 NVARCHAR(16) NULL;
+GO
@@ -0,0 +1,50 @@
+-- Restore of soft deleted demographics, per law firm retention, legal holds and purge tombstones
+USE PartnersDB;
+GO
+
+ALTER TABLE DemographicsHistory DROP CONSTRAINT CK_DemographicsHistory_Action;
+ALTER TABLE DemographicsHistory ADD CONSTRAINT CK_DemographicsHistory_Action
+    CHECK (action IN ('create', 'update', 'delete', 'merge', 'restore'));
+GO
+
+-- Deleted records are never written again, so updated_at is when they were deleted
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Demographics_PartitionKey_Deleted')
+    CREATE INDEX IX_Demographics_PartitionKey_Deleted ON Demographics (partitionKey, updated_at)
+    WHERE status = 'deleted';
+GO
+
+CREATE TABLE DemographicsRetentionSettings (
+    law_firm NVARCHAR(75) PRIMARY KEY,
+    retention_days INT NOT NULL,
+    updated_by NVARCHAR(50),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT CK_DemographicsRetentionSettings_Days CHECK (retention_days > 0)
+);
+GO
+
+-- No cascade: a held record cannot be deleted from under its hold
+CREATE TABLE DemographicsLegalHolds (
+    demographic_id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    reason NVARCHAR(500) NOT NULL,
+    placed_by NVARCHAR(50),
+    placed_at DATETIME2 NOT NULL,
+
+    CONSTRAINT FK_DemographicsLegalHolds_Demographics FOREIGN KEY (demographic_id) REFERENCES Demographics (id)
+);
+GO
+
+CREATE TABLE DemographicsTombstones (
+    demographic_id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    sf_id NVARCHAR(50),
+    law_firm_client_id NVARCHAR(50),
+    deleted_at DATETIME2 NOT NULL,
+    purged_at DATETIME2 NOT NULL,
+    retention_days INT NOT NULL,
+    history_entries INT NOT NULL,
+
+    INDEX IX_DemographicsTombstones_LawFirm (law_firm, purged_at)
+);
+GO
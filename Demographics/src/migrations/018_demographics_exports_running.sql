@@ -0,0 +1,8 @@
+-- Finds exports left pending or processing by a stopped process (see shared/database/schema.sql)
+USE PartnersDB;
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_DemographicsExports_Running')
+    CREATE INDEX IX_DemographicsExports_Running ON DemographicsExports (updated_at)
+    WHERE status IN ('pending', 'processing');
+GO
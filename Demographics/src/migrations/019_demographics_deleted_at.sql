@@ -0,0 +1,21 @@
+-- When each record was soft deleted, so later writes do not move its restore window or purge
+USE PartnersDB;
+GO
+
+IF COL_LENGTH('Demographics', 'deleted_at') IS NULL
+    ALTER TABLE Demographics ADD deleted_at DATETIME2 NULL;
+GO
+
+-- Records deleted before the column existed: their last delete or merge, else their last write
+UPDATE d SET deleted_at = COALESCE(
+    (SELECT MAX(h.changed_at) FROM DemographicsHistory h
+     WHERE h.demographic_id = d.id AND h.action IN ('delete', 'merge')),
+    d.updated_at)
+FROM Demographics d
+WHERE d.status = 'deleted' AND d.deleted_at IS NULL;
+GO
+
+DROP INDEX IF EXISTS IX_Demographics_PartitionKey_Deleted ON Demographics;
+CREATE INDEX IX_Demographics_PartitionKey_Deleted ON Demographics (partitionKey, deleted_at)
+    WHERE status = 'deleted';
+GO
@@ -1,14 +1,333 @@
-import { Router } from 'express';
-import { DemographicsController } from '../controllers/demographics.controller';
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  BatchSubmitSchema,
+  BulkUpdateDemographicsRequestSchema,
+  CreateDemographicsExportRequestSchema,
+  CreateDemographicsImportRequestSchema,
+  CreateDemographicsQuerySchema,
+  CreateDemographicsRequestSchema,
+  DemographicsExternalIdParamsSchema,
+  GetDemographicByIdQuerySchema,
+  GetDemographicsHistoryQuerySchema,
+  GetDemographicsQuerySchema,
+  MergeDemographicsRequestSchema,
+  PatchDemographicsRequestSchema,
+  PlaceDemographicsLegalHoldRequestSchema,
+  UpdateDemographicsImportAliasesRequestSchema,
+  UpdateDemographicsRetentionRequestSchema,
+  UpdateDemographicsRuleRequestSchema,
+  UpsertDemographicsParamsSchema,
+  UpsertDemographicsQuerySchema,
+} from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { MAX_IMPORT_FILE_MB } from '@shared/services/demographicsImport.service';
+import { requireAuth } from '../middleware/security.middleware';
+import { demographicsRuleCheck, validationMiddleware } from '../middleware/validation.middleware';
+import { ifMatchMiddleware } from '../middleware/concurrency.middleware';
+import { fileUploadMiddleware } from '../middleware/upload.middleware';
+import { demographicsController } from '../controllers/demographics.controller';
+import { demographicsImportController } from '../controllers/demographicsImport.controller';
+import { demographicsExportController } from '../controllers/demographicsExport.controller';
+import { demographicsRetentionController } from '../controllers/demographicsRetention.controller';
 
 const router = Router();
-const demographicsController = new DemographicsController();
 
-// External API routes
-router.get('/external/v1/demographics/:sf_id', demographicsController.getById.bind(demographicsController));
-router.put('/external/v1/demographics/update', demographicsController.updateBatch.bind(demographicsController));
+/**
+ * POST /external/v1/demographics
+ */
+router.post('/',
+  requireAuth(['demographics:write']),
+  validationMiddleware(CreateDemographicsQuerySchema, 'query'),
+  validationMiddleware(CreateDemographicsRequestSchema, 'body', demographicsRuleCheck),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.create(req as AuthenticatedRequest, res, next)
+);
 
-// Internal API routes  
-router.put('/api/v1/demographics/:sf_id', demographicsController.updateSingle.bind(demographicsController));
+/**
+ * POST /external/v1/demographics/batch
+ */
+router.post('/batch',
+  requireAuth(['demographics:write']),
+  validationMiddleware(CreateDemographicsQuerySchema, 'query'),
+  validationMiddleware(BatchSubmitSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.createBatch(req as AuthenticatedRequest, res, next)
+);
 
-export { router as demographicsRoutes };
\ No newline at end of file
+/**
+ * PUT /external/v1/demographics/update
+ */
+router.put('/update',
+  requireAuth(['demographics:write']),
+  validationMiddleware(BulkUpdateDemographicsRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.updateBatch(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/batches/:correlation_id
+ */
+router.get('/batches/:correlation_id',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.getBatch(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics
+ */
+router.get('/',
+  requireAuth(['demographics:read']),
+  validationMiddleware(GetDemographicsQuerySchema, 'query'),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.list(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/rules
+ */
+router.get('/rules',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.listRules(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PUT /external/v1/demographics/rules/:code
+ */
+router.put('/rules/:code',
+  requireAuth(['demographics:admin']),
+  validationMiddleware(UpdateDemographicsRuleRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.updateRule(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/retention
+ */
+router.get('/retention',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsRetentionController.getRetention(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PUT /external/v1/demographics/retention
+ */
+router.put('/retention',
+  requireAuth(['demographics:admin']),
+  validationMiddleware(UpdateDemographicsRetentionRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsRetentionController.updateRetention(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * POST /external/v1/demographics/imports
+ */
+router.post('/imports',
+  requireAuth(['demographics:write']),
+  fileUploadMiddleware(MAX_IMPORT_FILE_MB),
+  validationMiddleware(CreateDemographicsImportRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsImportController.create(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/imports/aliases
+ */
+router.get('/imports/aliases',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsImportController.getAliases(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PUT /external/v1/demographics/imports/aliases
+ */
+router.put('/imports/aliases',
+  requireAuth(['demographics:admin']),
+  validationMiddleware(UpdateDemographicsImportAliasesRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsImportController.updateAliases(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/imports/:id
+ */
+router.get('/imports/:id',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsImportController.getById(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/imports/:id/errors
+ */
+router.get('/imports/:id/errors',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsImportController.errors(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * POST /external/v1/demographics/exports
+ */
+router.post('/exports',
+  requireAuth(['demographics:read']),
+  validationMiddleware(CreateDemographicsExportRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsExportController.create(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/exports/:id
+ */
+router.get('/exports/:id',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsExportController.getById(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PUT /external/v1/demographics/by-client-id/:law_firm_client_id
+ */
+router.put('/by-client-id/:law_firm_client_id',
+  requireAuth(['demographics:write']),
+  validationMiddleware(UpsertDemographicsParamsSchema, 'params'),
+  validationMiddleware(UpsertDemographicsQuerySchema, 'query'),
+  validationMiddleware(CreateDemographicsRequestSchema, 'body', demographicsRuleCheck),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.upsertByClientId(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/by/:field/:value
+ */
+router.get('/by/:field/:value',
+  requireAuth(['demographics:read']),
+  validationMiddleware(DemographicsExternalIdParamsSchema, 'params'),
+  validationMiddleware(GetDemographicByIdQuerySchema, 'query'),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.resolveExternalId(req as AuthenticatedRequest, res, next),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.getById(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PATCH /external/v1/demographics/by/:field/:value
+ */
+router.patch('/by/:field/:value',
+  requireAuth(['demographics:write']),
+  validationMiddleware(DemographicsExternalIdParamsSchema, 'params'),
+  ifMatchMiddleware(),
+  validationMiddleware(PatchDemographicsRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.resolveExternalId(req as AuthenticatedRequest, res, next),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.update(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * DELETE /external/v1/demographics/by/:field/:value
+ */
+router.delete('/by/:field/:value',
+  requireAuth(['demographics:delete']),
+  validationMiddleware(DemographicsExternalIdParamsSchema, 'params'),
+  ifMatchMiddleware(),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.resolveExternalId(req as AuthenticatedRequest, res, next),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.delete(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * POST /external/v1/demographics/:id/merge
+ */
+router.post('/:id/merge',
+  requireAuth(['demographics:write']),
+  ifMatchMiddleware(),
+  validationMiddleware(MergeDemographicsRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.merge(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * POST /external/v1/demographics/:id/restore
+ */
+router.post('/:id/restore',
+  requireAuth(['demographics:delete']),
+  ifMatchMiddleware(),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.restore(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PUT /external/v1/demographics/:id/legal-hold
+ */
+router.put('/:id/legal-hold',
+  requireAuth(['demographics:admin']),
+  validationMiddleware(PlaceDemographicsLegalHoldRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsRetentionController.placeLegalHold(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * DELETE /external/v1/demographics/:id/legal-hold
+ */
+router.delete('/:id/legal-hold',
+  requireAuth(['demographics:admin']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsRetentionController.releaseLegalHold(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/:id/tombstone
+ */
+router.get('/:id/tombstone',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsRetentionController.getTombstone(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/:id/history
+ */
+router.get('/:id/history',
+  requireAuth(['demographics:read']),
+  validationMiddleware(GetDemographicsHistoryQuerySchema, 'query'),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.history(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v1/demographics/:id
+ */
+router.get('/:id',
+  requireAuth(['demographics:read']),
+  validationMiddleware(GetDemographicByIdQuerySchema, 'query'),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.getById(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * PATCH /external/v1/demographics/:id
+ */
+router.patch('/:id',
+  requireAuth(['demographics:write']),
+  ifMatchMiddleware(),
+  validationMiddleware(PatchDemographicsRequestSchema),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.update(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * DELETE /external/v1/demographics/:id
+ */
+router.delete('/:id',
+  requireAuth(['demographics:delete']),
+  ifMatchMiddleware(),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsController.delete(req as AuthenticatedRequest, res, next)
+);
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  CreateDemographicsV2QuerySchema,
+  CreateDemographicsV2RequestSchema,
+  GetDemographicsQuerySchema,
+} from '@shared/types/demographics';
+import { AuthenticatedRequest } from '@shared/types/express-extensions';
+import { requireAuth } from '../middleware/security.middleware';
+import { demographicsRuleCheck, validationMiddleware } from '../middleware/validation.middleware';
+import { demographicsV2Controller } from '../controllers/demographics.v2.controller';
+
+const router = Router();
+
+/**
+ * POST /external/v2/demographics
+ */
+router.post('/',
+  requireAuth(['demographics:write']),
+  validationMiddleware(CreateDemographicsV2QuerySchema, 'query'),
+  validationMiddleware(CreateDemographicsV2RequestSchema, 'body', demographicsRuleCheck),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsV2Controller.create(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v2/demographics
+ */
+router.get('/',
+  requireAuth(['demographics:read']),
+  validationMiddleware(GetDemographicsQuerySchema, 'query'),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsV2Controller.list(req as AuthenticatedRequest, res, next)
+);
+
+/**
+ * GET /external/v2/demographics/:id
+ */
+router.get('/:id',
+  requireAuth(['demographics:read']),
+  (req: Request, res: Response, next: NextFunction) =>
+    demographicsV2Controller.getById(req as AuthenticatedRequest, res, next)
+);
+
+export default router;
@@ -0,0 +1,23 @@
+// Seals plaintext PII left by rows written before field-level encryption
+// (migration 009). Safe to re-run; rows already sealed are skipped.
+import { databaseService } from '../../../shared/database/database.service';
+import { closeDatabase } from '../../../shared/database/connection';
+import { logger } from '../../../shared/utils/logger';
+
+async function main(): Promise<void> {
+  let total = 0;
+  for (;;) {
+    const sealed = await databaseService.sealPlaintextPii();
+    if (sealed === 0) break;
+    total += sealed;
+  }
+
+  logger.info('Plaintext PII backfill complete', { rows: total });
+}
+
+main()
+  .catch(error => {
+    logger.error('Plaintext PII backfill failed', { error });
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -0,0 +1,149 @@
+import sql from 'mssql';
+import { v4 as uuidv4 } from 'uuid';
+import { addBulkRow, bulkTable, DemographicsColumn } from '../../../shared/database/demographics.columns';
+import { databaseService } from '../../../shared/database/database.service';
+import { Demographics } from '../../../shared/types/demographics';
+
+// No server: the transaction and bulk loads below are stubbed on the mssql prototypes
+jest.mock('../../../shared/database/connection', () => ({ getPool: jest.fn().mockResolvedValue({}) }));
+
+const LAW_FIRM = 'Bulk Firm';
+
+const COLUMNS: DemographicsColumn[] = [
+  { name: 'id', kind: 'uuid', sqlType: sql.UniqueIdentifier },
+  { name: 'lastname', kind: 'string', sqlType: sql.NVarChar(50) },
+  { name: 'dob', kind: 'date', sqlType: sql.Date },
+  { name: 'tags', kind: 'json', sqlType: sql.NVarChar(sql.MAX) },
+];
+
+// The promise forms of the mssql methods the batch insert calls
+interface TransactionCalls {
+  begin(): Promise<sql.Transaction>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+interface RequestCalls {
+  bulk(table: sql.Table, options: sql.IBulkOptions): Promise<sql.IBulkResult>;
+}
+
+interface BulkLoad {
+  name?: string;
+  columns: string[];
+  rows: unknown[][];
+}
+
+function records(count: number): Demographics[] {
+  const now = new Date().toISOString();
+
+  return Array.from({ length: count }, (_, index) => ({
+    id: uuidv4(),
+    partitionKey: LAW_FIRM,
+    law_firm: LAW_FIRM,
+    firstname: `First${index}`,
+    lastname: `Last${index}`,
+    phone: '5551234567',
+    primarylawfirm: LAW_FIRM,
+    ethnicity: 'Unknown',
+    attorney1name: 'Attorney One',
+    attorney1feepercent: 0.33,
+    created_at: now,
+    updated_at: now,
+    created_by: 'bulk-test',
+    status: 'active' as const,
+  }) as unknown as Demographics);
+}
+
+describe('Demographics bulk insert', () => {
+  describe('bulkTable', () => {
+    it('should declare every column, in order and nullable, for an existing table', () => {
+      const table = bulkTable('Demographics', COLUMNS);
+
+      expect(table.name).toBe('Demographics');
+      expect(table.create).toBe(false);
+      expect(table.columns.map(column => column.name)).toEqual(['id', 'lastname', 'dob', 'tags']);
+      expect(table.columns.every(column => column.nullable)).toBe(true);
+    });
+
+    it('should give each table its own column, not the shared column type', () => {
+      const first = bulkTable('First', COLUMNS);
+      const second = bulkTable('Second', COLUMNS);
+
+      expect(first.columns[1]).not.toBe(second.columns[1]);
+      expect(first.columns[1]).not.toBe(COLUMNS[1].sqlType);
+      expect(first.columns[1]).toMatchObject({ name: 'lastname', length: 50 });
+    });
+  });
+
+  describe('addBulkRow', () => {
+    it('should add the values in column order, converted for SQL', () => {
+      const table = bulkTable('Demographics', COLUMNS);
+
+      addBulkRow(table, COLUMNS, { tags: ['a'], lastname: 'Doe', id: 'abc', dob: '1980-02-03' });
+      addBulkRow(table, COLUMNS, { id: 'def' });
+
+      expect(table.rows).toEqual([
+        ['abc', 'Doe', new Date('1980-02-03'), '["a"]'],
+        ['def', null, null, null],
+      ]);
+    });
+  });
+
+  describe('createDemographicsBatch', () => {
+    let loads: BulkLoad[];
+    let commit: jest.SpyInstance;
+    let rollback: jest.SpyInstance;
+    let bulk: jest.SpyInstance;
+
+    beforeEach(() => {
+      loads = [];
+      jest.spyOn<TransactionCalls, 'begin'>(sql.Transaction.prototype, 'begin').mockResolvedValue({} as sql.Transaction);
+      commit = jest.spyOn<TransactionCalls, 'commit'>(sql.Transaction.prototype, 'commit').mockResolvedValue();
+      rollback = jest.spyOn<TransactionCalls, 'rollback'>(sql.Transaction.prototype, 'rollback').mockResolvedValue();
+      bulk = jest.spyOn<RequestCalls, 'bulk'>(sql.Request.prototype, 'bulk').mockImplementation(async table => {
+        loads.push({ name: table.name, columns: table.columns.map(column => column.name), rows: table.rows });
+        return { rowsAffected: table.rows.length };
+      });
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should load each table once, parents first, in one transaction', async () => {
+      const batch = records(3);
+
+      await databaseService.createDemographicsBatch(batch);
+
+      expect(loads.map(load => load.name)).toEqual([
+        'Demographics',
+        'DemographicsAttorneys',
+        'DemographicsNameKeys',
+        'DemographicsHistory',
+      ]);
+      expect(commit).toHaveBeenCalledTimes(1);
+      expect(rollback).not.toHaveBeenCalled();
+
+      const [demographics, attorneys, , history] = loads;
+      expect(demographics.rows).toHaveLength(3);
+      expect(attorneys.rows).toHaveLength(3);
+      expect(history.rows).toHaveLength(3);
+
+      const row = (load: BulkLoad, index: number, column: string) => load.rows[index][load.columns.indexOf(column)];
+      batch.forEach((record, index) => {
+        expect(row(demographics, index, 'id')).toBe(record.id);
+        expect(row(demographics, index, 'lastname')).toBe(record.lastname);
+        expect(row(attorneys, index, 'demographic_id')).toBe(record.id);
+        expect(row(history, index, 'demographic_id')).toBe(record.id);
+        expect(row(history, index, 'action')).toBe('create');
+      });
+    });
+
+    it('should roll back and rethrow when a bulk load fails', async () => {
+      bulk.mockRejectedValueOnce(new Error('Violation of PRIMARY KEY constraint'));
+
+      await expect(databaseService.createDemographicsBatch(records(2))).rejects.toThrow('Violation of PRIMARY KEY');
+
+      expect(rollback).toHaveBeenCalledTimes(1);
+      expect(commit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { v4 as uuidv4 } from 'uuid';
+import { databaseService } from '../../../shared/database/database.service';
+import { AuditContext, Demographics } from '../../../shared/types/demographics';
+import { demographicsController } from '../../src/controllers/demographics.controller';
+
+jest.mock('@shared/database/database.service', () => ({
+  databaseService: { createDemographicsBatch: jest.fn(), createDemographic: jest.fn() },
+}));
+jest.mock('@shared/services/fifoQueue.service', () => ({ fifoQueueService: {} }));
+jest.mock('@shared/services/demographicsBatch.service', () => ({ demographicsBatchService: {} }));
+jest.mock('@shared/services/demographicsRetention.service', () => ({ demographicsRetentionService: {} }));
+
+const AUDIT: AuditContext = { keyId: 'k1', requestId: 'req-1' };
+
+function records(count: number): Demographics[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: uuidv4(),
+    lastname: `Last${index}`,
+  }) as unknown as Demographics);
+}
+
+describe('DemographicsController batch record creation', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should create the records in one bulk insert when it succeeds', async () => {
+    const batch = records(3);
+    jest.mocked(databaseService.createDemographicsBatch).mockResolvedValue(undefined);
+
+    const failures = await demographicsController['createBatchRecords'](batch, AUDIT);
+
+    expect(failures.size).toBe(0);
+    expect(databaseService.createDemographicsBatch).toHaveBeenCalledWith(batch, AUDIT);
+    expect(databaseService.createDemographic).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to one insert per record when the bulk insert fails', async () => {
+    const batch = records(3);
+    jest.mocked(databaseService.createDemographicsBatch).mockRejectedValue(new Error('Bulk load failed'));
+    jest.mocked(databaseService.createDemographic).mockImplementation(async record => {
+      if (record.id === batch[1].id) throw new Error('Demographic already exists');
+    });
+
+    const failures = await demographicsController['createBatchRecords'](batch, AUDIT);
+
+    expect(databaseService.createDemographic).toHaveBeenCalledTimes(3);
+    for (const record of batch) {
+      expect(databaseService.createDemographic).toHaveBeenCalledWith(record, AUDIT);
+    }
+    expect(failures).toEqual(new Map([[batch[1].id, 'Demographic already exists']]));
+  });
+});
@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { DemographicsExport } from '../../../shared/types/demographics';
+import { AuthenticatedRequest } from '../../../shared/types/express-extensions';
+import { demographicsExportService } from '../../../shared/services/demographicsExport.service';
+import { demographicsExportController } from '../../src/controllers/demographicsExport.controller';
+
+jest.mock('@shared/services/demographicsExport.service', () => ({
+  demographicsExportService: { get: jest.fn(), download: jest.fn() },
+}));
+jest.mock('../../src/controllers/demographics.controller', () => ({ rejectUnqueryable: jest.fn() }));
+
+const DOWNLOAD_URL = 'https://acct.blob.core.windows.net/demographics-documents/exports/e1.csv?sig=abc';
+
+interface CapturedResponse {
+  status: number;
+  body: { success: boolean; code?: string; data?: Record<string, unknown> };
+}
+
+function completedExport(pii: boolean): DemographicsExport {
+  return {
+    id: 'e1',
+    law_firm: 'Test Firm',
+    format: 'csv',
+    fields: ['firstname', 'ssn'],
+    filters: {},
+    sort: [],
+    status: 'completed',
+    pii,
+    row_count: 1,
+    blob_name: 'exports/e1.csv',
+    created_by: 'user-1',
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    completed_at: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+async function getById(job: DemographicsExport, scopes: string[]): Promise<CapturedResponse> {
+  jest.mocked(demographicsExportService.get).mockResolvedValue(job);
+  jest.mocked(demographicsExportService.download).mockResolvedValue({
+    download_url: DOWNLOAD_URL,
+    expires_at: '2026-01-01T01:00:00.000Z',
+  });
+
+  const captured = {} as CapturedResponse;
+  const res = {
+    status(code: number) { captured.status = code; return this; },
+    json(body: CapturedResponse['body']) { captured.body = body; return this; },
+  } as unknown as Response;
+  const req = {
+    params: { id: job.id },
+    requestId: 'req-1',
+    auth: { lawFirm: job.law_firm, keyId: 'k1', scopes, apiKey: {} },
+  } as unknown as AuthenticatedRequest;
+
+  await demographicsExportController.getById(req, res, error => { throw error; });
+  return captured;
+}
+
+describe('DemographicsExportController.getById', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should refuse an unmasked export to a key without the PII scope', async () => {
+    const result = await getById(completedExport(true), ['demographics:read']);
+
+    expect(result.status).toBe(403);
+    expect(result.body.code).toBe('INSUFFICIENT_SCOPE');
+    expect(result.body.data).toBeUndefined();
+    expect(demographicsExportService.download).not.toHaveBeenCalled();
+  });
+
+  it('should return the download URL of an unmasked export to a key with the PII scope', async () => {
+    const result = await getById(completedExport(true), ['demographics:read', 'demographics:pii']);
+
+    expect(result.status).toBe(200);
+    expect(result.body.data?.download_url).toBe(DOWNLOAD_URL);
+  });
+
+  it('should return the download URL of a masked export to any key', async () => {
+    const result = await getById(completedExport(false), ['demographics:read']);
+
+    expect(result.status).toBe(200);
+    expect(result.body.data?.download_url).toBe(DOWNLOAD_URL);
+  });
+});
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { REDACTED, redactSensitive, redactString } from '../../../shared/utils/logger.redaction';
+
+// 4111 1111 1111 1111 passes the Luhn check
+const CARD = '4111 1111 1111 1111';
+const SSN = '123-45-6789';
+const SAS_URL = 'https://acct.blob.core.windows.net/docs/a.pdf?sv=2022-11-02&sp=cw&sig=c2VjcmV0U2lnbmF0dXJl%3D';
+
+interface RedactedRequestLog {
+  requestId: string;
+  demographic: Record<string, string>;
+  headers: Record<string, string>;
+  apiKeys: Record<string, string>[];
+  alternateclaimantssn: string;
+}
+
+interface RedactedErrorLog {
+  error: { message: string; stack: string };
+}
+
+describe('Logger redaction', () => {
+  describe('redactSensitive', () => {
+    it('should replace sensitive keys at any depth', () => {
+      const result = redactSensitive({
+        requestId: 'req-1',
+        demographic: { firstname: 'Jane', ssn: '123456789', dob: '1980-02-03', email: 'jane@example.com' },
+        headers: { 'X-API-Key': 'pk_live_abc', authorization: 'Bearer abc' },
+        apiKeys: [{ key_id: 'k1', key_hash: '$2b$10$hash' }],
+        alternateclaimantssn: '987654321',
+      }) as RedactedRequestLog;
+
+      expect(result.requestId).toBe('req-1');
+      expect(result.demographic).toEqual({ firstname: 'Jane', ssn: REDACTED, dob: REDACTED, email: REDACTED });
+      expect(result.headers).toEqual({ 'X-API-Key': REDACTED, authorization: REDACTED });
+      expect(result.apiKeys).toEqual([{ key_id: 'k1', key_hash: REDACTED }]);
+      expect(result.alternateclaimantssn).toBe(REDACTED);
+    });
+
+    it('should keep null and missing values of sensitive keys', () => {
+      expect(redactSensitive({ ssn: null, phone: undefined })).toEqual({ ssn: null, phone: undefined });
+    });
+
+    it('should not modify the logged object', () => {
+      const demographic = { ssn: SSN, notes: `ssn ${SSN}` };
+      redactSensitive({ demographic });
+      expect(demographic).toEqual({ ssn: SSN, notes: `ssn ${SSN}` });
+    });
+
+    it('should scrub errors, including their message and stack', () => {
+      const result = redactSensitive({ error: new Error(`Duplicate SSN ${SSN}`) }) as RedactedErrorLog;
+
+      expect(result.error.message).toBe(`Duplicate SSN ${REDACTED}`);
+      expect(result.error.stack).not.toContain(SSN);
+    });
+
+    it('should handle circular references', () => {
+      const request: Record<string, unknown> = { email: 'jane@example.com' };
+      request.self = request;
+
+      expect(redactSensitive(request)).toEqual({ email: REDACTED, self: '[Circular]' });
+    });
+
+    it('should use the keys it is given', () => {
+      expect(redactSensitive({ ssn: SSN, nickname: 'JJ' }, ['nickname'])).toEqual({ ssn: REDACTED, nickname: REDACTED });
+    });
+  });
+
+  describe('redactString', () => {
+    it('should scrub SSN-shaped values', () => {
+      expect(redactString(`claimant ${SSN} and 123 45 6789`)).toBe(`claimant ${REDACTED} and ${REDACTED}`);
+    });
+
+    it('should scrub card numbers that pass the Luhn check only', () => {
+      expect(redactString(`card ${CARD}`)).toBe(`card ${REDACTED}`);
+      expect(redactString('card 4111-1111-1111-1111')).toBe(`card ${REDACTED}`);
+      expect(redactString('timestamp 1700000000001')).toBe('timestamp 1700000000001');
+    });
+
+    it('should scrub the signature of SAS URLs', () => {
+      const result = redactString(SAS_URL);
+
+      expect(result).toContain('sv=2022-11-02&sp=cw');
+      expect(result).toContain(`sig=${REDACTED}`);
+      expect(result).not.toContain('c2VjcmV0U2lnbmF0dXJl');
+    });
+  });
+
+  describe('file transports', () => {
+    const env = { ...process.env };
+    let logDir: string;
+
+    beforeAll(() => {
+      logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'logger-redaction-'));
+      process.env.NODE_ENV = 'production';
+      process.env.LOG_DIR = logDir;
+      process.env.LOG_REDACT_KEYS = 'nickname';
+    });
+
+    afterAll(() => {
+      process.env = env;
+      fs.rmSync(logDir, { recursive: true, force: true });
+    });
+
+    it('should write nothing sensitive to the log files', async () => {
+      let logger!: typeof import('../../../shared/utils/logger').logger;
+      jest.isolateModules(() => {
+        logger = require('../../../shared/utils/logger').logger;
+      });
+
+      logger.error('Error generating SAS URL', {
+        error: new Error(`Upload failed for ${SSN}`),
+        request: { lawFirm: 'firm-1', email: 'jane@example.com', 'x-api-key': 'pk_live_abc' },
+      });
+      logger.error('Batch item processing failed', {
+        error: { message: 'Invalid record' },
+        demographic: { ssn: '123456789', dob: '1980-02-03', phone: '5551234567', nickname: 'JJ' },
+      });
+      logger.info('SAS URL generated for document upload', { uploadUrl: SAS_URL, note: `paid with ${CARD}` });
+      await logger.close();
+
+      const combined = fs.readFileSync(path.join(logDir, 'combined.log'), 'utf8');
+      const errors = fs.readFileSync(path.join(logDir, 'error.log'), 'utf8');
+
+      expect(combined).toContain('SAS URL generated for document upload');
+      expect(errors).toContain('Batch item processing failed');
+      for (const content of [combined, errors]) {
+        for (const secret of [SSN, '123456789', '1980-02-03', 'jane@example.com', 'pk_live_abc', '5551234567', 'JJ', 'c2VjcmV0U2lnbmF0dXJl', CARD]) {
+          expect(content).not.toContain(secret);
+        }
+      }
+    });
+  });
+});
@@ -9,6 +9,8 @@ export async function processGuardianships(message: unknown, context: Invocation
             type: string;
             data?: Guardianship;
             ClaimantGUID?: string;
+            ClaimantGUIDs?: string[];
+            merged_into?: string;
             documents?: any[];
             timestamp: string;
         };
@@ -26,6 +28,11 @@ export async function processGuardianships(message: unknown, context: Invocation
                 await deleteGuardianshipRecord(messageBody.ClaimantGUID!, context);
                 break;
                 
+            case 'claimant_merged':
+                context.log(`Re-pointing guardianships to merged ClaimantGUID: ${messageBody.merged_into}`);
+                await repointGuardianships(messageBody.ClaimantGUIDs!, messageBody.merged_into!, context);
+                break;
+                
             case 'document_upload':
                 context.log(`Processing documents for ClaimantGUID: ${messageBody.ClaimantGUID}`);
                 await processDocuments(messageBody.ClaimantGUID!, messageBody.documents!, context);
@@ -76,6 +83,18 @@ async function deleteGuardianshipRecord(ClaimantGUID: string, context: Invocatio
     }
 }
 
+// Claimant records merged in the demographics API: the duplicates' guardianships
+// and documents now belong to the surviving ClaimantGUID. Until the guardianship
+// tables are written here the message is failed, not completed, so Service Bus
+// dead-letters it and it can be replayed once the updates below are in place.
+async function repointGuardianships(ClaimantGUIDs: string[], mergedInto: string, context: InvocationContext): Promise<void> {
+    // for (const ClaimantGUID of ClaimantGUIDs) {
+    //     await db.query(`UPDATE guardianship SET ClaimantGUID=? WHERE ClaimantGUID=?`, [mergedInto, ClaimantGUID]);
+    //     await db.query(`UPDATE guardianship_documents SET ClaimantGUID=? WHERE ClaimantGUID=?`, [mergedInto, ClaimantGUID]);
+    // }
+    throw new Error(`Re-pointing guardianships is not implemented: ${ClaimantGUIDs.join(', ')} merged into ${mergedInto}`);
+}
+
 async function processDocuments(ClaimantGUID: string, documents: any[], context: InvocationContext): Promise<void> {
     try {
         for (const doc of documents) {
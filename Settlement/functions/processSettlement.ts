@@ -9,6 +9,8 @@ export async function processSettlements(message: unknown, context: InvocationCo
             type: string;
             data: Settlement | Settlement[];
             batch_id?: string;
+            ClaimantGUIDs?: string[];
+            merged_into?: string;
             timestamp: string;
         };
 
@@ -24,6 +26,9 @@ export async function processSettlements(message: unknown, context: InvocationCo
             const settlement = messageBody.data as Settlement;
             context.log(`Processing single settlement: ${settlement.ClaimantGUID}`);
             await processSettlement(settlement, context);
+        } else if (messageBody.type === 'claimant_merged') {
+            context.log(`Re-pointing settlements to merged ClaimantGUID: ${messageBody.merged_into}`);
+            await repointSettlements(messageBody.ClaimantGUIDs!, messageBody.merged_into!, context);
         }
 
         context.log('Settlement processing completed successfully');
@@ -88,6 +93,19 @@ async function processSettlement(settlement: Settlement, context: InvocationCont
     }
 }
 
+// Claimant records merged in the demographics API: the duplicates' settlements
+// now belong to the surviving ClaimantGUID. Until the settlement tables are
+// written here the message is failed, not completed, so Service Bus dead-letters
+// it and it can be replayed once the updates below are in place.
+async function repointSettlements(ClaimantGUIDs: string[], mergedInto: string, context: InvocationContext): Promise<void> {
+    // for (const ClaimantGUID of ClaimantGUIDs) {
+    //     for (const table of ['settlements', 'attorney_fees', 'attorney_costs', 'vendor_fees', 'vendor_costs']) {
+    //         await db.query(`UPDATE ${table} SET ClaimantGUID=? WHERE ClaimantGUID=?`, [mergedInto, ClaimantGUID]);
+    //     }
+    // }
+    throw new Error(`Re-pointing settlements is not implemented: ${ClaimantGUIDs.join(', ')} merged into ${mergedInto}`);
+}
+
 app.serviceBusQueue('processSettlements', {
     connection: 'SERVICE_BUS_CONNECTION_STRING',
     queueName: 'settlement_processing_fifo',
@@ -1,14 +1,73 @@
 // src/shared/database/mockDatabase.service.ts
-import { Demographics } from '../types/demographics';
+import {
+  AuditContext,
+  DEFAULT_DEMOGRAPHICS_SORT,
+  DEMOGRAPHICS_EXTERNAL_ID_FIELDS,
+  Demographics,
+  DemographicsBatch,
+  DemographicsBatchItemStatus,
+  DemographicsBulkUpdateResult,
+  DemographicsChanges,
+  DemographicsCore,
+  DemographicsDuplicateMatch,
+  DemographicsExport,
+  DemographicsExternalId,
+  DemographicsExternalIdConflict,
+  DemographicsFieldChange,
+  DemographicsFilters,
+  DemographicsHistoryAction,
+  DemographicsHistoryEntry,
+  DemographicsImport,
+  DemographicsImportError,
+  DemographicsLegalHold,
+  DemographicsMergeResult,
+  DemographicsPage,
+  DemographicsPageRequest,
+  DemographicsReadOptions,
+  DemographicsRetentionSetting,
+  DemographicsSort,
+  DemographicsTombstone,
+  DemographicsUpsertResult,
+  DemographicsV2,
+  ExpectedVersion,
+  RuleSeverity,
+  Scored,
+  TERMINAL_BATCH_ITEM_STATUSES,
+  Versioned,
+  VersionedWriteResult,
+} from '../types/demographics';
 import { ApiKey } from '../types/apiKey';
 import { logger } from '../utils/logger';
 import { IDatabaseService} from '../database/database.interface';
+import {
+  mergeFlatCollectionChanges,
+  normalizeCollections,
+  toDemographicsV1,
+  toDemographicsV2,
+} from '../utils/demographics.mapper';
+import { diffDemographics, statusBeforeDelete, toHistorySnapshot } from '../utils/demographics.history';
+import { toDemographicsPage } from '../utils/cursor';
+import { compareDemographics, matchesDemographicsFilters, sortValues } from '../utils/demographics.filters';
+import { nameKeys, rankByRelevance, searchKeys } from '../utils/demographics.search';
+import { findDuplicates, mergeDuplicateRecords } from '../utils/demographics.matching';
+import { fieldEncryptionService } from '../services/fieldEncryption.service';
 
 
 export class MockDatabaseService implements IDatabaseService {
-  private demographics: Map<string, Demographics> = new Map();
+  private demographics: Map<string, Versioned<DemographicsV2>> = new Map();
   private apiKeys: Map<string, ApiKey> = new Map();
+  private ruleSeverities: Map<string, Record<string, RuleSeverity>> = new Map();
+  private imports: Map<string, DemographicsImport> = new Map();
+  private importErrors: Map<string, DemographicsImportError[]> = new Map();
+  private importAliases: Map<string, Record<string, string>> = new Map();
+  private exports: Map<string, DemographicsExport> = new Map();
+  private batchJobs: Map<string, DemographicsBatch> = new Map();
+  private history: Map<string, (DemographicsHistoryEntry & { snapshot: DemographicsV2 })[]> = new Map();
+  private retentionSettings: Map<string, DemographicsRetentionSetting> = new Map();
+  private legalHolds: Map<string, DemographicsLegalHold> = new Map();
+  private tombstones: Map<string, DemographicsTombstone> = new Map();
   private connected = false;
+  private rowVersion = 0;
 
   constructor() {
     // Simulate connection
@@ -26,23 +85,42 @@ export class MockDatabaseService implements IDatabaseService {
   }
 
   // Demographics operations
-  async createDemographic(demographic: Demographics): Promise<void> {
+  async createDemographic(demographic: Demographics, audit?: AuditContext): Promise<void> {
+    await this.createDemographicRecord(toDemographicsV2(demographic), audit);
+  }
+
+  async createDemographicRecord(record: DemographicsV2, audit?: AuditContext): Promise<void> {
     await this.simulateDelay(50); // Simulate database latency
     
-    if (this.demographics.has(demographic.id)) {
+    if (this.demographics.has(record.id)) {
       throw new Error('Demographic already exists');
     }
     
-    this.demographics.set(demographic.id, { ...demographic });
+    const created = normalizeCollections(record);
+    this.demographics.set(record.id, { ...created, row_version: this.nextRowVersion() });
+    this.recordHistory(created, 'create', null, audit);
     
     logger.info('Mock: Demographics created', {
-      id: demographic.id,
-      lawFirm: demographic.law_firm,
+      id: record.id,
+      lawFirm: record.law_firm,
       totalRecords: this.demographics.size
     });
   }
 
-  async getDemographicById(id: string, lawFirm: string): Promise<Demographics | null> {
+  async getDemographicById(
+    id: string,
+    lawFirm: string,
+    options?: DemographicsReadOptions
+  ): Promise<Versioned<Demographics> | null> {
+    const record = await this.getDemographicRecordById(id, lawFirm, options);
+    return record ? this.toVersionedV1(record) : null;
+  }
+
+  async getDemographicRecordById(
+    id: string,
+    lawFirm: string,
+    options?: DemographicsReadOptions
+  ): Promise<Versioned<DemographicsV2> | null> {
     await this.simulateDelay(25);
     
     const demographic = this.demographics.get(id);
@@ -50,70 +128,383 @@ export class MockDatabaseService implements IDatabaseService {
       return null;
     }
     
-    return { ...demographic };
+    return this.forRead(demographic, options);
   }
 
-  async getDemographicsByLawFirm(
+  async getDemographicAsOf(
+    id: string,
+    lawFirm: string,
+    asOf: string,
+    options?: DemographicsReadOptions
+  ): Promise<Demographics | null> {
+    const record = await this.getDemographicRecordAsOf(id, lawFirm, asOf, options);
+    return record ? toDemographicsV1(record) : null;
+  }
+
+  async getDemographicRecordAsOf(
+    id: string,
+    lawFirm: string,
+    asOf: string,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsV2 | null> {
+    await this.simulateDelay(25);
+
+    const asOfTime = new Date(asOf).getTime();
+    const entry = (this.history.get(id) || [])
+      .filter(item => item.snapshot.partitionKey === lawFirm && new Date(item.changed_at).getTime() <= asOfTime)
+      .pop();
+
+    return entry ? this.forRead(entry.snapshot, options) : null;
+  }
+
+  async getDemographicHistory(
+    id: string,
     lawFirm: string,
     limit: number = 50,
-    offset: number = 0,
-    filters?: any
-  ): Promise<Demographics[]> {
+    offset: number = 0
+  ): Promise<DemographicsHistoryEntry[]> {
+    await this.simulateDelay(25);
+
+    return (this.history.get(id) || [])
+      .filter(item => item.snapshot.partitionKey === lawFirm)
+      .reverse()
+      .slice(offset, offset + limit)
+      .map(({ snapshot: _snapshot, ...entry }) => structuredClone(entry));
+  }
+
+  async getDemographicsByLawFirm(
+    lawFirm: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Versioned<Demographics>>> {
+    const result = await this.getDemographicRecordsByLawFirm(lawFirm, page, filters, options);
+    return { ...result, records: result.records.map(record => this.toVersionedV1(record)) };
+  }
+
+  async getDemographicRecordsByLawFirm(
+    lawFirm: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Versioned<DemographicsV2>>> {
     await this.simulateDelay(75);
     
+    const sort = page.sort ?? DEFAULT_DEMOGRAPHICS_SORT;
+    const compare = compareDemographics(sort);
+
     let results = Array.from(this.demographics.values())
-      .filter(d => d.partitionKey === lawFirm);
+      .filter(d => d.partitionKey === lawFirm && matchesDemographicsFilters(d, filters))
+      .map(record => ({ record, values: sortValues(record, sort), id: record.id }));
 
-    // Apply filters
-    if (filters?.claimanttype) {
-      results = results.filter(d => d.claimanttype === filters.claimanttype);
-    }
-    
-    if (filters?.search) {
-      const search = filters.search.toLowerCase();
-      results = results.filter(d => 
-        d.firstname?.toLowerCase().includes(search) ||
-        d.lastname?.toLowerCase().includes(search) ||
-        d.email?.toLowerCase().includes(search)
-      );
+    results.sort(compare);
+
+    const cursor = page.cursor;
+    if (cursor) {
+      results = results.filter(entry => compare(entry, cursor) > 0);
     }
 
     // Apply pagination
-    return results
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .slice(offset, offset + limit);
+    const start = cursor ? 0 : page.offset ?? 0;
+    const records = results
+      .slice(start, start + page.limit)
+      .map(entry => this.forRead(entry.record, options));
+
+    return toDemographicsPage(records, results.length > start + page.limit, sort);
   }
 
-  async updateDemographic(id: string, demographic: Partial<Demographics>): Promise<void> {
+  async *streamDemographicsByLawFirm(
+    lawFirm: string,
+    filters?: DemographicsFilters,
+    sort: DemographicsSort[] = DEFAULT_DEMOGRAPHICS_SORT,
+    options?: DemographicsReadOptions
+  ): AsyncIterable<Versioned<Demographics>[]> {
+    const compare = compareDemographics(sort);
+    const results = Array.from(this.demographics.values())
+      .filter(d => d.partitionKey === lawFirm && matchesDemographicsFilters(d, filters))
+      .map(record => ({ record, values: sortValues(record, sort), id: record.id }))
+      .sort(compare);
+
+    for (let start = 0; start < results.length; start += 500) {
+      await this.simulateDelay(10);
+      yield results
+        .slice(start, start + 500)
+        .map(entry => this.toVersionedV1(this.forRead(entry.record, options)));
+    }
+  }
+
+  async searchDemographicsByName(
+    lawFirm: string,
+    search: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Scored<Versioned<Demographics>>>> {
+    const result = await this.searchDemographicRecordsByName(lawFirm, search, page, filters, options);
+    return {
+      ...result,
+      records: result.records.map(record => ({ ...this.toVersionedV1(record), relevance: record.relevance })),
+    };
+  }
+
+  async searchDemographicRecordsByName(
+    lawFirm: string,
+    search: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Scored<Versioned<DemographicsV2>>>> {
+    await this.simulateDelay(75);
+
+    // Keys are derived on the fly here; the SQL service stores them on write
+    const keys = new Set(searchKeys(search));
+    const candidates = Array.from(this.demographics.values())
+      .filter(d => d.partitionKey === lawFirm && matchesDemographicsFilters(d, filters))
+      .filter(d => nameKeys(d).some(({ key }) => keys.has(key)));
+
+    const start = page.offset ?? 0;
+    const ranked = rankByRelevance(candidates, search);
+    const records = ranked
+      .slice(start, start + page.limit)
+      .map(record => this.forRead(record, options));
+
+    return { records, has_more: ranked.length > start + page.limit };
+  }
+
+  async updateDemographic(
+    id: string,
+    lawFirm: string,
+    changes: DemographicsChanges,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<Demographics>>> {
     await this.simulateDelay(50);
     
-    const existing = this.demographics.get(id);
-    if (!existing) {
-      throw new Error('Demographic not found');
+    const existing = this.findForWrite(id, lawFirm, expectedVersion);
+    if (existing.status !== 'ok') {
+      return existing;
     }
     
     const updated = {
-      ...existing,
-      ...demographic,
-      updated_at: new Date().toISOString()
+      ...mergeFlatCollectionChanges(existing.record, changes),
+      updated_at: new Date().toISOString(),
+      row_version: this.nextRowVersion()
     };
     
-    this.demographics.set(id, updated);
+    this.demographics.set(id, { ...normalizeCollections(updated), row_version: updated.row_version });
+    this.recordHistory(normalizeCollections(updated), 'update', existing.record, audit);
     logger.info('Mock: Demographics updated', { id });
+
+    return { status: 'ok', record: this.toVersionedV1(this.forRead(updated)) };
+  }
+
+  async updateDemographicsBatch(
+    lawFirm: string,
+    updates: { id: string; changes: DemographicsChanges }[],
+    audit?: AuditContext
+  ): Promise<DemographicsBulkUpdateResult<Versioned<Demographics>>> {
+    await this.simulateDelay(50 + updates.length);
+
+    // Checked up front so a missing record leaves nothing changed, as the SQL transaction does
+    for (const [index, { id }] of updates.entries()) {
+      if (this.findForWrite(id, lawFirm).status !== 'ok') return { status: 'not_found', index };
+    }
+
+    const records = updates.map(({ id, changes }) => {
+      const before = this.demographics.get(id)!;
+      const updated = {
+        ...mergeFlatCollectionChanges(before, changes),
+        updated_at: new Date().toISOString(),
+        row_version: this.nextRowVersion()
+      };
+      this.demographics.set(id, { ...normalizeCollections(updated), row_version: updated.row_version });
+      this.recordHistory(normalizeCollections(updated), 'update', before, audit);
+      return this.toVersionedV1(this.forRead(updated));
+    });
+
+    logger.info('Mock: Demographics batch updated', { count: updates.length });
+
+    return { status: 'ok', records };
   }
 
-  async softDeleteDemographic(id: string, lawFirm: string): Promise<void> {
+  async upsertDemographicByClientId(
+    record: Demographics,
+    changes: DemographicsChanges,
+    audit?: AuditContext
+  ): Promise<DemographicsUpsertResult<Versioned<Demographics>>> {
+    await this.simulateDelay(50);
+
+    // Looked up and written without yielding, so concurrent upserts cannot both create
+    const existing = [...this.demographics.values()].find(stored =>
+      stored.partitionKey === record.partitionKey &&
+      stored.status !== 'deleted' &&
+      stored.law_firm_client_id?.toLowerCase() === record.law_firm_client_id?.toLowerCase()
+    );
+
+    if (!existing) {
+      const created = normalizeCollections(toDemographicsV2(record));
+      const row_version = this.nextRowVersion();
+      this.demographics.set(created.id, { ...created, row_version });
+      this.recordHistory(created, 'create', null, audit);
+      logger.info('Mock: Demographics upserted', { id: created.id, status: 'created' });
+
+      return { status: 'created', record: this.toVersionedV1(this.forRead({ ...created, row_version })) };
+    }
+
+    const updated = {
+      ...mergeFlatCollectionChanges(existing, changes),
+      updated_at: new Date().toISOString(),
+      row_version: this.nextRowVersion()
+    };
+    this.demographics.set(existing.id, { ...normalizeCollections(updated), row_version: updated.row_version });
+    this.recordHistory(normalizeCollections(updated), 'update', existing, audit);
+    logger.info('Mock: Demographics upserted', { id: existing.id, status: 'updated' });
+
+    return { status: 'updated', record: this.toVersionedV1(this.forRead(updated)) };
+  }
+
+  async softDeleteDemographic(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<{ row_version: string; deleted_at: string }>> {
     await this.simulateDelay(25);
     
-    const demographic = this.demographics.get(id);
-    if (!demographic || demographic.partitionKey !== lawFirm) {
-      throw new Error('Demographic not found');
+    const existing = this.findForWrite(id, lawFirm, expectedVersion);
+    if (existing.status !== 'ok') {
+      return existing;
     }
     
+    const demographic = existing.record;
+    const before = structuredClone(demographic);
     demographic.status = 'deleted';
-    demographic.updated_at = new Date().toISOString();
+    demographic.deleted_at = demographic.updated_at = new Date().toISOString();
+    demographic.row_version = this.nextRowVersion();
+    this.recordHistory(demographic, 'delete', before, audit);
     
     logger.info('Mock: Demographics soft deleted', { id });
+
+    return { status: 'ok', record: { row_version: demographic.row_version, deleted_at: demographic.deleted_at } };
+  }
+
+  async restoreDemographic(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<Demographics>>> {
+    await this.simulateDelay(25);
+
+    const demographic = this.demographics.get(id);
+    if (!demographic || demographic.partitionKey !== lawFirm || demographic.status !== 'deleted') {
+      return { status: 'not_found' };
+    }
+
+    if (expectedVersion && expectedVersion !== '*' &&
+        !expectedVersion.some(version => version.toUpperCase() === demographic.row_version)) {
+      return { status: 'version_mismatch', current_version: demographic.row_version };
+    }
+
+    const deletion = (this.history.get(id) || []).filter(entry => entry.action === 'delete').pop();
+    const before = structuredClone(demographic);
+    demographic.status = statusBeforeDelete(deletion?.changes);
+    delete demographic.deleted_at;
+    demographic.updated_at = new Date().toISOString();
+    demographic.row_version = this.nextRowVersion();
+    this.recordHistory(demographic, 'restore', before, audit);
+
+    logger.info('Mock: Demographics restored', { id });
+
+    return { status: 'ok', record: this.toVersionedV1(this.forRead(demographic)) };
+  }
+
+  async findDuplicateDemographics(
+    lawFirm: string,
+    candidate: Partial<DemographicsCore>
+  ): Promise<DemographicsDuplicateMatch[]> {
+    await this.simulateDelay(25);
+
+    const existing = Array.from(this.demographics.values()).filter(d => d.partitionKey === lawFirm);
+    return findDuplicates(candidate, existing);
+  }
+
+  async findDuplicateDemographicsBatch(
+    lawFirm: string,
+    candidates: Partial<DemographicsCore>[]
+  ): Promise<DemographicsDuplicateMatch[][]> {
+    await this.simulateDelay(25);
+
+    const existing = Array.from(this.demographics.values()).filter(d => d.partitionKey === lawFirm);
+    return candidates.map(candidate => findDuplicates(candidate, existing));
+  }
+
+  async findDemographicsByExternalIds(
+    lawFirm: string,
+    ids: DemographicsExternalId[]
+  ): Promise<DemographicsExternalIdConflict[]> {
+    await this.simulateDelay(25);
+
+    const holders: DemographicsExternalIdConflict[] = [];
+    for (const record of this.demographics.values()) {
+      if (record.partitionKey !== lawFirm || record.status === 'deleted') continue;
+
+      for (const field of DEMOGRAPHICS_EXTERNAL_ID_FIELDS) {
+        const value = record[field];
+        // Case-insensitive, as the SQL collation compares them
+        if (value && ids.some(id => id.field === field && id.value.toLowerCase() === value.toLowerCase())) {
+          holders.push({ field, value, id: record.id });
+        }
+      }
+    }
+    return holders;
+  }
+
+  async mergeDemographics(
+    id: string,
+    sourceIds: string[],
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<DemographicsMergeResult<Versioned<Demographics>>> {
+    await this.simulateDelay(50);
+
+    const existing = this.findForWrite(id, lawFirm, expectedVersion);
+    if (existing.status !== 'ok') {
+      return existing;
+    }
+
+    const sources = sourceIds.map(sourceId => this.findForWrite(sourceId, lawFirm));
+    const missing = sourceIds.filter((sourceId, index) => sources[index].status !== 'ok' || sourceId === id);
+    if (missing.length > 0) {
+      return { status: 'source_not_found', source_ids: missing };
+    }
+
+    const updatedAt = new Date().toISOString();
+    const records = sources.map(source => (source as { record: Versioned<DemographicsV2> }).record);
+    const merged = {
+      ...mergeDuplicateRecords(existing.record, records),
+      updated_at: updatedAt,
+      row_version: this.nextRowVersion(),
+    };
+
+    this.demographics.set(id, merged);
+    this.recordHistory(merged, 'merge', existing.record, audit, [
+      { field: 'merged_from', old_value: null, new_value: records.map(record => record.id) },
+    ]);
+
+    for (const source of records) {
+      const before = structuredClone(source);
+      source.status = 'deleted';
+      source.merged_into = id;
+      source.deleted_at = source.updated_at = updatedAt;
+      source.row_version = this.nextRowVersion();
+      this.recordHistory(source, 'merge', before, audit);
+    }
+
+    logger.info('Mock: Demographics merged', { id, sourceIds });
+
+    return { status: 'ok', record: this.toVersionedV1(this.forRead(merged)) };
   }
 
   // API Key operations
@@ -147,12 +538,272 @@ export class MockDatabaseService implements IDatabaseService {
   }
 
   // Batch operations
-  async createDemographicsBatch(demographics: Demographics[]): Promise<void> {
-    await this.simulateDelay(100);
-    
+  async createDemographicsBatch(demographics: Demographics[], audit?: AuditContext): Promise<void> {
+    await this.simulateDelay(100); // One round trip for the whole batch, as the bulk load
+
+    // Checked up front so a failure leaves nothing behind, as the SQL transaction does
+    const ids = new Set<string>();
+    for (const demographic of demographics) {
+      if (this.demographics.has(demographic.id) || ids.has(demographic.id)) {
+        throw new Error('Demographic already exists');
+      }
+      ids.add(demographic.id);
+    }
+
     for (const demographic of demographics) {
-      await this.createDemographic(demographic);
+      const created = normalizeCollections(toDemographicsV2(demographic));
+      this.demographics.set(created.id, { ...created, row_version: this.nextRowVersion() });
+      this.recordHistory(created, 'create', null, audit);
+    }
+
+    logger.info('Mock: Demographics batch created', {
+      count: demographics.length,
+      totalRecords: this.demographics.size
+    });
+  }
+
+  async createDemographicsBatchJob(batch: DemographicsBatch): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.batchJobs.set(batch.correlation_id, structuredClone(batch));
+  }
+
+  async getDemographicsBatchJob(correlationId: string, lawFirm: string): Promise<DemographicsBatch | null> {
+    await this.simulateDelay(10);
+
+    const batch = this.batchJobs.get(correlationId);
+    return batch && batch.law_firm === lawFirm ? structuredClone(batch) : null;
+  }
+
+  async updateDemographicsBatchItem(
+    correlationId: string,
+    index: number,
+    status: DemographicsBatchItemStatus,
+    reason?: string
+  ): Promise<void> {
+    await this.simulateDelay(10);
+
+    const batch = this.batchJobs.get(correlationId);
+    const item = batch?.items.find(candidate => candidate.index === index);
+    if (!batch || !item) return;
+
+    const now = new Date().toISOString();
+    Object.assign(item, { status, reason, updated_at: now });
+    batch.updated_at = now;
+  }
+
+  async completeDemographicsBatchJob(correlationId: string): Promise<string | null> {
+    await this.simulateDelay(10);
+
+    const batch = this.batchJobs.get(correlationId);
+    if (!batch || batch.status === 'completed' ||
+        !batch.items.every(item => TERMINAL_BATCH_ITEM_STATUSES.includes(item.status))) {
+      return null;
     }
+
+    const now = new Date().toISOString();
+    Object.assign(batch, { status: 'completed', updated_at: now, completed_at: now });
+    return batch.law_firm;
+  }
+
+  // Business rule settings
+  async getDemographicsRuleSeverities(lawFirm: string): Promise<Record<string, RuleSeverity>> {
+    await this.simulateDelay(10);
+
+    return { ...this.ruleSeverities.get(lawFirm) };
+  }
+
+  async setDemographicsRuleSeverity(
+    lawFirm: string,
+    code: string,
+    severity: RuleSeverity,
+    updatedBy: string
+  ): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.ruleSeverities.set(lawFirm, { ...this.ruleSeverities.get(lawFirm), [code]: severity });
+    logger.info('Mock: Demographics rule severity set', { lawFirm, code, severity, updatedBy });
+  }
+
+  async getDemographicsRetentionSettings(): Promise<DemographicsRetentionSetting[]> {
+    await this.simulateDelay(10);
+
+    return [...this.retentionSettings.values()].map(setting => ({ ...setting }));
+  }
+
+  async getDemographicsRetentionSetting(lawFirm: string): Promise<DemographicsRetentionSetting | null> {
+    await this.simulateDelay(10);
+
+    const setting = this.retentionSettings.get(lawFirm);
+    return setting ? { ...setting } : null;
+  }
+
+  async setDemographicsRetentionDays(lawFirm: string, retentionDays: number | null, updatedBy: string): Promise<void> {
+    await this.simulateDelay(10);
+
+    if (retentionDays === null) {
+      this.retentionSettings.delete(lawFirm);
+    } else {
+      this.retentionSettings.set(lawFirm, {
+        law_firm: lawFirm,
+        retention_days: retentionDays,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      });
+    }
+    logger.info('Mock: Demographics retention set', { lawFirm, retentionDays, updatedBy });
+  }
+
+  async getDemographicsLegalHold(id: string, lawFirm: string): Promise<DemographicsLegalHold | null> {
+    await this.simulateDelay(10);
+
+    const hold = this.legalHolds.get(id);
+    return hold && hold.law_firm === lawFirm ? { ...hold } : null;
+  }
+
+  async placeDemographicsLegalHold(hold: DemographicsLegalHold): Promise<boolean> {
+    await this.simulateDelay(10);
+
+    const demographic = this.demographics.get(hold.demographic_id);
+    if (!demographic || demographic.partitionKey !== hold.law_firm) return false;
+
+    this.legalHolds.set(hold.demographic_id, { ...hold });
+    return true;
+  }
+
+  async releaseDemographicsLegalHold(id: string, lawFirm: string): Promise<boolean> {
+    await this.simulateDelay(10);
+
+    if (this.legalHolds.get(id)?.law_firm !== lawFirm) return false;
+    return this.legalHolds.delete(id);
+  }
+
+  async purgeDeletedDemographics(
+    lawFirm: string,
+    deletedBefore: Date,
+    retentionDays: number,
+    limit: number
+  ): Promise<DemographicsTombstone[]> {
+    await this.simulateDelay(50);
+
+    const expired = [...this.demographics.values()]
+      .filter(record =>
+        record.partitionKey === lawFirm &&
+        record.status === 'deleted' &&
+        new Date(record.deleted_at!) < deletedBefore &&
+        !this.legalHolds.has(record.id))
+      .sort((a, b) => a.deleted_at!.localeCompare(b.deleted_at!))
+      .slice(0, limit);
+
+    const purgedAt = new Date().toISOString();
+    return expired.map(record => {
+      const tombstone: DemographicsTombstone = {
+        demographic_id: record.id,
+        law_firm: lawFirm,
+        ...(record.sf_id && { sf_id: record.sf_id }),
+        ...(record.law_firm_client_id && { law_firm_client_id: record.law_firm_client_id }),
+        deleted_at: record.deleted_at!,
+        purged_at: purgedAt,
+        retention_days: retentionDays,
+        history_entries: this.history.get(record.id)?.length ?? 0,
+      };
+
+      this.demographics.delete(record.id);
+      this.history.delete(record.id);
+      this.tombstones.set(record.id, tombstone);
+      logger.info('Mock: Demographics purged', { id: record.id, lawFirm });
+
+      return { ...tombstone };
+    });
+  }
+
+  async getDemographicsTombstone(id: string, lawFirm: string): Promise<DemographicsTombstone | null> {
+    await this.simulateDelay(10);
+
+    const tombstone = this.tombstones.get(id);
+    return tombstone && tombstone.law_firm === lawFirm ? { ...tombstone } : null;
+  }
+
+  async createDemographicsImport(job: DemographicsImport): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.imports.set(job.id, { ...job });
+    this.importErrors.set(job.id, []);
+  }
+
+  async updateDemographicsImport(job: DemographicsImport): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.imports.set(job.id, { ...job });
+  }
+
+  async getDemographicsImport(id: string, lawFirm: string): Promise<DemographicsImport | null> {
+    await this.simulateDelay(10);
+
+    const job = this.imports.get(id);
+    return job && job.law_firm === lawFirm ? { ...job } : null;
+  }
+
+  async addDemographicsImportErrors(importId: string, errors: DemographicsImportError[]): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.importErrors.get(importId)?.push(...errors);
+  }
+
+  async getDemographicsImportErrors(id: string, lawFirm: string): Promise<DemographicsImportError[]> {
+    await this.simulateDelay(10);
+
+    return this.imports.get(id)?.law_firm === lawFirm ? [...(this.importErrors.get(id) ?? [])] : [];
+  }
+
+  async getDemographicsImportAliases(lawFirm: string): Promise<Record<string, string>> {
+    await this.simulateDelay(10);
+
+    return { ...this.importAliases.get(lawFirm) };
+  }
+
+  async setDemographicsImportAliases(
+    lawFirm: string,
+    aliases: Record<string, string>,
+    updatedBy: string
+  ): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.importAliases.set(lawFirm, { ...aliases });
+    logger.info('Mock: Demographics import aliases set', { lawFirm, count: Object.keys(aliases).length, updatedBy });
+  }
+
+  async createDemographicsExport(job: DemographicsExport): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.exports.set(job.id, { ...job });
+  }
+
+  async updateDemographicsExport(job: DemographicsExport): Promise<void> {
+    await this.simulateDelay(10);
+
+    this.exports.set(job.id, { ...job });
+  }
+
+  async getDemographicsExport(id: string, lawFirm: string): Promise<DemographicsExport | null> {
+    await this.simulateDelay(10);
+
+    const job = this.exports.get(id);
+    return job && job.law_firm === lawFirm ? { ...job } : null;
+  }
+
+  async failStaleDemographicsExports(staleBefore: Date, error: string): Promise<number> {
+    await this.simulateDelay(10);
+
+    const now = new Date().toISOString();
+    let failed = 0;
+    for (const job of this.exports.values()) {
+      if ((job.status === 'pending' || job.status === 'processing') && new Date(job.updated_at) < staleBefore) {
+        Object.assign(job, { status: 'failed', error, updated_at: now, completed_at: now });
+        failed++;
+      }
+    }
+    return failed;
   }
 
   // Mock-specific utilities
@@ -163,10 +814,74 @@ export class MockDatabaseService implements IDatabaseService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  // Mimics SQL Server ROWVERSION: a database-wide counter bumped on every write
+  private nextRowVersion(): string {
+    this.rowVersion++;
+    return this.rowVersion.toString(16).toUpperCase().padStart(16, '0');
+  }
+
+  private recordHistory(
+    record: DemographicsV2,
+    action: DemographicsHistoryAction,
+    before: DemographicsV2 | null,
+    audit?: AuditContext,
+    extraChanges: DemographicsFieldChange[] = []
+  ): void {
+    const entries = this.history.get(record.id) || [];
+    entries.push({
+      demographic_id: record.id,
+      action,
+      changes: fieldEncryptionService.redactChanges([...diffDemographics(before, record), ...extraChanges]),
+      key_id: audit?.keyId,
+      request_id: audit?.requestId,
+      changed_at: record.updated_at,
+      snapshot: structuredClone(toHistorySnapshot(record)),
+    });
+    this.history.set(record.id, entries);
+  }
+
+  // Records are held in plaintext here; reads without pii mask the encrypted fields like the SQL service
+  private forRead<T extends DemographicsV2>(record: T, options: DemographicsReadOptions = {}): T {
+    const copy = structuredClone(record);
+    return options.pii ? copy : fieldEncryptionService.conceal(copy);
+  }
+
+  private toVersionedV1(record: Versioned<DemographicsV2>): Versioned<Demographics> {
+    return { ...toDemographicsV1(record), row_version: record.row_version };
+  }
+
+  private findForWrite(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion
+  ): VersionedWriteResult<Versioned<DemographicsV2>> {
+    const demographic = this.demographics.get(id);
+    if (!demographic || demographic.partitionKey !== lawFirm || demographic.status === 'deleted') {
+      return { status: 'not_found' };
+    }
+
+    if (expectedVersion && expectedVersion !== '*' &&
+        !expectedVersion.some(version => version.toUpperCase() === demographic.row_version)) {
+      return { status: 'version_mismatch', current_version: demographic.row_version };
+    }
+
+    return { status: 'ok', record: demographic };
+  }
+
   // Test utilities
   clearAll(): void {
     this.demographics.clear();
     this.apiKeys.clear();
+    this.history.clear();
+    this.ruleSeverities.clear();
+    this.imports.clear();
+    this.importErrors.clear();
+    this.importAliases.clear();
+    this.exports.clear();
+    this.batchJobs.clear();
+    this.retentionSettings.clear();
+    this.legalHolds.clear();
+    this.tombstones.clear();
     logger.info('Mock database cleared');
   }
 
@@ -1,28 +1,201 @@
 import sql from 'mssql';
-import { Demographics } from '../types/demographics';
+import {
+  AuditContext,
+  Demographics,
+  DemographicsBatch,
+  DemographicsBatchItemStatus,
+  DemographicsBulkUpdateResult,
+  DemographicsChanges,
+  DemographicsCore,
+  DemographicsDuplicateMatch,
+  DemographicsExport,
+  DemographicsExternalId,
+  DemographicsExternalIdConflict,
+  DemographicsFilters,
+  DemographicsHistoryEntry,
+  DemographicsImport,
+  DemographicsImportError,
+  DemographicsLegalHold,
+  DemographicsMergeResult,
+  DemographicsPage,
+  DemographicsPageRequest,
+  DemographicsReadOptions,
+  DemographicsRetentionSetting,
+  DemographicsSort,
+  DemographicsTombstone,
+  DemographicsUpsertResult,
+  DemographicsV2,
+  RuleSeverity,
+  ExpectedVersion,
+  Scored,
+  Versioned,
+  VersionedWriteResult,
+} from '../types/demographics';
 import { ApiKey } from '../types/apiKey';
 
-export interface DemographicsFilters {
-  claimanttype?: string;
-  status?: string;
-  search?: string;
-}
-
 export interface IDatabaseService {
   getPool(): Promise<sql.ConnectionPool>;
   
   // Demographics operations
-  createDemographic(demographic: Demographics): Promise<void>;
-  getDemographicById(id: string, lawFirm: string): Promise<Demographics | null>;
+  createDemographic(demographic: Demographics, audit?: AuditContext): Promise<void>;
+  getDemographicById(id: string, lawFirm: string, options?: DemographicsReadOptions): Promise<Versioned<Demographics> | null>;
+  getDemographicAsOf(
+    id: string,
+    lawFirm: string,
+    asOf: string,
+    options?: DemographicsReadOptions
+  ): Promise<Demographics | null>;
+  getDemographicHistory(id: string, lawFirm: string, limit?: number, offset?: number): Promise<DemographicsHistoryEntry[]>;
   getDemographicsByLawFirm(
     lawFirm: string,
-    limit?: number,
-    offset?: number,
-    filters?: DemographicsFilters
-  ): Promise<Demographics[]>;
-  updateDemographic(id: string, demographic: Partial<Demographics>): Promise<void>;
-  softDeleteDemographic(id: string, lawFirm: string): Promise<void>;
-  createDemographicsBatch(demographics: Demographics[]): Promise<void>;
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Versioned<Demographics>>>;
+  // Every matching record, in sort order, a chunk at a time
+  streamDemographicsByLawFirm(
+    lawFirm: string,
+    filters?: DemographicsFilters,
+    sort?: DemographicsSort[],
+    options?: DemographicsReadOptions
+  ): AsyncIterable<Versioned<Demographics>[]>;
+  searchDemographicsByName(
+    lawFirm: string,
+    search: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Scored<Versioned<Demographics>>>>;
+  updateDemographic(
+    id: string,
+    lawFirm: string,
+    changes: DemographicsChanges,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<Demographics>>>;
+  // All of the updates in one transaction, or none of them
+  updateDemographicsBatch(
+    lawFirm: string,
+    updates: { id: string; changes: DemographicsChanges }[],
+    audit?: AuditContext
+  ): Promise<DemographicsBulkUpdateResult<Versioned<Demographics>>>;
+  // Create, or update the record holding its law_firm_client_id, safely under concurrent calls
+  upsertDemographicByClientId(
+    record: Demographics,
+    changes: DemographicsChanges,
+    audit?: AuditContext
+  ): Promise<DemographicsUpsertResult<Versioned<Demographics>>>;
+  softDeleteDemographic(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<{ row_version: string; deleted_at: string }>>;
+  // Undo a soft delete; not_found unless the record is deleted
+  restoreDemographic(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<Demographics>>>;
+  findDuplicateDemographics(lawFirm: string, candidate: Partial<DemographicsCore>): Promise<DemographicsDuplicateMatch[]>;
+  // Likely duplicates of each candidate, in input order, in one lookup
+  findDuplicateDemographicsBatch(
+    lawFirm: string,
+    candidates: Partial<DemographicsCore>[]
+  ): Promise<DemographicsDuplicateMatch[][]>;
+  // Records holding any of the external ids, which are unique per law firm
+  findDemographicsByExternalIds(lawFirm: string, ids: DemographicsExternalId[]): Promise<DemographicsExternalIdConflict[]>;
+  mergeDemographics(
+    id: string,
+    sourceIds: string[],
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<DemographicsMergeResult<Versioned<Demographics>>>;
+  // All of the records in one transaction, or none of them
+  createDemographicsBatch(demographics: Demographics[], audit?: AuditContext): Promise<void>;
+
+  // Batch submissions and the state of each item, by correlation id
+  createDemographicsBatchJob(batch: DemographicsBatch): Promise<void>;
+  getDemographicsBatchJob(correlationId: string, lawFirm: string): Promise<DemographicsBatch | null>;
+  updateDemographicsBatchItem(
+    correlationId: string,
+    index: number,
+    status: DemographicsBatchItemStatus,
+    reason?: string
+  ): Promise<void>;
+  // Complete the batch if every item has finished. Returns its law firm to the
+  // call that completed it, null to every other
+  completeDemographicsBatchJob(correlationId: string): Promise<string | null>;
+
+  // Per law firm severity overrides of the business rules, by rule code
+  getDemographicsRuleSeverities(lawFirm: string): Promise<Record<string, RuleSeverity>>;
+  setDemographicsRuleSeverity(lawFirm: string, code: string, severity: RuleSeverity, updatedBy: string): Promise<void>;
+
+  // Per law firm retention of soft deleted records, legal holds exempting records from it,
+  // and the tombstones left by purges
+  getDemographicsRetentionSettings(): Promise<DemographicsRetentionSetting[]>;
+  getDemographicsRetentionSetting(lawFirm: string): Promise<DemographicsRetentionSetting | null>;
+  // null removes the firm's retention, so its deleted records are kept
+  setDemographicsRetentionDays(lawFirm: string, retentionDays: number | null, updatedBy: string): Promise<void>;
+  getDemographicsLegalHold(id: string, lawFirm: string): Promise<DemographicsLegalHold | null>;
+  // Place or replace the record's hold. False when the record does not exist
+  placeDemographicsLegalHold(hold: DemographicsLegalHold): Promise<boolean>;
+  // False when the record had no hold
+  releaseDemographicsLegalHold(id: string, lawFirm: string): Promise<boolean>;
+  // Permanently delete up to limit records soft deleted before the cutoff and not held, with
+  // their history, leaving a tombstone for each, in one transaction
+  purgeDeletedDemographics(
+    lawFirm: string,
+    deletedBefore: Date,
+    retentionDays: number,
+    limit: number
+  ): Promise<DemographicsTombstone[]>;
+  getDemographicsTombstone(id: string, lawFirm: string): Promise<DemographicsTombstone | null>;
+
+  // CSV and XLSX imports, their rejected rows, and per law firm header aliases
+  createDemographicsImport(job: DemographicsImport): Promise<void>;
+  updateDemographicsImport(job: DemographicsImport): Promise<void>;
+  getDemographicsImport(id: string, lawFirm: string): Promise<DemographicsImport | null>;
+  addDemographicsImportErrors(importId: string, errors: DemographicsImportError[]): Promise<void>;
+  getDemographicsImportErrors(id: string, lawFirm: string): Promise<DemographicsImportError[]>;
+  getDemographicsImportAliases(lawFirm: string): Promise<Record<string, string>>;
+  setDemographicsImportAliases(lawFirm: string, aliases: Record<string, string>, updatedBy: string): Promise<void>;
+
+  // Background exports to blob storage
+  createDemographicsExport(job: DemographicsExport): Promise<void>;
+  updateDemographicsExport(job: DemographicsExport): Promise<void>;
+  getDemographicsExport(id: string, lawFirm: string): Promise<DemographicsExport | null>;
+  // Fail pending or processing exports not updated since staleBefore; returns how many
+  failStaleDemographicsExports(staleBefore: Date, error: string): Promise<number>;
+
+  // v2 records (attorneys, liens, vendor expenses and cost details as arrays)
+  createDemographicRecord(record: DemographicsV2, audit?: AuditContext): Promise<void>;
+  getDemographicRecordById(
+    id: string,
+    lawFirm: string,
+    options?: DemographicsReadOptions
+  ): Promise<Versioned<DemographicsV2> | null>;
+  getDemographicRecordAsOf(
+    id: string,
+    lawFirm: string,
+    asOf: string,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsV2 | null>;
+  getDemographicRecordsByLawFirm(
+    lawFirm: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Versioned<DemographicsV2>>>;
+  searchDemographicRecordsByName(
+    lawFirm: string,
+    search: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Scored<Versioned<DemographicsV2>>>>;
   
   // API Key operations
   createApiKey(apiKey: ApiKey): Promise<void>;
@@ -1,106 +1,408 @@
 import sql from 'mssql';
-import { Demographics } from '../types/demographics';
+import {
+  AuditContext,
+  DEFAULT_DEMOGRAPHICS_SORT,
+  DEMOGRAPHICS_EXTERNAL_ID_FIELDS,
+  DEMOGRAPHICS_NAME_SEARCH_FIELDS,
+  Demographics,
+  DemographicsBatch,
+  DemographicsBatchItemStatus,
+  DemographicsBulkUpdateResult,
+  DemographicsChanges,
+  DemographicsCollectionKey,
+  DemographicsCore,
+  DemographicsDuplicateMatch,
+  DemographicsExport,
+  DemographicsExternalId,
+  DemographicsExternalIdConflict,
+  DemographicsFieldChange,
+  DemographicsFilters,
+  DemographicsHistoryAction,
+  DemographicsHistoryEntry,
+  DemographicsImport,
+  DemographicsImportError,
+  DemographicsLegalHold,
+  DemographicsMergeResult,
+  DemographicsPage,
+  DemographicsPageRequest,
+  DemographicsReadOptions,
+  DemographicsRetentionSetting,
+  DemographicsSort,
+  DemographicsTombstone,
+  DemographicsUpsertResult,
+  DemographicsV2,
+  ExpectedVersion,
+  IMMUTABLE_DEMOGRAPHICS_FIELDS,
+  RuleSeverity,
+  Scored,
+  Versioned,
+  VersionedWriteResult,
+} from '../types/demographics';
 import { ApiKey } from '../types/apiKey';
+import { BLIND_INDEX_COLUMNS, BlindIndexes, SealedPii } from '../types/encryption';
+import { fieldEncryptionService } from '../services/fieldEncryption.service';
 import { logger } from '../utils/logger';
 import { getPool } from './connection';
+import { IDatabaseService } from './database.interface';
+import {
+  DEMOGRAPHICS_COLLECTION_TABLES,
+  DEMOGRAPHICS_COLUMNS,
+  DEMOGRAPHICS_COLUMN_MAP,
+  DemographicsColumn,
+  addBulkRow,
+  bindColumnInputs,
+  bindDemographicsInputs,
+  bulkTable,
+  fromRowVersion,
+  mapColumns,
+  mapDemographicsRow,
+  toRowVersion,
+} from './demographics.columns';
+import {
+  emptyCollections,
+  hasCollectionChanges,
+  mergeFlatCollectionChanges,
+  normalizeCollections,
+  pickCoreFields,
+  toDemographicsV1,
+  toDemographicsV2,
+} from '../utils/demographics.mapper';
+import { diffDemographics, statusBeforeDelete, toHistorySnapshot } from '../utils/demographics.history';
+import { nameKeys, rankByRelevance, searchKeys } from '../utils/demographics.search';
+import { duplicateMatchKeys, findDuplicates, mergeDuplicateRecords } from '../utils/demographics.matching';
+import { toDemographicsPage } from '../utils/cursor';
+import { bindDemographicsFilters, bindDemographicsKeyset, demographicsOrderBy } from './demographics.query';
 
-export interface DemographicsFilters {
-  claimanttype?: string;
-  status?: string;
-  search?: string;
+export type { DemographicsFilters };
+
+const IMMUTABLE_FIELDS = new Set<string>(IMMUTABLE_DEMOGRAPHICS_FIELDS);
+const NAME_SEARCH_FIELDS = new Set<string>(DEMOGRAPHICS_NAME_SEARCH_FIELDS);
+
+// Most phonetic matches ranked per fuzzy search
+const NAME_SEARCH_CANDIDATE_LIMIT = 1000;
+
+// Most records scored per duplicate check
+const DUPLICATE_CANDIDATE_LIMIT = 50;
+
+// Rows sealed per sealPlaintextPii call
+const PII_BACKFILL_BATCH_SIZE = 500;
+
+// Rows decrypted and given their collections at a time by streamDemographicsByLawFirm
+const STREAM_CHUNK_SIZE = 500;
+
+// Bulk loads honour constraints and triggers, and insert NULLs as given
+// rather than column defaults, like the INSERT of createDemographicRecord
+const BULK_OPTIONS: sql.IBulkOptions = { checkConstraints: true, fireTriggers: true, keepNulls: true };
+
+const DEMOGRAPHIC_ID_COLUMN: DemographicsColumn = { name: 'demographic_id', kind: 'uuid', sqlType: sql.UniqueIdentifier };
+
+// The sealed envelope of the encrypted fields and their blind indexes
+const SEALED_PII_COLUMNS: DemographicsColumn[] = [
+  { name: 'pii_envelope', kind: 'string', sqlType: sql.NVarChar(sql.MAX) },
+  ...BLIND_INDEX_COLUMNS.map((name): DemographicsColumn => ({ name, kind: 'string', sqlType: sql.VarChar(64) })),
+];
+
+const NAME_KEY_COLUMNS: DemographicsColumn[] = [
+  DEMOGRAPHIC_ID_COLUMN,
+  { name: 'partitionKey', kind: 'string', sqlType: sql.NVarChar(75) },
+  { name: 'name_field', kind: 'string', sqlType: sql.NVarChar(30) },
+  { name: 'phonetic_key', kind: 'string', sqlType: sql.Char(4) },
+];
+
+const HISTORY_COLUMNS: DemographicsColumn[] = [
+  DEMOGRAPHIC_ID_COLUMN,
+  { name: 'partitionKey', kind: 'string', sqlType: sql.NVarChar(75) },
+  { name: 'action', kind: 'string', sqlType: sql.NVarChar(10) },
+  { name: 'changes', kind: 'string', sqlType: sql.NVarChar(sql.MAX) },
+  { name: 'snapshot', kind: 'string', sqlType: sql.NVarChar(sql.MAX) },
+  { name: 'key_id', kind: 'string', sqlType: sql.NVarChar(50) },
+  { name: 'request_id', kind: 'string', sqlType: sql.NVarChar(100) },
+  { name: 'changed_at', kind: 'datetime', sqlType: sql.DateTime2 },
+];
+
+// sql.Request takes a pool or a transaction as its parent; its typed overloads accept only one at a time
+const SqlRequest = sql.Request as new (parent: sql.ConnectionPool | sql.Transaction) => sql.Request;
+
+function requestOn(source: sql.ConnectionPool | sql.Transaction): sql.Request {
+  return new SqlRequest(source);
+}
+
+function toVersionedV1(record: Versioned<DemographicsV2>): Versioned<Demographics> {
+  return { ...toDemographicsV1(record), row_version: record.row_version };
+}
+
+interface ColumnChanges {
+  columns: DemographicsColumn[];
+  values: Record<string, unknown>;
 }
 
-export class DatabaseService {
+/**
+ * The columns a change writes. Throws for fields that cannot be updated or
+ * when nothing would change.
+ */
+function updatableColumns(changes: DemographicsChanges): ColumnChanges {
+  const coreChanges = Object.entries(pickCoreFields(changes)).filter(([, value]) => value !== undefined);
+
+  const columns = coreChanges.map(([field]) => {
+    const column = DEMOGRAPHICS_COLUMN_MAP.get(field);
+    if (!column || IMMUTABLE_FIELDS.has(field)) {
+      throw new Error(`Field ${field} cannot be updated`);
+    }
+    return column;
+  });
+
+  if (columns.length === 0 && !hasCollectionChanges(changes)) {
+    throw new Error('No fields to update');
+  }
+
+  return { columns, values: Object.fromEntries(coreChanges) };
+}
+
+export class DatabaseService implements IDatabaseService {
   async getPool(): Promise<sql.ConnectionPool> {
     return getPool();
   }
 
   // Demographics operations
-  async createDemographic(demographic: Demographics): Promise<void> {
+  async createDemographic(demographic: Demographics, audit?: AuditContext): Promise<void> {
+    await this.createDemographicRecord(toDemographicsV2(demographic), audit);
+  }
+
+  async createDemographicRecord(record: DemographicsV2, audit?: AuditContext): Promise<void> {
     const pool = await this.getPool();
-    const request = pool.request();
+    const transaction = new sql.Transaction(pool);
 
-    const query = `
-      INSERT INTO Demographics (
-        id, partitionKey, law_firm, firstname, lastname, email, phone, 
-        primarylawfirm, claimanttype, ethnicity, city, state, zipcode,
-        created_at, updated_at, created_by, status
-      ) VALUES (
-        @id, @partitionKey, @law_firm, @firstname, @lastname, @email, @phone,
-        @primarylawfirm, @claimanttype, @ethnicity, @city, @state, @zipcode,
-        @created_at, @updated_at, @created_by, @status
-      )
-    `;
+    const sealed = await fieldEncryptionService.seal(pickCoreFields(record));
+
+    await transaction.begin();
+    try {
+      await this.insertRecord(transaction, record, sealed, audit);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographic created', { id: record.id, law_firm: record.law_firm });
+  }
 
-    request.input('id', sql.UniqueIdentifier, demographic.id);
-    request.input('partitionKey', sql.VarChar(75), demographic.partitionKey);
-    request.input('law_firm', sql.VarChar(55), demographic.law_firm);
-    request.input('firstname', sql.VarChar(55), demographic.firstname || null);
-    request.input('lastname', sql.VarChar(75), demographic.lastname || null);
-    request.input('email', sql.VarChar(100), demographic.email);
-    request.input('phone', sql.VarChar(11), demographic.phone);
-    request.input('primarylawfirm', sql.VarChar(75), demographic.primarylawfirm);
-    request.input('claimanttype', sql.VarChar(35), demographic.claimanttype);
-    request.input('ethnicity', sql.VarChar(11), demographic.ethnicity);
-    request.input('city', sql.VarChar(55), demographic.city || null);
-    request.input('state', sql.VarChar(2), demographic.state || null);
-    request.input('zipcode', sql.VarChar(25), demographic.zipcode || null);
-    request.input('created_at', sql.DateTime2, new Date(demographic.created_at));
-    request.input('updated_at', sql.DateTime2, new Date(demographic.updated_at));
-    request.input('created_by', sql.UniqueIdentifier, demographic.created_by);
-    request.input('status', sql.VarChar(20), demographic.status);
+  /**
+   * Create the records in one transaction: every one of them, or none if any
+   * fails. Each table is written with a single bulk load, so the round trips
+   * do not grow with the number of records.
+   */
+  async createDemographicsBatch(demographics: Demographics[], audit?: AuditContext): Promise<void> {
+    if (demographics.length === 0) return;
 
-    await request.query(query);
-    logger.info('Demographic created', { id: demographic.id, law_firm: demographic.law_firm });
+    const records = demographics.map(toDemographicsV2);
+    const cores = records.map(record => pickCoreFields(record));
+    // Sealed before the transaction begins so no key operation runs inside it
+    const sealed = await Promise.all(cores.map(core => fieldEncryptionService.seal(core)));
+
+    const demographicsTable = bulkTable('Demographics', [...DEMOGRAPHICS_COLUMNS, ...SEALED_PII_COLUMNS]);
+    const nameKeysTable = bulkTable('DemographicsNameKeys', NAME_KEY_COLUMNS);
+    const historyTable = bulkTable('DemographicsHistory', HISTORY_COLUMNS);
+    const collectionTables = Object.entries(DEMOGRAPHICS_COLLECTION_TABLES).map(([key, definition]) => ({
+      key: key as DemographicsCollectionKey,
+      columns: [DEMOGRAPHIC_ID_COLUMN, ...definition.columns],
+      table: bulkTable(definition.table, [DEMOGRAPHIC_ID_COLUMN, ...definition.columns]),
+    }));
+
+    records.forEach((record, index) => {
+      addBulkRow(demographicsTable, [...DEMOGRAPHICS_COLUMNS, ...SEALED_PII_COLUMNS], {
+        ...fieldEncryptionService.strip(cores[index]),
+        pii_envelope: sealed[index].envelope,
+        ...sealed[index].indexes,
+      });
+
+      const created = normalizeCollections(record);
+      for (const { key, columns, table } of collectionTables) {
+        for (const item of created[key] as Record<string, unknown>[]) {
+          addBulkRow(table, columns, { ...item, demographic_id: record.id });
+        }
+      }
+
+      for (const { field, key } of nameKeys(record)) {
+        addBulkRow(nameKeysTable, NAME_KEY_COLUMNS, {
+          demographic_id: record.id,
+          partitionKey: record.partitionKey,
+          name_field: field,
+          phonetic_key: key,
+        });
+      }
+
+      // As insertHistory, with the envelope just sealed in place of the stored one
+      const snapshot: Record<string, unknown> = fieldEncryptionService.strip(toHistorySnapshot(created));
+      if (sealed[index].envelope) snapshot.pii_envelope = sealed[index].envelope;
+      addBulkRow(historyTable, HISTORY_COLUMNS, {
+        demographic_id: record.id,
+        partitionKey: record.partitionKey,
+        action: 'create',
+        changes: JSON.stringify(fieldEncryptionService.redactChanges(diffDemographics(null, created))),
+        snapshot: JSON.stringify(snapshot),
+        key_id: audit?.keyId,
+        request_id: audit?.requestId,
+        changed_at: record.updated_at,
+      });
+    });
+
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+
+    await transaction.begin();
+    try {
+      // Parents first, for the foreign keys of the child tables
+      for (const table of [demographicsTable, ...collectionTables.map(({ table }) => table), nameKeysTable, historyTable]) {
+        if (table.rows.length > 0) {
+          await new sql.Request(transaction).bulk(table, BULK_OPTIONS);
+        }
+      }
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographics batch created', {
+      count: records.length,
+      law_firm: records[0].law_firm,
+    });
+  }
+
+  async getDemographicById(
+    id: string,
+    lawFirm: string,
+    options?: DemographicsReadOptions
+  ): Promise<Versioned<Demographics> | null> {
+    const record = await this.getDemographicRecordById(id, lawFirm, options);
+    return record ? toVersionedV1(record) : null;
   }
 
-  async getDemographicById(id: string, lawFirm: string): Promise<Demographics | null> {
+  async getDemographicRecordById(
+    id: string,
+    lawFirm: string,
+    options?: DemographicsReadOptions
+  ): Promise<Versioned<DemographicsV2> | null> {
+    return this.selectRecord(await this.getPool(), id, lawFirm, false, options);
+  }
+
+  /**
+   * The record as it stood at the given time, rebuilt from its history
+   */
+  async getDemographicAsOf(
+    id: string,
+    lawFirm: string,
+    asOf: string,
+    options?: DemographicsReadOptions
+  ): Promise<Demographics | null> {
+    const record = await this.getDemographicRecordAsOf(id, lawFirm, asOf, options);
+    return record ? toDemographicsV1(record) : null;
+  }
+
+  async getDemographicRecordAsOf(
+    id: string,
+    lawFirm: string,
+    asOf: string,
+    options: DemographicsReadOptions = {}
+  ): Promise<DemographicsV2 | null> {
     const pool = await this.getPool();
     const request = pool.request();
 
     const result = await request
       .input('id', sql.UniqueIdentifier, id)
       .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('as_of', sql.DateTime2, new Date(asOf))
       .query(`
-        SELECT * FROM Demographics 
-        WHERE id = @id AND partitionKey = @partitionKey
+        SELECT TOP 1 snapshot FROM DemographicsHistory
+        WHERE demographic_id = @id AND partitionKey = @partitionKey AND changed_at <= @as_of
+        ORDER BY changed_at DESC, id DESC
       `);
 
-    return result.recordset.length > 0 ? result.recordset[0] as Demographics : null;
+    if (result.recordset.length === 0) return null;
+
+    // Snapshots backfilled by migration 004 omit empty collections
+    const { pii_envelope: envelope, ...snapshot } = JSON.parse(result.recordset[0].snapshot);
+    const record = toHistorySnapshot({ ...emptyCollections(), ...snapshot });
+
+    return options.pii
+      ? { ...record, ...(await fieldEncryptionService.open(envelope)) }
+      : fieldEncryptionService.conceal(record, envelope);
   }
 
-  async getDemographicsByLawFirm(
+  async getDemographicHistory(
+    id: string,
     lawFirm: string,
     limit: number = 50,
-    offset: number = 0,
-    filters?: DemographicsFilters
-  ): Promise<Demographics[]> {
+    offset: number = 0
+  ): Promise<DemographicsHistoryEntry[]> {
     const pool = await this.getPool();
     const request = pool.request();
 
-    let whereClause = 'WHERE partitionKey = @partitionKey AND status != @deletedStatus';
-    let orderClause = 'ORDER BY created_at DESC';
+    const result = await request
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .input('limit', sql.Int, limit)
+      .input('offset', sql.Int, offset)
+      .query(`
+        SELECT demographic_id, action, changes, key_id, request_id, changed_at
+        FROM DemographicsHistory
+        WHERE demographic_id = @id AND partitionKey = @partitionKey
+        ORDER BY changed_at DESC, id DESC
+        OFFSET @offset ROWS
+        FETCH NEXT @limit ROWS ONLY
+      `);
 
-    request.input('partitionKey', sql.VarChar(75), lawFirm);
-    request.input('deletedStatus', sql.VarChar(20), 'deleted');
-    request.input('limit', sql.Int, limit);
-    request.input('offset', sql.Int, offset);
+    return result.recordset.map(row => ({
+      demographic_id: String(row.demographic_id).toLowerCase(),
+      action: row.action,
+      changes: JSON.parse(row.changes),
+      key_id: row.key_id ?? undefined,
+      request_id: row.request_id ?? undefined,
+      changed_at: row.changed_at.toISOString(),
+    }));
+  }
 
-    if (filters?.claimanttype) {
-      whereClause += ' AND claimanttype = @claimanttype';
-      request.input('claimanttype', sql.VarChar(35), filters.claimanttype);
-    }
+  async getDemographicsByLawFirm(
+    lawFirm: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Versioned<Demographics>>> {
+    const result = await this.getDemographicRecordsByLawFirm(lawFirm, page, filters, options);
+    return { ...result, records: result.records.map(record => toVersionedV1(record)) };
+  }
 
-    if (filters?.status) {
-      whereClause += ' AND status = @status';
-      request.input('status', sql.VarChar(20), filters.status);
-    }
+  /**
+   * List a law firm's records in the requested sort order (newest first by
+   * default). With a cursor the page starts right after that row's sort key,
+   * so rows inserted while a client pages through are neither repeated nor
+   * skipped; offset is only honoured without a cursor. One extra row is read
+   * to know whether more follow.
+   */
+  async getDemographicRecordsByLawFirm(
+    lawFirm: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Versioned<DemographicsV2>>> {
+    const pool = await this.getPool();
+    const request = pool.request();
+    const sort = page.sort ?? DEFAULT_DEMOGRAPHICS_SORT;
 
-    if (filters?.search) {
-      whereClause += ' AND (firstname LIKE @search OR lastname LIKE @search OR email LIKE @search)';
-      request.input('search', sql.VarChar(255), `%${filters.search}%`);
+    const conditions = ['partitionKey = @partitionKey', 'status != @deletedStatus'];
+    conditions.push(...bindDemographicsFilters(request, filters, await this.filterIndexes(filters)));
+    if (page.cursor) {
+      conditions.push(bindDemographicsKeyset(request, sort, page.cursor));
     }
 
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const orderClause = demographicsOrderBy(sort);
+
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+    request.input('deletedStatus', sql.VarChar(20), 'deleted');
+    request.input('limit', sql.Int, page.limit + 1);
+    request.input('offset', sql.Int, page.cursor ? 0 : page.offset ?? 0);
+
     const query = `
       SELECT * FROM Demographics 
       ${whereClause}
@@ -110,58 +412,1589 @@ export class DatabaseService {
     `;
 
     const result = await request.query(query);
-    return result.recordset as Demographics[];
+    const rows = result.recordset.slice(0, page.limit);
+    const records = await this.attachCollections(await Promise.all(rows.map(row => this.readRow(row, options))));
+
+    return toDemographicsPage(records, result.recordset.length > page.limit, sort);
   }
 
-  async updateDemographic(id: string, demographic: Partial<Demographics>): Promise<void> {
+  /**
+   * Every record matching the filters, in sort order, from one streamed
+   * query. Rows are decrypted and given their collections a chunk at a time;
+   * the query is paused while the caller works on a chunk and cancelled if
+   * the caller stops early.
+   */
+  async *streamDemographicsByLawFirm(
+    lawFirm: string,
+    filters?: DemographicsFilters,
+    sort: DemographicsSort[] = DEFAULT_DEMOGRAPHICS_SORT,
+    options?: DemographicsReadOptions
+  ): AsyncIterable<Versioned<Demographics>[]> {
     const pool = await this.getPool();
     const request = pool.request();
 
-    const updateFields = Object.keys(demographic)
-      .filter(key => key !== 'id' && key !== 'partitionKey' && key !== 'created_at')
-      .map(key => `${key} = @${key}`)
-      .join(', ');
+    const conditions = ['partitionKey = @partitionKey', 'status != @deletedStatus'];
+    conditions.push(...bindDemographicsFilters(request, filters, await this.filterIndexes(filters)));
 
-    if (!updateFields) {
-      throw new Error('No fields to update');
-    }
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+    request.input('deletedStatus', sql.VarChar(20), 'deleted');
 
-    const query = `UPDATE Demographics SET ${updateFields}, updated_at = @updated_at WHERE id = @id`;
+    const rows = request.toReadableStream({ highWaterMark: STREAM_CHUNK_SIZE });
+    // In stream mode errors are raised on the stream, not the promise
+    void request.query(`
+      SELECT * FROM Demographics
+      WHERE ${conditions.join(' AND ')}
+      ${demographicsOrderBy(sort)}
+    `);
 
-    request.input('id', sql.UniqueIdentifier, id);
-    request.input('updated_at', sql.DateTime2, new Date());
+    const readChunk = async (chunk: Record<string, unknown>[]) =>
+      (await this.attachCollections(await Promise.all(chunk.map(row => this.readRow(row, options)))))
+        .map(record => toVersionedV1(record));
 
-    Object.entries(demographic).forEach(([key, value]) => {
-      if (key !== 'id' && key !== 'partitionKey' && key !== 'created_at') {
-        if (key.includes('date') || key.includes('dob') || key.includes('dod')) {
-          request.input(key, sql.DateTime2, value ? new Date(value as string) : null);
-        } else if (typeof value === 'number') {
-          request.input(key, sql.Decimal(15, 4), value);
-        } else {
-          request.input(key, sql.NVarChar, value);
+    let chunk: Record<string, unknown>[] = [];
+    let finished = false;
+    try {
+      for await (const row of rows) {
+        chunk.push(row);
+        if (chunk.length === STREAM_CHUNK_SIZE) {
+          yield await readChunk(chunk);
+          chunk = [];
         }
       }
-    });
+      if (chunk.length > 0) yield await readChunk(chunk);
+      finished = true;
+    } finally {
+      if (!finished) request.cancel();
+    }
+  }
 
-    await request.query(query);
-    logger.info('Demographic updated', { id });
+  async searchDemographicsByName(
+    lawFirm: string,
+    search: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Scored<Versioned<Demographics>>>> {
+    const result = await this.searchDemographicRecordsByName(lawFirm, search, page, filters, options);
+    return {
+      ...result,
+      records: result.records.map(record => ({ ...toVersionedV1(record), relevance: record.relevance })),
+    };
   }
 
-  async softDeleteDemographic(id: string, lawFirm: string): Promise<void> {
+  /**
+   * Fuzzy name search: records whose names share a Soundex key with a word of
+   * the search are ranked by spelling and sound similarity, best first, and
+   * paged by offset.
+   */
+  async searchDemographicRecordsByName(
+    lawFirm: string,
+    search: string,
+    page: DemographicsPageRequest,
+    filters?: DemographicsFilters,
+    options?: DemographicsReadOptions
+  ): Promise<DemographicsPage<Scored<Versioned<DemographicsV2>>>> {
+    const keys = searchKeys(search);
+    if (keys.length === 0) return { records: [], has_more: false };
+
     const pool = await this.getPool();
     const request = pool.request();
 
-    await request
-      .input('id', sql.UniqueIdentifier, id)
-      .input('partitionKey', sql.VarChar(75), lawFirm)
-      .input('updated_at', sql.DateTime2, new Date())
-      .query(`
+    const conditions = ['partitionKey = @partitionKey', 'status != @deletedStatus'];
+    conditions.push(...bindDemographicsFilters(request, filters, await this.filterIndexes(filters)));
+    conditions.push(`id IN (
+      SELECT demographic_id FROM DemographicsNameKeys
+      WHERE partitionKey = @partitionKey AND phonetic_key IN (${keys.map((_, index) => `@key${index}`).join(', ')})
+    )`);
+
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+    request.input('deletedStatus', sql.VarChar(20), 'deleted');
+    request.input('candidates', sql.Int, NAME_SEARCH_CANDIDATE_LIMIT);
+    keys.forEach((key, index) => request.input(`key${index}`, sql.Char(4), key));
+
+    const result = await request.query(`
+      SELECT TOP (@candidates) * FROM Demographics
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY updated_at DESC
+    `);
+
+    const start = page.offset ?? 0;
+    const ranked = rankByRelevance(await Promise.all(result.recordset.map(row => this.readRow(row, options))), search);
+    const records = await this.attachCollections(ranked.slice(start, start + page.limit));
+
+    return { records, has_more: ranked.length > start + page.limit };
+  }
+
+  /**
+   * The law firm's records, not deleted, holding any of the external ids.
+   * One query per id field is unioned so each can seek its unique index.
+   */
+  async findDemographicsByExternalIds(
+    lawFirm: string,
+    ids: DemographicsExternalId[]
+  ): Promise<DemographicsExternalIdConflict[]> {
+    const fields = DEMOGRAPHICS_EXTERNAL_ID_FIELDS.filter(field => ids.some(id => id.field === field));
+    if (fields.length === 0) return [];
+
+    const request = (await this.getPool()).request();
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+
+    const queries = fields.map(field => {
+      const values = [...new Set(ids.filter(id => id.field === field).map(id => id.value))];
+      request.input(field, sql.NVarChar(sql.MAX), JSON.stringify(values));
+      return `
+        SELECT '${field}' AS field, ${field} AS value, id FROM Demographics
+        WHERE partitionKey = @partitionKey AND status != 'deleted'
+          AND ${field} IN (SELECT value FROM OPENJSON(@${field}))`;
+    });
+
+    const result = await request.query(queries.join('\n        UNION ALL'));
+
+    return result.recordset.map(row => ({
+      field: row.field,
+      value: row.value,
+      id: String(row.id).toLowerCase(),
+    }));
+  }
+
+  async findDuplicateDemographics(
+    lawFirm: string,
+    candidate: Partial<DemographicsCore>
+  ): Promise<DemographicsDuplicateMatch[]> {
+    const [duplicates] = await this.findDuplicateDemographicsBatch(lawFirm, [candidate]);
+    return duplicates;
+  }
+
+  /**
+   * Likely duplicates of each new record within the law firm, in one query.
+   * The query only narrows candidates by the match keys of every record,
+   * one unioned branch per key so each can seek its index, through the
+   * blind indexes for encrypted fields; scoring happens in
+   * demographics.matching on decrypted values that never leave this method.
+   */
+  async findDuplicateDemographicsBatch(
+    lawFirm: string,
+    candidates: Partial<DemographicsCore>[]
+  ): Promise<DemographicsDuplicateMatch[][]> {
+    const keys = candidates.map(candidate => duplicateMatchKeys(candidate));
+    const ssns = new Set<string>();
+    const dobLastnames: { dob: string; lastname: string }[] = [];
+    const emails = new Set<string>();
+    const phones = new Set<string>();
+
+    for (const [index, key] of keys.entries()) {
+      if (key.ssn && fieldEncryptionService.isEncrypted('ssn')) {
+        ssns.add((await fieldEncryptionService.blindIndex('ssn_bidx', key.ssn))!);
+      } else if (key.ssn) {
+        ssns.add(key.ssn).add(`${key.ssn.slice(0, 3)}-${key.ssn.slice(3, 5)}-${key.ssn.slice(5)}`);
+      }
+      const lastname = candidates[index].lastname?.trim();
+      if (key.dob && lastname) {
+        const dob = fieldEncryptionService.isEncrypted('dob')
+          ? (await fieldEncryptionService.blindIndex('dob_bidx', key.dob))!
+          : key.dob;
+        dobLastnames.push({ dob, lastname });
+      }
+      if (key.email) emails.add(key.email);
+      if (key.phone) phones.add(key.phone).add(`1${key.phone}`);
+    }
+
+    const request = (await this.getPool()).request();
+    const branches: string[] = [];
+    const branch = (condition: string) => `
+        SELECT id FROM Demographics
+        WHERE partitionKey = @partitionKey AND status != 'deleted' AND ${condition}`;
+
+    if (ssns.size > 0) {
+      request.input('ssns', sql.NVarChar(sql.MAX), JSON.stringify([...ssns]));
+      const column = fieldEncryptionService.isEncrypted('ssn') ? 'ssn_bidx' : 'ssn';
+      branches.push(branch(`${column} IN (SELECT value FROM OPENJSON(@ssns))`));
+    }
+    if (dobLastnames.length > 0) {
+      request.input('dobLastnames', sql.NVarChar(sql.MAX), JSON.stringify(dobLastnames));
+      branches.push(fieldEncryptionService.isEncrypted('dob')
+        ? branch(`EXISTS (
+          SELECT 1 FROM OPENJSON(@dobLastnames) WITH (dob VARCHAR(64), lastname NVARCHAR(75)) k
+          WHERE k.dob = dob_bidx AND k.lastname = Demographics.lastname)`)
+        : branch(`EXISTS (
+          SELECT 1 FROM OPENJSON(@dobLastnames) WITH (dob DATE, lastname NVARCHAR(75)) k
+          WHERE k.dob = Demographics.dob AND k.lastname = Demographics.lastname)`));
+    }
+    if (emails.size > 0) {
+      request.input('emails', sql.NVarChar(sql.MAX), JSON.stringify([...emails]));
+      branches.push(branch('email IN (SELECT value FROM OPENJSON(@emails))'));
+    }
+    if (phones.size > 0) {
+      request.input('phones', sql.NVarChar(sql.MAX), JSON.stringify([...phones]));
+      branches.push(branch('phone IN (SELECT value FROM OPENJSON(@phones))'));
+    }
+
+    if (branches.length === 0) return candidates.map(() => []);
+
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+    request.input('candidates', sql.Int, DUPLICATE_CANDIDATE_LIMIT * candidates.length);
+
+    const result = await request.query(`
+      SELECT TOP (@candidates) * FROM Demographics
+      WHERE id IN (${branches.join('\n        UNION')})
+    `);
+
+    const existing = await Promise.all(result.recordset.map(row => this.readRow(row, { pii: true })));
+    return candidates.map(candidate => findDuplicates(candidate, existing));
+  }
+
+  /**
+   * Apply column-level changes to a record. Every field is bound with the
+   * SQL type of its column; unknown and immutable fields are refused rather
+   * than interpolated into the statement. When expectedVersion is given the
+   * row version is compared in the same UPDATE, so a concurrent write can
+   * never be overwritten. The old and new values are written to
+   * DemographicsHistory in the same transaction. Encrypted fields are sealed
+   * into the record's envelope and masked in the returned record.
+   */
+  async updateDemographic(
+    id: string,
+    lawFirm: string,
+    changes: DemographicsChanges,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<Demographics>>> {
+    const pool = await this.getPool();
+    const columnChanges = updatableColumns(changes);
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let result: VersionedWriteResult<Versioned<DemographicsV2>>;
+    try {
+      result = await this.updateRecord(transaction, id, lawFirm, changes, columnChanges, expectedVersion, audit);
+      if (result.status !== 'ok') {
+        await transaction.rollback();
+        return result;
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographic updated', { id, fields: Object.keys(changes) });
+
+    return { status: 'ok', record: toVersionedV1(fieldEncryptionService.conceal(result.record)) };
+  }
+
+  /**
+   * Apply every update in one transaction, or none of them if a record is
+   * missing or a write fails
+   */
+  async updateDemographicsBatch(
+    lawFirm: string,
+    updates: { id: string; changes: DemographicsChanges }[],
+    audit?: AuditContext
+  ): Promise<DemographicsBulkUpdateResult<Versioned<Demographics>>> {
+    const pool = await this.getPool();
+    const columnChanges = updates.map(({ changes }) => updatableColumns(changes));
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    const records: Versioned<DemographicsV2>[] = [];
+    try {
+      for (const [index, { id, changes }] of updates.entries()) {
+        const result = await this.updateRecord(transaction, id, lawFirm, changes, columnChanges[index], undefined, audit);
+        if (result.status !== 'ok') {
+          await transaction.rollback();
+          return { status: 'not_found', index };
+        }
+        records.push(result.record);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographics batch updated', { lawFirm, count: updates.length });
+
+    return { status: 'ok', records: records.map(record => toVersionedV1(fieldEncryptionService.conceal(record))) };
+  }
+
+  /**
+   * Create the record, or apply the changes to the record already holding its
+   * law_firm_client_id. The lookup holds a key-range lock on the client id
+   * until the transaction ends, so concurrent upserts of one client id run
+   * one after the other: the first creates and the rest update.
+   */
+  async upsertDemographicByClientId(
+    record: Demographics,
+    changes: DemographicsChanges,
+    audit?: AuditContext
+  ): Promise<DemographicsUpsertResult<Versioned<Demographics>>> {
+    const pool = await this.getPool();
+    const created = toDemographicsV2(record);
+    const columnChanges = updatableColumns(changes);
+    const sealed = await fieldEncryptionService.seal(pickCoreFields(created));
+
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let result: DemographicsUpsertResult<Versioned<DemographicsV2>>;
+    try {
+      const existing = await new sql.Request(transaction)
+        .input('partitionKey', sql.VarChar(75), record.partitionKey)
+        .input('law_firm_client_id', sql.NVarChar(50), record.law_firm_client_id)
+        .query(`
+          SELECT id FROM Demographics WITH (UPDLOCK, HOLDLOCK)
+          WHERE partitionKey = @partitionKey AND law_firm_client_id = @law_firm_client_id AND status != 'deleted'
+        `);
+
+      if (existing.recordset.length === 0) {
+        await this.insertRecord(transaction, created, sealed, audit);
+        const inserted = await this.selectRecord(transaction, created.id, record.partitionKey, false, { pii: true });
+        result = { status: 'created', record: inserted! };
+      } else {
+        const id = String(existing.recordset[0].id).toLowerCase();
+        const updated = await this.updateRecord(transaction, id, record.partitionKey, changes, columnChanges, undefined, audit);
+        // The row is locked, so the update cannot miss it
+        if (updated.status !== 'ok') throw new Error(`Demographic ${id} could not be updated`);
+        result = { status: 'updated', record: updated.record };
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographic upserted', { id: result.record.id, law_firm: record.law_firm, status: result.status });
+
+    return { status: result.status, record: toVersionedV1(fieldEncryptionService.conceal(result.record)) };
+  }
+
+  async softDeleteDemographic(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<{ row_version: string; deleted_at: string }>> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let rowVersion: string;
+    const updatedAt = new Date();
+    try {
+      const before = await this.selectRecord(transaction, id, lawFirm, true);
+
+      const request = new sql.Request(transaction);
+      request
+        .input('id', sql.UniqueIdentifier, id)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('updated_at', sql.DateTime2, updatedAt);
+
+      const result = await request.query(`
         UPDATE Demographics 
-        SET status = 'deleted', updated_at = @updated_at
-        WHERE id = @id AND partitionKey = @partitionKey
+        SET status = 'deleted', deleted_at = @updated_at, updated_at = @updated_at
+        OUTPUT INSERTED.row_version
+        WHERE id = @id AND partitionKey = @partitionKey AND status != 'deleted'
+          ${this.bindVersionCheck(request, expectedVersion)}
       `);
 
+      if (result.recordset.length === 0 || !before) {
+        const failure = await this.versionFailure(new sql.Request(transaction), id, lawFirm);
+        await transaction.rollback();
+        return failure;
+      }
+
+      rowVersion = fromRowVersion(result.recordset[0].row_version);
+      const deleted = {
+        ...before,
+        status: 'deleted' as const,
+        deleted_at: updatedAt.toISOString(),
+        updated_at: updatedAt.toISOString(),
+      };
+      await this.insertHistory(transaction, deleted, 'delete', diffDemographics(before, deleted), audit);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
     logger.info('Demographic soft deleted', { id });
+
+    return { status: 'ok', record: { row_version: rowVersion, deleted_at: updatedAt.toISOString() } };
+  }
+
+  /**
+   * Undo a soft delete, putting back the status the record had before it.
+   * Its external ids count as taken again, so a restore whose ids another
+   * record has taken since fails on the unique indexes.
+   */
+  async restoreDemographic(
+    id: string,
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<Demographics>>> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let restored: Versioned<DemographicsV2> | null;
+    try {
+      const before = await this.selectRecord(transaction, id, lawFirm, true, { pii: true });
+      if (!before || before.status !== 'deleted') {
+        await transaction.rollback();
+        return { status: 'not_found' };
+      }
+
+      const deletion = await new sql.Request(transaction)
+        .input('demographic_id', sql.UniqueIdentifier, id)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .query(`
+          SELECT TOP 1 changes FROM DemographicsHistory
+          WHERE demographic_id = @demographic_id AND partitionKey = @partitionKey AND action = 'delete'
+          ORDER BY changed_at DESC, id DESC
+        `);
+      const deletedChanges = deletion.recordset[0] ? JSON.parse(deletion.recordset[0].changes) : undefined;
+
+      const request = new sql.Request(transaction);
+      request
+        .input('id', sql.UniqueIdentifier, id)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('status', sql.VarChar(20), statusBeforeDelete(deletedChanges))
+        .input('updated_at', sql.DateTime2, new Date());
+
+      const result = await request.query(`
+        UPDATE Demographics SET status = @status, deleted_at = NULL, updated_at = @updated_at
+        WHERE id = @id AND partitionKey = @partitionKey AND status = 'deleted'
+          ${this.bindVersionCheck(request, expectedVersion)}
+      `);
+
+      // The row is locked, so only the version check can have stopped the update
+      if (result.rowsAffected[0] === 0) {
+        await transaction.rollback();
+        return { status: 'version_mismatch', current_version: before.row_version };
+      }
+
+      restored = await this.selectRecord(transaction, id, lawFirm, false, { pii: true });
+      await this.insertHistory(transaction, restored!, 'restore', diffDemographics(before, restored!), audit);
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographic restored', { id });
+
+    return { status: 'ok', record: toVersionedV1(fieldEncryptionService.conceal(restored!)) };
+  }
+
+  /**
+   * Merge duplicates into the record at id. Empty fields and collections of
+   * the survivor are filled from the sources, the sources are soft deleted
+   * with merged_into pointing at the survivor, and every record gets a merge
+   * history entry, all in one transaction. The survivor's version is checked
+   * like an update.
+   */
+  async mergeDemographics(
+    id: string,
+    sourceIds: string[],
+    lawFirm: string,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<DemographicsMergeResult<Versioned<Demographics>>> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    let updated: Versioned<DemographicsV2> | null;
+    try {
+      // Decrypted so encrypted fields can be carried over from the sources
+      const before = await this.selectRecord(transaction, id, lawFirm, true, { pii: true });
+
+      const sources: Versioned<DemographicsV2>[] = [];
+      const missing: string[] = [];
+      for (const sourceId of sourceIds) {
+        const source = await this.selectRecord(transaction, sourceId, lawFirm, true, { pii: true });
+        if (source && source.status !== 'deleted' && source.id.toLowerCase() !== id.toLowerCase()) {
+          sources.push(source);
+        } else {
+          missing.push(sourceId);
+        }
+      }
+
+      if (!before || before.status === 'deleted' || missing.length > 0) {
+        await transaction.rollback();
+        return !before || before.status === 'deleted'
+          ? { status: 'not_found' }
+          : { status: 'source_not_found', source_ids: missing };
+      }
+
+      const merged = mergeDuplicateRecords(before, sources);
+      const filled = diffDemographics(before, merged).map(change => change.field);
+      const columns = filled
+        .map(field => DEMOGRAPHICS_COLUMN_MAP.get(field))
+        .filter((column): column is DemographicsColumn => column !== undefined);
+      const updatedAt = new Date();
+
+      // Sources are retired first: the survivor may take over their external ids, which are unique
+      const sourceRequest = new sql.Request(transaction);
+      sourceRequest.input('id', sql.UniqueIdentifier, id);
+      sourceRequest.input('partitionKey', sql.VarChar(75), lawFirm);
+      sourceRequest.input('updated_at', sql.DateTime2, updatedAt);
+      sources.forEach((source, index) => sourceRequest.input(`source${index}`, sql.UniqueIdentifier, source.id));
+      await sourceRequest.query(`
+        UPDATE Demographics SET status = 'deleted', merged_into = @id, deleted_at = @updated_at, updated_at = @updated_at
+        WHERE partitionKey = @partitionKey AND id IN (${sources.map((_, index) => `@source${index}`).join(', ')})
+      `);
+
+      const request = new sql.Request(transaction);
+      request.input('id', sql.UniqueIdentifier, id);
+      request.input('partitionKey', sql.VarChar(75), lawFirm);
+      request.input('updated_at', sql.DateTime2, updatedAt);
+      const assignments = await this.bindColumnChanges(transaction, request, id, columns, merged);
+
+      const setClause = [...assignments, 'updated_at = @updated_at'];
+      const result = await request.query(`
+        UPDATE Demographics SET ${setClause.join(', ')}
+        WHERE id = @id AND partitionKey = @partitionKey AND status != 'deleted'
+          ${this.bindVersionCheck(request, expectedVersion)}
+      `);
+
+      if (result.rowsAffected[0] === 0) {
+        const failure = await this.versionFailure(new sql.Request(transaction), id, lawFirm);
+        await transaction.rollback();
+        return failure;
+      }
+
+      if (filled.some(field => !DEMOGRAPHICS_COLUMN_MAP.has(field))) {
+        await this.deleteCollections(transaction, id);
+        await this.insertCollections(transaction, merged);
+      }
+      if (columns.some(column => NAME_SEARCH_FIELDS.has(column.name))) {
+        await this.replaceNameKeys(transaction, merged);
+      }
+
+      updated = await this.selectRecord(transaction, id, lawFirm, false, { pii: true });
+      if (updated) {
+        const changes = [
+          ...diffDemographics(before, updated),
+          { field: 'merged_from', old_value: null, new_value: sources.map(source => source.id) },
+        ];
+        await this.insertHistory(transaction, updated, 'merge', changes, audit);
+      }
+
+      for (const source of sources) {
+        const after = {
+          ...source,
+          status: 'deleted' as const,
+          merged_into: id,
+          deleted_at: updatedAt.toISOString(),
+          updated_at: updatedAt.toISOString(),
+        };
+        await this.insertHistory(transaction, after, 'merge', diffDemographics(source, after), audit);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographics merged', { id, sourceIds });
+
+    return updated ? { status: 'ok', record: toVersionedV1(fieldEncryptionService.conceal(updated)) } : { status: 'not_found' };
+  }
+
+  // Business rule settings
+  async getDemographicsRuleSeverities(lawFirm: string): Promise<Record<string, RuleSeverity>> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT rule_code, severity FROM DemographicsRuleSettings WHERE law_firm = @law_firm`);
+
+    return Object.fromEntries(result.recordset.map(row => [row.rule_code, row.severity as RuleSeverity]));
+  }
+
+  async setDemographicsRuleSeverity(
+    lawFirm: string,
+    code: string,
+    severity: RuleSeverity,
+    updatedBy: string
+  ): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .input('rule_code', sql.NVarChar(64), code)
+      .input('severity', sql.NVarChar(10), severity)
+      .input('updated_by', sql.NVarChar(50), updatedBy)
+      .query(`
+        MERGE DemographicsRuleSettings WITH (HOLDLOCK) AS target
+        USING (SELECT @law_firm AS law_firm, @rule_code AS rule_code) AS source
+          ON target.law_firm = source.law_firm AND target.rule_code = source.rule_code
+        WHEN MATCHED THEN
+          UPDATE SET severity = @severity, updated_by = @updated_by, updated_at = SYSUTCDATETIME()
+        WHEN NOT MATCHED THEN
+          INSERT (law_firm, rule_code, severity, updated_by, updated_at)
+          VALUES (@law_firm, @rule_code, @severity, @updated_by, SYSUTCDATETIME());
+      `);
+  }
+
+  // Retention of soft deleted records
+  async getDemographicsRetentionSettings(): Promise<DemographicsRetentionSetting[]> {
+    const pool = await this.getPool();
+    const result = await pool.request().query(`SELECT * FROM DemographicsRetentionSettings`);
+
+    return result.recordset.map(row => this.mapRetentionSetting(row));
+  }
+
+  async getDemographicsRetentionSetting(lawFirm: string): Promise<DemographicsRetentionSetting | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT * FROM DemographicsRetentionSettings WHERE law_firm = @law_firm`);
+
+    return result.recordset.length > 0 ? this.mapRetentionSetting(result.recordset[0]) : null;
+  }
+
+  async setDemographicsRetentionDays(lawFirm: string, retentionDays: number | null, updatedBy: string): Promise<void> {
+    const pool = await this.getPool();
+    const request = pool.request()
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .input('retention_days', sql.Int, retentionDays)
+      .input('updated_by', sql.NVarChar(50), updatedBy);
+
+    if (retentionDays === null) {
+      await request.query(`DELETE FROM DemographicsRetentionSettings WHERE law_firm = @law_firm`);
+      return;
+    }
+
+    await request.query(`
+      MERGE DemographicsRetentionSettings WITH (HOLDLOCK) AS target
+      USING (SELECT @law_firm AS law_firm) AS source
+        ON target.law_firm = source.law_firm
+      WHEN MATCHED THEN
+        UPDATE SET retention_days = @retention_days, updated_by = @updated_by, updated_at = SYSUTCDATETIME()
+      WHEN NOT MATCHED THEN
+        INSERT (law_firm, retention_days, updated_by, updated_at)
+        VALUES (@law_firm, @retention_days, @updated_by, SYSUTCDATETIME());
+    `);
+  }
+
+  async getDemographicsLegalHold(id: string, lawFirm: string): Promise<DemographicsLegalHold | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('demographic_id', sql.UniqueIdentifier, id)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT * FROM DemographicsLegalHolds WHERE demographic_id = @demographic_id AND law_firm = @law_firm`);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    return {
+      demographic_id: String(row.demographic_id).toLowerCase(),
+      law_firm: row.law_firm,
+      reason: row.reason,
+      placed_by: row.placed_by ?? undefined,
+      placed_at: row.placed_at.toISOString(),
+    };
+  }
+
+  /**
+   * Place or replace a record's legal hold. The record row is locked while
+   * the hold is written, so a purge that has already picked the record
+   * finishes first and the hold then finds nothing to hold.
+   */
+  async placeDemographicsLegalHold(hold: DemographicsLegalHold): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('demographic_id', sql.UniqueIdentifier, hold.demographic_id)
+      .input('law_firm', sql.NVarChar(75), hold.law_firm)
+      .input('reason', sql.NVarChar(500), hold.reason)
+      .input('placed_by', sql.NVarChar(50), hold.placed_by ?? null)
+      .input('placed_at', sql.DateTime2, new Date(hold.placed_at))
+      .query(`
+        MERGE DemographicsLegalHolds WITH (HOLDLOCK) AS target
+        USING (
+          SELECT id FROM Demographics WITH (UPDLOCK, ROWLOCK)
+          WHERE id = @demographic_id AND partitionKey = @law_firm
+        ) AS source
+          ON target.demographic_id = source.id
+        WHEN MATCHED THEN
+          UPDATE SET reason = @reason, placed_by = @placed_by, placed_at = @placed_at
+        WHEN NOT MATCHED THEN
+          INSERT (demographic_id, law_firm, reason, placed_by, placed_at)
+          VALUES (source.id, @law_firm, @reason, @placed_by, @placed_at);
+      `);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  async releaseDemographicsLegalHold(id: string, lawFirm: string): Promise<boolean> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('demographic_id', sql.UniqueIdentifier, id)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`DELETE FROM DemographicsLegalHolds WHERE demographic_id = @demographic_id AND law_firm = @law_firm`);
+
+    return result.rowsAffected[0] > 0;
+  }
+
+  /**
+   * Permanently delete the oldest records soft deleted before the cutoff
+   * that have no legal hold. Their collections and name keys go with them
+   * by cascade and their history is deleted, so nothing of their data is
+   * left; a tombstone records each one. Rows locked by another purge are
+   * skipped rather than waited for.
+   */
+  async purgeDeletedDemographics(
+    lawFirm: string,
+    deletedBefore: Date,
+    retentionDays: number,
+    limit: number
+  ): Promise<DemographicsTombstone[]> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+
+    const tombstones: DemographicsTombstone[] = [];
+    try {
+      const expired = await new sql.Request(transaction)
+        .input('partitionKey', sql.VarChar(75), lawFirm)
+        .input('deleted_before', sql.DateTime2, deletedBefore)
+        .input('limit', sql.Int, limit)
+        .query(`
+          SELECT TOP (@limit) d.id, d.sf_id, d.law_firm_client_id, d.deleted_at,
+            (SELECT COUNT(*) FROM DemographicsHistory h WHERE h.demographic_id = d.id) AS history_entries
+          FROM Demographics d WITH (UPDLOCK, ROWLOCK, READPAST)
+          WHERE d.partitionKey = @partitionKey AND d.status = 'deleted' AND d.deleted_at < @deleted_before
+            AND NOT EXISTS (SELECT 1 FROM DemographicsLegalHolds l WHERE l.demographic_id = d.id)
+          ORDER BY d.deleted_at
+        `);
+
+      if (expired.recordset.length === 0) {
+        await transaction.commit();
+        return [];
+      }
+
+      const purgedAt = new Date();
+      const request = new sql.Request(transaction);
+      request.input('partitionKey', sql.VarChar(75), lawFirm);
+      expired.recordset.forEach((row, index) => request.input(`id${index}`, sql.UniqueIdentifier, row.id));
+      const ids = expired.recordset.map((_, index) => `@id${index}`).join(', ');
+      await request.query(`
+        DELETE FROM DemographicsHistory WHERE demographic_id IN (${ids});
+        DELETE FROM Demographics WHERE partitionKey = @partitionKey AND id IN (${ids});
+      `);
+
+      for (const row of expired.recordset) {
+        const tombstone: DemographicsTombstone = {
+          demographic_id: String(row.id).toLowerCase(),
+          law_firm: lawFirm,
+          ...(row.sf_id && { sf_id: row.sf_id }),
+          ...(row.law_firm_client_id && { law_firm_client_id: row.law_firm_client_id }),
+          deleted_at: row.deleted_at.toISOString(),
+          purged_at: purgedAt.toISOString(),
+          retention_days: retentionDays,
+          history_entries: row.history_entries,
+        };
+
+        await new sql.Request(transaction)
+          .input('demographic_id', sql.UniqueIdentifier, tombstone.demographic_id)
+          .input('law_firm', sql.NVarChar(75), lawFirm)
+          .input('sf_id', sql.NVarChar(50), tombstone.sf_id ?? null)
+          .input('law_firm_client_id', sql.NVarChar(50), tombstone.law_firm_client_id ?? null)
+          .input('deleted_at', sql.DateTime2, row.deleted_at)
+          .input('purged_at', sql.DateTime2, purgedAt)
+          .input('retention_days', sql.Int, retentionDays)
+          .input('history_entries', sql.Int, tombstone.history_entries)
+          .query(`
+            INSERT INTO DemographicsTombstones (
+              demographic_id, law_firm, sf_id, law_firm_client_id, deleted_at, purged_at, retention_days, history_entries
+            ) VALUES (
+              @demographic_id, @law_firm, @sf_id, @law_firm_client_id, @deleted_at, @purged_at, @retention_days, @history_entries
+            )
+          `);
+        tombstones.push(tombstone);
+      }
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    logger.info('Demographics purged', { lawFirm, count: tombstones.length });
+
+    return tombstones;
+  }
+
+  async getDemographicsTombstone(id: string, lawFirm: string): Promise<DemographicsTombstone | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('demographic_id', sql.UniqueIdentifier, id)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT * FROM DemographicsTombstones WHERE demographic_id = @demographic_id AND law_firm = @law_firm`);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    return {
+      demographic_id: String(row.demographic_id).toLowerCase(),
+      law_firm: row.law_firm,
+      ...(row.sf_id && { sf_id: row.sf_id }),
+      ...(row.law_firm_client_id && { law_firm_client_id: row.law_firm_client_id }),
+      deleted_at: row.deleted_at.toISOString(),
+      purged_at: row.purged_at.toISOString(),
+      retention_days: row.retention_days,
+      history_entries: row.history_entries,
+    };
+  }
+
+  async createDemographicsImport(job: DemographicsImport): Promise<void> {
+    const pool = await this.getPool();
+    await this.bindImport(pool.request(), job).query(`
+      INSERT INTO DemographicsImports (
+        id, law_firm, file_name, format, status, total_rows, processed_rows, queued_rows, rejected_rows,
+        unmapped_columns, error, created_by, created_at, updated_at, completed_at
+      ) VALUES (
+        @id, @law_firm, @file_name, @format, @status, @total_rows, @processed_rows, @queued_rows, @rejected_rows,
+        @unmapped_columns, @error, @created_by, @created_at, @updated_at, @completed_at
+      )
+    `);
+  }
+
+  async updateDemographicsImport(job: DemographicsImport): Promise<void> {
+    const pool = await this.getPool();
+    await this.bindImport(pool.request(), job).query(`
+      UPDATE DemographicsImports
+      SET status = @status, total_rows = @total_rows, processed_rows = @processed_rows,
+          queued_rows = @queued_rows, rejected_rows = @rejected_rows, unmapped_columns = @unmapped_columns,
+          error = @error, updated_at = @updated_at, completed_at = @completed_at
+      WHERE id = @id AND law_firm = @law_firm
+    `);
+  }
+
+  async getDemographicsImport(id: string, lawFirm: string): Promise<DemographicsImport | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT * FROM DemographicsImports WHERE id = @id AND law_firm = @law_firm`);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    return {
+      id: String(row.id).toLowerCase(),
+      law_firm: row.law_firm,
+      file_name: row.file_name,
+      format: row.format,
+      status: row.status,
+      total_rows: row.total_rows,
+      processed_rows: row.processed_rows,
+      queued_rows: row.queued_rows,
+      rejected_rows: row.rejected_rows,
+      unmapped_columns: JSON.parse(row.unmapped_columns),
+      error: row.error ?? undefined,
+      created_by: row.created_by,
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      completed_at: row.completed_at?.toISOString(),
+    };
+  }
+
+  async addDemographicsImportErrors(importId: string, errors: DemographicsImportError[]): Promise<void> {
+    if (errors.length === 0) return;
+
+    const pool = await this.getPool();
+    await pool.request()
+      .input('import_id', sql.UniqueIdentifier, importId)
+      .input('errors', sql.NVarChar(sql.MAX), JSON.stringify(errors))
+      .query(`
+        INSERT INTO DemographicsImportErrors (import_id, row_number, field, message)
+        SELECT @import_id, row_number, field, message
+        FROM OPENJSON(@errors) WITH (
+          row_number INT '$.row',
+          field NVARCHAR(255) '$.field',
+          message NVARCHAR(1000) '$.message'
+        )
+      `);
+  }
+
+  async getDemographicsImportErrors(id: string, lawFirm: string): Promise<DemographicsImportError[]> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`
+        SELECT e.row_number, e.field, e.message
+        FROM DemographicsImportErrors e
+        INNER JOIN DemographicsImports i ON i.id = e.import_id
+        WHERE e.import_id = @id AND i.law_firm = @law_firm
+        ORDER BY e.row_number, e.id
+      `);
+
+    return result.recordset.map(row => ({ row: row.row_number, field: row.field, message: row.message }));
+  }
+
+  async getDemographicsImportAliases(lawFirm: string): Promise<Record<string, string>> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT header, field FROM DemographicsImportAliases WHERE law_firm = @law_firm`);
+
+    return Object.fromEntries(result.recordset.map(row => [row.header, row.field]));
+  }
+
+  async setDemographicsImportAliases(
+    lawFirm: string,
+    aliases: Record<string, string>,
+    updatedBy: string
+  ): Promise<void> {
+    const pool = await this.getPool();
+    const transaction = new sql.Transaction(pool);
+
+    await transaction.begin();
+    try {
+      await new sql.Request(transaction)
+        .input('law_firm', sql.NVarChar(75), lawFirm)
+        .input('aliases', sql.NVarChar(sql.MAX), JSON.stringify(aliases))
+        .input('updated_by', sql.NVarChar(50), updatedBy)
+        .query(`
+          DELETE FROM DemographicsImportAliases WHERE law_firm = @law_firm;
+
+          INSERT INTO DemographicsImportAliases (law_firm, header, field, updated_by, updated_at)
+          SELECT @law_firm, [key], [value], @updated_by, SYSUTCDATETIME()
+          FROM OPENJSON(@aliases);
+        `);
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+  }
+
+  async createDemographicsBatchJob(batch: DemographicsBatch): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, batch.correlation_id)
+      .input('law_firm', sql.NVarChar(75), batch.law_firm)
+      .input('batch_size', sql.Int, batch.batch_size)
+      .input('status', sql.NVarChar(20), batch.status)
+      .input('webhook_url', sql.NVarChar(2048), batch.webhook_url ?? null)
+      .input('notify_on_completion', sql.Bit, batch.notify_on_completion)
+      .input('created_at', sql.DateTime2, new Date(batch.created_at))
+      .input('items', sql.NVarChar(sql.MAX), JSON.stringify(batch.items))
+      .query(`
+        INSERT INTO DemographicsBatches (
+          correlation_id, law_firm, batch_size, status, webhook_url, notify_on_completion, created_at, updated_at
+        ) VALUES (
+          @correlation_id, @law_firm, @batch_size, @status, @webhook_url, @notify_on_completion, @created_at, @created_at
+        );
+
+        INSERT INTO DemographicsBatchItems (correlation_id, batch_index, demographic_id, status, reason, updated_at)
+        SELECT @correlation_id, batch_index, demographic_id, status, reason, @created_at
+        FROM OPENJSON(@items) WITH (
+          batch_index INT '$.index',
+          demographic_id UNIQUEIDENTIFIER '$.id',
+          status NVARCHAR(20) '$.status',
+          reason NVARCHAR(1000) '$.reason'
+        );
+      `);
+  }
+
+  async getDemographicsBatchJob(correlationId: string, lawFirm: string): Promise<DemographicsBatch | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`
+        SELECT * FROM DemographicsBatches WHERE correlation_id = @correlation_id AND law_firm = @law_firm;
+
+        SELECT batch_index, demographic_id, status, reason, updated_at
+        FROM DemographicsBatchItems
+        WHERE correlation_id = @correlation_id
+          AND EXISTS (SELECT 1 FROM DemographicsBatches WHERE correlation_id = @correlation_id AND law_firm = @law_firm)
+        ORDER BY batch_index;
+      `);
+
+    const [batches, items] = result.recordsets as sql.IRecordSet<Record<string, any>>[];
+    const row = batches[0];
+    if (!row) return null;
+
+    return {
+      correlation_id: String(row.correlation_id).toLowerCase(),
+      law_firm: row.law_firm,
+      batch_size: row.batch_size,
+      status: row.status,
+      webhook_url: row.webhook_url ?? undefined,
+      notify_on_completion: row.notify_on_completion,
+      items: items.map(item => ({
+        index: item.batch_index,
+        id: item.demographic_id ? String(item.demographic_id).toLowerCase() : undefined,
+        status: item.status,
+        reason: item.reason ?? undefined,
+        updated_at: item.updated_at.toISOString(),
+      })),
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      completed_at: row.completed_at?.toISOString(),
+    };
+  }
+
+  async updateDemographicsBatchItem(
+    correlationId: string,
+    index: number,
+    status: DemographicsBatchItemStatus,
+    reason?: string
+  ): Promise<void> {
+    const pool = await this.getPool();
+    await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .input('batch_index', sql.Int, index)
+      .input('status', sql.NVarChar(20), status)
+      .input('reason', sql.NVarChar(1000), reason ?? null)
+      .query(`
+        UPDATE DemographicsBatchItems
+        SET status = @status, reason = @reason, updated_at = SYSUTCDATETIME()
+        WHERE correlation_id = @correlation_id AND batch_index = @batch_index;
+
+        UPDATE DemographicsBatches SET updated_at = SYSUTCDATETIME() WHERE correlation_id = @correlation_id;
+      `);
+  }
+
+  async completeDemographicsBatchJob(correlationId: string): Promise<string | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('correlation_id', sql.UniqueIdentifier, correlationId)
+      .query(`
+        UPDATE DemographicsBatches
+        SET status = 'completed', updated_at = SYSUTCDATETIME(), completed_at = SYSUTCDATETIME()
+        OUTPUT inserted.law_firm
+        WHERE correlation_id = @correlation_id AND status = 'processing'
+          AND NOT EXISTS (
+            SELECT 1 FROM DemographicsBatchItems
+            WHERE correlation_id = @correlation_id AND status NOT IN ('processed', 'failed')
+          )
+      `);
+
+    return result.recordset[0]?.law_firm ?? null;
+  }
+
+  async createDemographicsExport(job: DemographicsExport): Promise<void> {
+    const pool = await this.getPool();
+    await this.bindExport(pool.request(), job).query(`
+      INSERT INTO DemographicsExports (
+        id, law_firm, format, fields, filters, sort, status, pii, row_count, blob_name, error,
+        created_by, created_at, updated_at, completed_at
+      ) VALUES (
+        @id, @law_firm, @format, @fields, @filters, @sort, @status, @pii, @row_count, @blob_name, @error,
+        @created_by, @created_at, @updated_at, @completed_at
+      )
+    `);
+  }
+
+  async updateDemographicsExport(job: DemographicsExport): Promise<void> {
+    const pool = await this.getPool();
+    await this.bindExport(pool.request(), job).query(`
+      UPDATE DemographicsExports
+      SET status = @status, row_count = @row_count, blob_name = @blob_name, error = @error,
+          updated_at = @updated_at, completed_at = @completed_at
+      WHERE id = @id AND law_firm = @law_firm
+    `);
+  }
+
+  async getDemographicsExport(id: string, lawFirm: string): Promise<DemographicsExport | null> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('id', sql.UniqueIdentifier, id)
+      .input('law_firm', sql.NVarChar(75), lawFirm)
+      .query(`SELECT * FROM DemographicsExports WHERE id = @id AND law_firm = @law_firm`);
+
+    const row = result.recordset[0];
+    if (!row) return null;
+
+    return {
+      id: String(row.id).toLowerCase(),
+      law_firm: row.law_firm,
+      format: row.format,
+      fields: JSON.parse(row.fields),
+      filters: JSON.parse(row.filters),
+      sort: JSON.parse(row.sort),
+      status: row.status,
+      pii: row.pii,
+      row_count: row.row_count,
+      blob_name: row.blob_name ?? undefined,
+      error: row.error ?? undefined,
+      created_by: row.created_by,
+      created_at: row.created_at.toISOString(),
+      updated_at: row.updated_at.toISOString(),
+      completed_at: row.completed_at?.toISOString(),
+    };
+  }
+
+  async failStaleDemographicsExports(staleBefore: Date, error: string): Promise<number> {
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('stale_before', sql.DateTime2, staleBefore)
+      .input('error', sql.NVarChar(1000), error)
+      .query(`
+        UPDATE DemographicsExports
+        SET status = 'failed', error = @error, updated_at = SYSUTCDATETIME(), completed_at = SYSUTCDATETIME()
+        WHERE status IN ('pending', 'processing') AND updated_at < @stale_before
+      `);
+
+    return result.rowsAffected[0];
+  }
+
+  private mapRetentionSetting(row: Record<string, any>): DemographicsRetentionSetting {
+    return {
+      law_firm: row.law_firm,
+      retention_days: row.retention_days,
+      updated_by: row.updated_by ?? undefined,
+      updated_at: row.updated_at.toISOString(),
+    };
+  }
+
+  private bindImport(request: sql.Request, job: DemographicsImport): sql.Request {
+    return request
+      .input('id', sql.UniqueIdentifier, job.id)
+      .input('law_firm', sql.NVarChar(75), job.law_firm)
+      .input('file_name', sql.NVarChar(255), job.file_name)
+      .input('format', sql.NVarChar(10), job.format)
+      .input('status', sql.NVarChar(20), job.status)
+      .input('total_rows', sql.Int, job.total_rows)
+      .input('processed_rows', sql.Int, job.processed_rows)
+      .input('queued_rows', sql.Int, job.queued_rows)
+      .input('rejected_rows', sql.Int, job.rejected_rows)
+      .input('unmapped_columns', sql.NVarChar(sql.MAX), JSON.stringify(job.unmapped_columns))
+      .input('error', sql.NVarChar(1000), job.error ?? null)
+      .input('created_by', sql.NVarChar(50), job.created_by)
+      .input('created_at', sql.DateTime2, new Date(job.created_at))
+      .input('updated_at', sql.DateTime2, new Date(job.updated_at))
+      .input('completed_at', sql.DateTime2, job.completed_at ? new Date(job.completed_at) : null);
+  }
+
+  private bindExport(request: sql.Request, job: DemographicsExport): sql.Request {
+    return request
+      .input('id', sql.UniqueIdentifier, job.id)
+      .input('law_firm', sql.NVarChar(75), job.law_firm)
+      .input('format', sql.NVarChar(10), job.format)
+      .input('fields', sql.NVarChar(sql.MAX), JSON.stringify(job.fields))
+      .input('filters', sql.NVarChar(sql.MAX), JSON.stringify(job.filters))
+      .input('sort', sql.NVarChar(sql.MAX), JSON.stringify(job.sort))
+      .input('status', sql.NVarChar(20), job.status)
+      .input('pii', sql.Bit, job.pii)
+      .input('row_count', sql.Int, job.row_count)
+      .input('blob_name', sql.NVarChar(1024), job.blob_name ?? null)
+      .input('error', sql.NVarChar(1000), job.error ?? null)
+      .input('created_by', sql.NVarChar(50), job.created_by)
+      .input('created_at', sql.DateTime2, new Date(job.created_at))
+      .input('updated_at', sql.DateTime2, new Date(job.updated_at))
+      .input('completed_at', sql.DateTime2, job.completed_at ? new Date(job.completed_at) : null);
+  }
+
+  /**
+   * Seal plaintext left in the encrypted fields' columns by rows written
+   * before encryption was enabled. Rows changed since they were read are
+   * skipped and picked up by a later call. Returns the number of rows
+   * sealed; call until it returns 0.
+   */
+  async sealPlaintextPii(limit: number = PII_BACKFILL_BATCH_SIZE): Promise<number> {
+    const fields = fieldEncryptionService.fields;
+    if (fields.length === 0) return 0;
+
+    const pool = await this.getPool();
+    const result = await pool.request()
+      .input('limit', sql.Int, limit)
+      .query(`
+        SELECT TOP (@limit) * FROM Demographics
+        WHERE ${fields.map(field => `${field} IS NOT NULL`).join(' OR ')}
+      `);
+
+    let sealedRows = 0;
+    for (const row of result.recordset) {
+      const record = mapDemographicsRow(row) as Record<string, unknown>;
+      const plaintext = Object.fromEntries(fields.map(field => [field, record[field]]));
+      const sealed = await fieldEncryptionService.seal(plaintext, row.pii_envelope);
+
+      const request = pool.request()
+        .input('id', sql.UniqueIdentifier, row.id)
+        .input('row_version', sql.Binary, row.row_version)
+        .input('pii_envelope', sql.NVarChar(sql.MAX), sealed.envelope);
+      const assignments = Object.entries(sealed.indexes).map(([column, value]) => {
+        request.input(column, sql.VarChar(64), value);
+        return `${column} = @${column}`;
+      });
+
+      const update = await request.query(`
+        UPDATE Demographics
+        SET ${[...fields.map(field => `${field} = NULL`), ...assignments, 'pii_envelope = @pii_envelope'].join(', ')}
+        WHERE id = @id AND row_version = @row_version
+      `);
+      sealedRows += update.rowsAffected[0];
+    }
+
+    logger.info('Plaintext PII sealed', { rows: sealedRows });
+    return sealedRows;
+  }
+
+  /**
+   * Insert a new record with its collections, name keys and history
+   */
+  private async insertRecord(
+    transaction: sql.Transaction,
+    record: DemographicsV2,
+    sealed: SealedPii,
+    audit?: AuditContext
+  ): Promise<void> {
+    const columns = [...DEMOGRAPHICS_COLUMNS.map(column => column.name), 'pii_envelope', ...BLIND_INDEX_COLUMNS];
+
+    const request = new sql.Request(transaction);
+    bindDemographicsInputs(request, fieldEncryptionService.strip(pickCoreFields(record)));
+    this.bindSealedPii(request, sealed);
+    await request.query(`
+      INSERT INTO Demographics (
+        ${columns.join(', ')}
+      ) VALUES (
+        ${columns.map(column => `@${column}`).join(', ')}
+      )
+    `);
+
+    await this.insertCollections(transaction, record);
+    await this.replaceNameKeys(transaction, record);
+
+    const created = normalizeCollections(record);
+    await this.insertHistory(transaction, created, 'create', diffDemographics(null, created), audit);
+  }
+
+  /**
+   * Apply changes to a record, with its collections, name keys and history.
+   * A failed write is returned for the caller to roll back.
+   */
+  private async updateRecord(
+    transaction: sql.Transaction,
+    id: string,
+    lawFirm: string,
+    changes: DemographicsChanges,
+    { columns, values }: ColumnChanges,
+    expectedVersion?: ExpectedVersion,
+    audit?: AuditContext
+  ): Promise<VersionedWriteResult<Versioned<DemographicsV2>>> {
+    const before = await this.selectRecord(transaction, id, lawFirm, true, { pii: true });
+
+    const request = new sql.Request(transaction);
+    request.input('id', sql.UniqueIdentifier, id);
+    request.input('partitionKey', sql.VarChar(75), lawFirm);
+    request.input('updated_at', sql.DateTime2, new Date());
+    const assignments = await this.bindColumnChanges(transaction, request, id, columns, values);
+    const setClause = [...assignments, 'updated_at = @updated_at'];
+
+    const result = await request.query(`
+      UPDATE Demographics SET ${setClause.join(', ')}
+      WHERE id = @id AND partitionKey = @partitionKey AND status != 'deleted'
+        ${this.bindVersionCheck(request, expectedVersion)}
+    `);
+
+    if (result.rowsAffected[0] === 0) {
+      return this.versionFailure(new sql.Request(transaction), id, lawFirm);
+    }
+
+    // Flat attorney/lien/vendor columns live in the child tables
+    if (hasCollectionChanges(changes)) {
+      const collections = await this.loadCollections(new sql.Request(transaction), [id]);
+      const existing = { ...(collections.get(id.toLowerCase()) || emptyCollections()) } as DemographicsV2;
+      const merged = mergeFlatCollectionChanges(existing, changes);
+      await this.deleteCollections(transaction, id);
+      await this.insertCollections(transaction, { ...merged, id });
+    }
+
+    const updated = await this.selectRecord(transaction, id, lawFirm, false, { pii: true });
+    if (!updated) return { status: 'not_found' };
+
+    if (columns.some(column => NAME_SEARCH_FIELDS.has(column.name))) {
+      await this.replaceNameKeys(transaction, updated);
+    }
+    await this.insertHistory(transaction, updated, 'update', diffDemographics(before, updated), audit);
+
+    return { status: 'ok', record: updated };
+  }
+
+  /**
+   * Bind the If-Match versions and return the matching WHERE condition
+   */
+  private bindVersionCheck(request: sql.Request, expectedVersion?: ExpectedVersion): string {
+    if (!expectedVersion || expectedVersion === '*') return '';
+
+    const versions = expectedVersion
+      .map(version => toRowVersion(version))
+      .filter((version): version is Buffer => version !== null);
+
+    if (versions.length === 0) return 'AND 1 = 0';
+
+    versions.forEach((version, index) => request.input(`row_version${index}`, sql.Binary, version));
+    return `AND row_version IN (${versions.map((_, index) => `@row_version${index}`).join(', ')})`;
+  }
+
+  /**
+   * Work out why a conditional write touched no rows
+   */
+  private async versionFailure(
+    request: sql.Request,
+    id: string,
+    lawFirm: string
+  ): Promise<{ status: 'not_found' } | { status: 'version_mismatch'; current_version: string }> {
+    const result = await request
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query(`
+        SELECT row_version FROM Demographics
+        WHERE id = @id AND partitionKey = @partitionKey AND status != 'deleted'
+      `);
+
+    if (result.recordset.length === 0) return { status: 'not_found' };
+
+    return { status: 'version_mismatch', current_version: fromRowVersion(result.recordset[0].row_version) };
+  }
+
+  /**
+   * Load one record with its collections. lock takes an update lock so the
+   * state read is the state the following write replaces.
+   */
+  private async selectRecord(
+    source: sql.ConnectionPool | sql.Transaction,
+    id: string,
+    lawFirm: string,
+    lock: boolean = false,
+    options?: DemographicsReadOptions
+  ): Promise<Versioned<DemographicsV2> | null> {
+    const result = await requestOn(source)
+      .input('id', sql.UniqueIdentifier, id)
+      .input('partitionKey', sql.VarChar(75), lawFirm)
+      .query(`
+        SELECT * FROM Demographics ${lock ? 'WITH (UPDLOCK, ROWLOCK)' : ''}
+        WHERE id = @id AND partitionKey = @partitionKey
+      `);
+
+    if (result.recordset.length === 0) return null;
+
+    const [record] = await this.attachCollections([await this.readRow(result.recordset[0], options)], source);
+    return record;
+  }
+
+  /**
+   * Map a Demographics row, decrypting the encrypted fields for pii reads and
+   * masking them otherwise. Rows written before encryption was enabled keep
+   * their plaintext columns until sealPlaintextPii reaches them.
+   */
+  private async readRow(
+    row: Record<string, unknown>,
+    options: DemographicsReadOptions = {}
+  ): Promise<Versioned<DemographicsCore>> {
+    const record = mapDemographicsRow(row);
+    if (!options.pii) return fieldEncryptionService.conceal(record, row.pii_envelope as string | null);
+
+    return { ...record, ...(await fieldEncryptionService.open(row.pii_envelope as string | null)) };
+  }
+
+  /**
+   * Blind indexes for the SSN filters when ssn is encrypted
+   */
+  private async filterIndexes(filters: DemographicsFilters = {}): Promise<BlindIndexes> {
+    if (!fieldEncryptionService.isEncrypted('ssn')) return {};
+
+    const indexes: BlindIndexes = {};
+    if (filters.ssn) indexes.ssn_bidx = await fieldEncryptionService.blindIndex('ssn_bidx', filters.ssn);
+    if (filters.ssn_last4) indexes.ssn_last4_bidx = await fieldEncryptionService.blindIndex('ssn_last4_bidx', filters.ssn_last4);
+    return indexes;
+  }
+
+  private bindSealedPii(request: sql.Request, sealed: SealedPii): void {
+    request.input('pii_envelope', sql.NVarChar(sql.MAX), sealed.envelope);
+    for (const column of BLIND_INDEX_COLUMNS) {
+      request.input(column, sql.VarChar(64), sealed.indexes[column] ?? null);
+    }
+  }
+
+  /**
+   * Bind a column-level write and return its SET assignments. Encrypted
+   * fields are sealed into the record's envelope, which the caller must have
+   * locked, and their plaintext columns cleared.
+   */
+  private async bindColumnChanges(
+    transaction: sql.Transaction,
+    request: sql.Request,
+    id: string,
+    columns: DemographicsColumn[],
+    values: Record<string, unknown>
+  ): Promise<string[]> {
+    const plain = columns.filter(column => !fieldEncryptionService.isEncrypted(column.name));
+    const encrypted = columns.filter(column => fieldEncryptionService.isEncrypted(column.name));
+
+    bindColumnInputs(request, plain, values);
+    const assignments = plain.map(column => `${column.name} = @${column.name}`);
+    if (encrypted.length === 0) return assignments;
+
+    const current = await new sql.Request(transaction)
+      .input('id', sql.UniqueIdentifier, id)
+      .query('SELECT pii_envelope FROM Demographics WHERE id = @id');
+    const sealed = await fieldEncryptionService.seal(
+      Object.fromEntries(encrypted.map(column => [column.name, values[column.name] ?? null])),
+      current.recordset[0]?.pii_envelope
+    );
+
+    request.input('pii_envelope', sql.NVarChar(sql.MAX), sealed.envelope);
+    for (const [column, value] of Object.entries(sealed.indexes)) {
+      request.input(column, sql.VarChar(64), value);
+      assignments.push(`${column} = @${column}`);
+    }
+
+    return [...assignments, ...encrypted.map(column => `${column.name} = NULL`), 'pii_envelope = @pii_envelope'];
+  }
+
+  /**
+   * Encrypted values never reach the history: changes to them are redacted
+   * and the snapshot carries the record's current envelope instead
+   */
+  private async insertHistory(
+    transaction: sql.Transaction,
+    record: DemographicsV2,
+    action: DemographicsHistoryAction,
+    changes: DemographicsFieldChange[],
+    audit?: AuditContext
+  ): Promise<void> {
+    const snapshot = fieldEncryptionService.strip(toHistorySnapshot(record));
+
+    await new sql.Request(transaction)
+      .input('demographic_id', sql.UniqueIdentifier, record.id)
+      .input('partitionKey', sql.VarChar(75), record.partitionKey)
+      .input('action', sql.VarChar(10), action)
+      .input('changes', sql.NVarChar(sql.MAX), JSON.stringify(fieldEncryptionService.redactChanges(changes)))
+      .input('snapshot', sql.NVarChar(sql.MAX), JSON.stringify(snapshot))
+      .input('key_id', sql.VarChar(50), audit?.keyId ?? null)
+      .input('request_id', sql.VarChar(100), audit?.requestId ?? null)
+      .input('changed_at', sql.DateTime2, new Date(record.updated_at))
+      .query(`
+        INSERT INTO DemographicsHistory (
+          demographic_id, partitionKey, action, changes, snapshot, key_id, request_id, changed_at
+        ) VALUES (
+          @demographic_id, @partitionKey, @action, @changes,
+          JSON_MODIFY(@snapshot, '$.pii_envelope', (SELECT pii_envelope FROM Demographics WHERE id = @demographic_id)),
+          @key_id, @request_id, @changed_at
+        )
+      `);
+  }
+
+  private async replaceNameKeys(transaction: sql.Transaction, record: DemographicsCore): Promise<void> {
+    const request = new sql.Request(transaction);
+    request.input('demographic_id', sql.UniqueIdentifier, record.id);
+    request.input('partitionKey', sql.VarChar(75), record.partitionKey);
+
+    const rows = nameKeys(record).map(({ field, key }, index) => {
+      request.input(`field${index}`, sql.VarChar(30), field);
+      request.input(`key${index}`, sql.Char(4), key);
+      return `(@demographic_id, @partitionKey, @field${index}, @key${index})`;
+    });
+
+    await request.query(`
+      DELETE FROM DemographicsNameKeys WHERE demographic_id = @demographic_id;
+      ${rows.length > 0 ? `
+      INSERT INTO DemographicsNameKeys (demographic_id, partitionKey, name_field, phonetic_key)
+      VALUES ${rows.join(',\n')};` : ''}
+    `);
+  }
+
+  private async insertCollections(transaction: sql.Transaction, record: DemographicsV2): Promise<void> {
+    const normalized = normalizeCollections(record);
+
+    for (const [key, definition] of Object.entries(DEMOGRAPHICS_COLLECTION_TABLES)) {
+      const items = normalized[key as DemographicsCollectionKey] as Record<string, unknown>[];
+      if (items.length === 0) continue;
+
+      const request = new sql.Request(transaction);
+      request.input('demographic_id', sql.UniqueIdentifier, record.id);
+
+      const columns = definition.columns.map(column => column.name);
+      const rows = items.map((item, index) => {
+        const prefix = `r${index}_`;
+        bindColumnInputs(request, definition.columns, item, prefix);
+        return `(@demographic_id, ${columns.map(column => `@${prefix}${column}`).join(', ')})`;
+      });
+
+      await request.query(`
+        INSERT INTO ${definition.table} (demographic_id, ${columns.join(', ')})
+        VALUES ${rows.join(',\n')}
+      `);
+    }
+  }
+
+  private async deleteCollections(transaction: sql.Transaction, id: string): Promise<void> {
+    const request = new sql.Request(transaction);
+    request.input('demographic_id', sql.UniqueIdentifier, id);
+
+    await request.query(
+      Object.values(DEMOGRAPHICS_COLLECTION_TABLES)
+        .map(definition => `DELETE FROM ${definition.table} WHERE demographic_id = @demographic_id;`)
+        .join('\n')
+    );
+  }
+
+  private async loadCollections(
+    request: sql.Request,
+    ids: string[]
+  ): Promise<Map<string, Pick<DemographicsV2, DemographicsCollectionKey>>> {
+    const collections = new Map<string, Pick<DemographicsV2, DemographicsCollectionKey>>();
+    if (ids.length === 0) return collections;
+
+    const keys = Object.keys(DEMOGRAPHICS_COLLECTION_TABLES) as DemographicsCollectionKey[];
+    request.input('ids', sql.NVarChar(sql.MAX), JSON.stringify(ids));
+
+    const result = await request.query(
+      keys
+        .map(key => `
+          SELECT * FROM ${DEMOGRAPHICS_COLLECTION_TABLES[key].table}
+          WHERE demographic_id IN (SELECT CAST(value AS UNIQUEIDENTIFIER) FROM OPENJSON(@ids))
+          ORDER BY demographic_id, position;
+        `)
+        .join('\n')
+    );
+
+    const recordsets = result.recordsets as sql.IRecordSet<Record<string, unknown>>[];
+    for (const id of ids) {
+      collections.set(id.toLowerCase(), emptyCollections());
+    }
+
+    keys.forEach((key, index) => {
+      for (const row of recordsets[index] || []) {
+        const owner = collections.get(String(row.demographic_id).toLowerCase());
+        (owner?.[key] as unknown[] | undefined)?.push(
+          mapColumns(DEMOGRAPHICS_COLLECTION_TABLES[key].columns, row)
+        );
+      }
+    });
+
+    return collections;
+  }
+
+  private async attachCollections<T extends DemographicsCore>(
+    cores: T[],
+    source?: sql.ConnectionPool | sql.Transaction
+  ): Promise<(T & DemographicsV2)[]> {
+    if (cores.length === 0) return [];
+
+    const request = requestOn(source ?? await this.getPool());
+    const collections = await this.loadCollections(request, cores.map(core => core.id));
+
+    return cores.map(core => ({
+      ...core,
+      ...(collections.get(core.id) || emptyCollections()),
+    }));
   }
 
   // API Key operations
@@ -172,10 +2005,10 @@ export class DatabaseService {
     const query = `
       INSERT INTO ApiKeys (
         id, partitionKey, key_id, key_hash, name, description, law_firm, created_by,
-        rate_limits, scopes, status, usage_count, expires_at, created_at, updated_at
+        rate_limits, scopes, status, usage_count, expires_at, created_at, updated_at, policies
       ) VALUES (
         @id, @partitionKey, @key_id, @key_hash, @name, @description, @law_firm, @created_by,
-        @rate_limits, @scopes, @status, @usage_count, @expires_at, @created_at, @updated_at
+        @rate_limits, @scopes, @status, @usage_count, @expires_at, @created_at, @updated_at, @policies
       )
     `;
 
@@ -194,6 +2027,7 @@ export class DatabaseService {
     request.input('expires_at', sql.DateTime2, apiKey.expires_at ? new Date(apiKey.expires_at) : null);
     request.input('created_at', sql.DateTime2, new Date(apiKey.created_at));
     request.input('updated_at', sql.DateTime2, new Date(apiKey.updated_at));
+    request.input('policies', sql.NVarChar(sql.MAX), apiKey.policies ? JSON.stringify(apiKey.policies) : null);
 
     await request.query(query);
   }
@@ -213,6 +2047,7 @@ export class DatabaseService {
       ...row,
       rate_limits: JSON.parse(row.rate_limits),
       scopes: JSON.parse(row.scopes),
+      policies: row.policies ? JSON.parse(row.policies) : undefined,
       created_at: row.created_at.toISOString(),
       updated_at: row.updated_at.toISOString(),
       expires_at: row.expires_at ? row.expires_at.toISOString() : null,
@@ -0,0 +1,221 @@
+import sql from 'mssql';
+import { z, ZodDefault, ZodEffects, ZodEnum, ZodNumber, ZodOptional, ZodRecord, ZodString, ZodTypeAny } from 'zod';
+import {
+  AttorneyCostDetailSchema,
+  AttorneySchema,
+  DemographicsCollectionKey,
+  DemographicsCore,
+  DemographicsCoreSchema,
+  MedicalLienSchema,
+  OtherLienSchema,
+  VendorExpenseSchema,
+  Versioned,
+} from '../types/demographics';
+
+export type DemographicsField = keyof DemographicsCore & string;
+
+export type DemographicsColumnKind = 'uuid' | 'string' | 'enum' | 'int' | 'decimal' | 'date' | 'datetime' | 'json';
+
+export interface DemographicsColumn {
+  name: string;
+  kind: DemographicsColumnKind;
+  sqlType: sql.ISqlType | sql.ISqlTypeFactoryWithNoParams;
+}
+
+export interface DemographicsCollectionTable {
+  table: string;
+  columns: DemographicsColumn[];
+}
+
+// Fields whose zod definition carries no max length
+const LENGTH_OVERRIDES: Record<string, number> = {
+  partitionKey: 75,
+  email: 100,
+};
+
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  let inner = schema;
+  while (inner instanceof ZodOptional || inner instanceof ZodDefault || inner instanceof ZodEffects) {
+    if (inner instanceof ZodOptional) inner = inner.unwrap();
+    else if (inner instanceof ZodDefault) inner = inner.removeDefault();
+    else inner = inner.innerType();
+  }
+  return inner;
+}
+
+function describeColumn(name: string, schema: ZodTypeAny): DemographicsColumn {
+  const inner = unwrap(schema);
+
+  if (inner instanceof ZodEnum) {
+    const longest = Math.max(...(inner.options as string[]).map(option => option.length));
+    return { name, kind: 'enum', sqlType: sql.NVarChar(longest) };
+  }
+
+  if (inner instanceof ZodNumber) {
+    if (inner.isInt) return { name, kind: 'int', sqlType: sql.Int };
+
+    // Percentages are capped at 1.0, everything else is a currency amount
+    const isPercentage = inner.maxValue !== null && inner.maxValue <= 1;
+    return { name, kind: 'decimal', sqlType: isPercentage ? sql.Decimal(10, 4) : sql.Decimal(15, 4) };
+  }
+
+  if (inner instanceof ZodString) {
+    if (inner.isUUID) return { name, kind: 'uuid', sqlType: sql.UniqueIdentifier };
+    if (inner.isDate) return { name, kind: 'date', sqlType: sql.Date };
+    if (inner.isDatetime) return { name, kind: 'datetime', sqlType: sql.DateTime2 };
+
+    const length = LENGTH_OVERRIDES[name] ?? inner.maxLength ?? sql.MAX;
+    return { name, kind: 'string', sqlType: sql.NVarChar(length) };
+  }
+
+  if (inner instanceof ZodRecord) return { name, kind: 'json', sqlType: sql.NVarChar(sql.MAX) };
+
+  throw new Error(`Unsupported demographics field type for column ${name}`);
+}
+
+function describeColumns(shape: Record<string, z.ZodTypeAny>): DemographicsColumn[] {
+  return Object.entries(shape).map(([name, schema]) => describeColumn(name, schema));
+}
+
+/**
+ * Column definitions for the Demographics table, derived from DemographicsCoreSchema
+ * so every field the API accepts has exactly one column and SQL type.
+ */
+export const DEMOGRAPHICS_COLUMNS: DemographicsColumn[] = describeColumns(DemographicsCoreSchema.shape);
+
+export const DEMOGRAPHICS_COLUMN_MAP: Map<string, DemographicsColumn> = new Map(
+  DEMOGRAPHICS_COLUMNS.map(column => [column.name, column])
+);
+
+/**
+ * Child tables holding attorneys, liens, vendor expenses and cost details,
+ * keyed by (demographic_id, position)
+ */
+export const DEMOGRAPHICS_COLLECTION_TABLES: Record<DemographicsCollectionKey, DemographicsCollectionTable> = {
+  attorneys: { table: 'DemographicsAttorneys', columns: describeColumns(AttorneySchema.shape) },
+  medical_liens: { table: 'DemographicsMedicalLiens', columns: describeColumns(MedicalLienSchema.shape) },
+  other_liens: { table: 'DemographicsOtherLiens', columns: describeColumns(OtherLienSchema.shape) },
+  vendor_expenses: { table: 'DemographicsVendorExpenses', columns: describeColumns(VendorExpenseSchema.shape) },
+  attorney_cost_details: { table: 'DemographicsAttorneyCostDetails', columns: describeColumns(AttorneyCostDetailSchema.shape) },
+};
+
+/**
+ * Convert an API value into the value bound to the SQL parameter
+ */
+export function toSqlValue(column: DemographicsColumn, value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+
+  switch (column.kind) {
+    case 'date':
+    case 'datetime':
+      return new Date(value as string);
+    case 'json':
+      return JSON.stringify(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Convert a value read from SQL back into its API representation
+ */
+export function fromSqlValue(column: DemographicsColumn, value: unknown): unknown {
+  if (value === undefined || value === null) return undefined;
+
+  switch (column.kind) {
+    case 'uuid':
+      return String(value).toLowerCase();
+    case 'date':
+      return (value as Date).toISOString().slice(0, 10);
+    case 'datetime':
+      return (value as Date).toISOString();
+    case 'decimal':
+      return Number(value);
+    case 'json':
+      return JSON.parse(value as string);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Map a row to its API shape, dropping NULL columns so the result matches
+ * what was originally submitted.
+ */
+export function mapColumns<T>(columns: DemographicsColumn[], row: Record<string, unknown>): T {
+  const mapped: Record<string, unknown> = {};
+
+  for (const column of columns) {
+    const value = fromSqlValue(column, row[column.name]);
+    if (value !== undefined) {
+      mapped[column.name] = value;
+    }
+  }
+
+  return mapped as T;
+}
+
+export function mapDemographicsRow(row: Record<string, unknown>): Versioned<DemographicsCore> {
+  return {
+    ...mapColumns<DemographicsCore>(DEMOGRAPHICS_COLUMNS, row),
+    row_version: fromRowVersion(row.row_version as Buffer),
+  };
+}
+
+/**
+ * ROWVERSION values come back as 8-byte buffers and are exposed as hex
+ */
+export function fromRowVersion(value: Buffer): string {
+  return value.toString('hex').toUpperCase();
+}
+
+/**
+ * Parse a client supplied version; anything that is not 8 bytes of hex can
+ * never match a stored row and yields null
+ */
+export function toRowVersion(version: string): Buffer | null {
+  return /^[0-9a-f]{16}$/i.test(version) ? Buffer.from(version, 'hex') : null;
+}
+
+/**
+ * Bind every column as an input on the given request, optionally prefixing
+ * parameter names so several rows can share one request
+ */
+export function bindColumnInputs(
+  request: sql.Request,
+  columns: DemographicsColumn[],
+  values: Record<string, unknown>,
+  prefix: string = ''
+): void {
+  for (const column of columns) {
+    request.input(`${prefix}${column.name}`, column.sqlType, toSqlValue(column, values[column.name]));
+  }
+}
+
+export function bindDemographicsInputs(request: sql.Request, demographic: Partial<DemographicsCore>): void {
+  bindColumnInputs(request, DEMOGRAPHICS_COLUMNS, demographic);
+}
+
+/**
+ * A table for request.bulk() with the given columns. All are declared
+ * nullable and left to the database's own constraints.
+ */
+export function bulkTable(name: string, columns: DemographicsColumn[]): sql.Table {
+  const table = new sql.Table(name);
+  table.create = false;
+
+  for (const column of columns) {
+    // columns.add names the type it is given, so each table gets its own copy
+    const type = typeof column.sqlType === 'function' ? column.sqlType() : { ...column.sqlType };
+    table.columns.add(column.name, type, { nullable: true });
+  }
+
+  return table;
+}
+
+/**
+ * Add a row to a bulkTable of the same columns, in their order
+ */
+export function addBulkRow(table: sql.Table, columns: DemographicsColumn[], values: Record<string, unknown>): void {
+  table.rows.add(...columns.map(column => toSqlValue(column, values[column.name]) as sql.IRow[number]));
+}
@@ -0,0 +1,165 @@
+import sql from 'mssql';
+import { ZodOptional } from 'zod';
+import {
+  DEMOGRAPHICS_AMOUNT_RANGE_FILTERS,
+  DEMOGRAPHICS_DATE_RANGE_FILTERS,
+  DEMOGRAPHICS_MATCH_FILTERS,
+  DemographicsCoreSchema,
+  DemographicsCursor,
+  DemographicsFilters,
+  DemographicsRange,
+  DemographicsSort,
+} from '../types/demographics';
+import { BlindIndexes } from '../types/encryption';
+import { timestampUpperBound } from '../utils/demographics.filters';
+import { DEMOGRAPHICS_COLUMN_MAP, DemographicsColumn, DemographicsColumnKind, toSqlValue } from './demographics.columns';
+
+// Stand-ins for NULL so nullable sort columns order and compare like NULLS FIRST
+const NULL_SORT_VALUES: Partial<Record<DemographicsColumnKind, string>> = {
+  string: "N''",
+  enum: "N''",
+  date: "CAST('0001-01-01' AS DATE)",
+  datetime: "CAST('0001-01-01' AS DATETIME2)",
+  decimal: '-99999999999.9999',
+  int: '-2147483648',
+};
+
+function column(field: string): DemographicsColumn {
+  const definition = DEMOGRAPHICS_COLUMN_MAP.get(field);
+  if (!definition) throw new Error(`Unknown demographics column ${field}`);
+  return definition;
+}
+
+function isNullable(field: string): boolean {
+  return (DemographicsCoreSchema.shape as Record<string, unknown>)[field] instanceof ZodOptional;
+}
+
+function sortExpression(field: string): string {
+  return isNullable(field) ? `ISNULL(${field}, ${NULL_SORT_VALUES[column(field).kind]})` : field;
+}
+
+function bindRange(
+  request: sql.Request,
+  conditions: string[],
+  field: string,
+  bounds: DemographicsRange<string | number>
+): void {
+  const definition = column(field);
+
+  if (bounds.from !== undefined) {
+    conditions.push(`${field} >= @${field}_from`);
+    request.input(`${field}_from`, definition.sqlType, toSqlValue(definition, bounds.from));
+  }
+
+  if (bounds.to !== undefined) {
+    const upper = definition.kind === 'datetime'
+      ? timestampUpperBound(String(bounds.to))
+      : { value: bounds.to, exclusive: false };
+    conditions.push(`${field} ${upper.exclusive ? '<' : '<='} @${field}_to`);
+    request.input(`${field}_to`, definition.sqlType, toSqlValue(definition, upper.value));
+  }
+}
+
+function bindSsnFilters(request: sql.Request, conditions: string[], filters: DemographicsFilters, indexes: BlindIndexes): void {
+  if (filters.ssn) {
+    if (indexes.ssn_bidx !== undefined) {
+      conditions.push('ssn_bidx = @ssn_bidx');
+      request.input('ssn_bidx', sql.VarChar(64), indexes.ssn_bidx);
+    } else {
+      const ssn = filters.ssn.replace(/\D/g, '');
+      conditions.push('ssn IN (@ssn, @ssnDashed)');
+      request.input('ssn', sql.NVarChar(11), ssn);
+      request.input('ssnDashed', sql.NVarChar(11), `${ssn.slice(0, 3)}-${ssn.slice(3, 5)}-${ssn.slice(5)}`);
+    }
+  }
+
+  if (filters.ssn_last4) {
+    if (indexes.ssn_last4_bidx !== undefined) {
+      conditions.push('ssn_last4_bidx = @ssn_last4_bidx');
+      request.input('ssn_last4_bidx', sql.VarChar(64), indexes.ssn_last4_bidx);
+    } else {
+      conditions.push('RIGHT(ssn, 4) = @ssn_last4');
+      request.input('ssn_last4', sql.NVarChar(4), filters.ssn_last4);
+    }
+  }
+}
+
+/**
+ * Translate DemographicsFilters into parameterized WHERE conditions. Column
+ * names only ever come from the fixed filter lists. SSN filters use the
+ * blind indexes given for them, the ssn column otherwise.
+ */
+export function bindDemographicsFilters(
+  request: sql.Request,
+  filters: DemographicsFilters = {},
+  indexes: BlindIndexes = {}
+): string[] {
+  const conditions: string[] = [];
+
+  for (const field of DEMOGRAPHICS_MATCH_FILTERS) {
+    const value = filters[field];
+    if (value === undefined) continue;
+
+    conditions.push(`${field} = @${field}`);
+    request.input(field, column(field).sqlType, value);
+  }
+
+  for (const field of [...DEMOGRAPHICS_DATE_RANGE_FILTERS, ...DEMOGRAPHICS_AMOUNT_RANGE_FILTERS]) {
+    const bounds = filters[field];
+    if (bounds) bindRange(request, conditions, field, bounds);
+  }
+
+  bindSsnFilters(request, conditions, filters, indexes);
+
+  if (filters.search) {
+    conditions.push('(firstname LIKE @search OR lastname LIKE @search OR email LIKE @search)');
+    request.input('search', sql.NVarChar(255), `%${filters.search}%`);
+  }
+
+  return conditions;
+}
+
+function idDirection(sort: DemographicsSort[]): 'ASC' | 'DESC' {
+  return sort[sort.length - 1].direction === 'desc' ? 'DESC' : 'ASC';
+}
+
+export function demographicsOrderBy(sort: DemographicsSort[]): string {
+  const keys = sort.map(({ field, direction }) => `${sortExpression(field)} ${direction.toUpperCase()}`);
+  return `ORDER BY ${[...keys, `id ${idDirection(sort)}`].join(', ')}`;
+}
+
+/**
+ * Keyset condition selecting the rows that sort after the cursor:
+ * (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ... OR (all equal AND id > cursor id)
+ */
+export function bindDemographicsKeyset(
+  request: sql.Request,
+  sort: DemographicsSort[],
+  cursor: DemographicsCursor
+): string {
+  const keys = sort.map(({ field, direction }, index) => {
+    const definition = column(field);
+    const value = cursor.values[index];
+    const parameter = `cursor${index}`;
+
+    if (value !== null) {
+      request.input(parameter, definition.sqlType, toSqlValue(definition, value));
+    }
+
+    return {
+      expression: sortExpression(field),
+      operator: direction === 'desc' ? '<' : '>',
+      value: value === null ? NULL_SORT_VALUES[definition.kind] : `@${parameter}`,
+    };
+  });
+
+  request.input('cursorId', sql.UniqueIdentifier, cursor.id);
+  keys.push({ expression: 'id', operator: idDirection(sort) === 'DESC' ? '<' : '>', value: '@cursorId' });
+
+  const branches = keys.map((key, index) => {
+    const equal = keys.slice(0, index).map(previous => `${previous.expression} = ${previous.value}`);
+    return `(${[...equal, `${key.expression} ${key.operator} ${key.value}`].join(' AND ')})`;
+  });
+
+  return `(${branches.join(' OR ')})`;
+}
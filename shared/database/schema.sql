@@ -4,14 +4,19 @@ CREATE TABLE Demographics (
     partitionKey NVARCHAR(75) NOT NULL,
     
     -- Basic Information
+    law_firm NVARCHAR(55) NOT NULL,
     law_firm_approval NVARCHAR(20), -- enum('Approved', 'Hold')
-    firstname NVARCHAR(55) NOT NULL,
-    lastname NVARCHAR(75) NOT NULL,
+    firstname NVARCHAR(55),
+    lastname NVARCHAR(75),
+    email NVARCHAR(100) NOT NULL,
+    phone NVARCHAR(20) NOT NULL,
+    phone_e164 NVARCHAR(16), -- E.164 forms of the valid phone numbers
     sf_id NVARCHAR(50),
     ml_id NVARCHAR(50),
     law_firm_client_id NVARCHAR(50),
     otherid NVARCHAR(50),
     primarylawfirm NVARCHAR(75) NOT NULL,
+    ethnicity NVARCHAR(11) NOT NULL,
     claimanttype NVARCHAR(35) NOT NULL, -- enum
     
     -- Legal Status
@@ -21,7 +26,7 @@ CREATE TABLE Demographics (
     probate NVARCHAR(1), -- enum('Y', 'N')
     probatecleared NVARCHAR(1), -- enum('Y', 'N')
     pathway_opt_in_status NVARCHAR(1), -- enum('Y', 'N')
-    dod DATETIME2,
+    dod DATE,
     
     -- Service Information
     serviceoptions NVARCHAR(75),
@@ -45,7 +50,7 @@ CREATE TABLE Demographics (
     country NVARCHAR(55),
     
     -- Personal Details
-    dob DATETIME2,
+    dob DATE,
     ssn NVARCHAR(11),
     
     -- Contact Information
@@ -53,7 +58,9 @@ CREATE TABLE Demographics (
     claimantbusinessemail NVARCHAR(75),
     claimantotheremail NVARCHAR(75),
     claimantmobilephone NVARCHAR(20),
+    claimantmobilephone_e164 NVARCHAR(16),
     claimanthomephone NVARCHAR(20),
+    claimanthomephone_e164 NVARCHAR(16),
     sms_opt_in NVARCHAR(1), -- enum('Y', 'N')
     
     -- Alternate Claimant Information
@@ -74,6 +81,7 @@ CREATE TABLE Demographics (
     alternateclaimantcountry NVARCHAR(55),
     alternateclaimantpersonalemail NVARCHAR(75),
     alternateclaimantpersonalphonenumber NVARCHAR(20),
+    alternateclaimantpersonalphonenumber_e164 NVARCHAR(16),
     
     -- Financial Information
     basegrossaward DECIMAL(15,4),
@@ -107,138 +115,22 @@ CREATE TABLE Demographics (
     netclaimantpayment DECIMAL(15,4),
     generalcaseexpenses DECIMAL(15,4),
     
-    -- Attorney Information (10 attorneys)
-    attorney1name NVARCHAR(75),
-    attorney1feepercent DECIMAL(10,4),
-    attorney1fees DECIMAL(15,4),
-    attorney1costamount DECIMAL(15,4),
-    attorney2name NVARCHAR(75),
-    attorney2feepercent DECIMAL(10,4),
-    attorney2fees DECIMAL(15,4),
-    attorney2costamount DECIMAL(15,4),
-    attorney3name NVARCHAR(75),
-    attorney3feepercent DECIMAL(10,4),
-    attorney3fees DECIMAL(15,4),
-    attorney3costamount DECIMAL(15,4),
-    attorney4name NVARCHAR(75),
-    attorney4feepercent DECIMAL(10,4),
-    attorney4fees DECIMAL(15,4),
-    attorney4costamount DECIMAL(15,4),
-    attorney5name NVARCHAR(75),
-    attorney5feepercent DECIMAL(10,4),
-    attorney5fees DECIMAL(15,4),
-    attorney5costamount DECIMAL(15,4),
-    attorney6name NVARCHAR(75),
-    attorney6feepercent DECIMAL(10,4),
-    attorney6fees DECIMAL(15,4),
-    attorney6costamount DECIMAL(15,4),
-    attorney7name NVARCHAR(75),
-    attorney7feepercent DECIMAL(10,4),
-    attorney7fees DECIMAL(15,4),
-    attorney7costamount DECIMAL(15,4),
-    attorney8name NVARCHAR(75),
-    attorney8feepercent DECIMAL(10,4),
-    attorney8fees DECIMAL(15,4),
-    attorney8costamount DECIMAL(15,4),
-    attorney9name NVARCHAR(75),
-    attorney9feepercent DECIMAL(10,4),
-    attorney9fees DECIMAL(15,4),
-    attorney9costamount DECIMAL(15,4),
-    attorney10name NVARCHAR(75),
-    attorney10feepercent DECIMAL(10,4),
-    attorney10fees DECIMAL(15,4),
-    attorney10costamount DECIMAL(15,4),
-    
-    -- Vendor Expenses
-    vendorexpenseqsfadmin DECIMAL(15,4),
-    vendorexpenseqsfadminname NVARCHAR(55),
-    vendorexpenseclaimsadmin DECIMAL(15,4),
-    vendorexpenseclaimsadminname NVARCHAR(55),
-    vendorexpenselraholdback DECIMAL(15,4),
-    vendorexpenselraholdbackname NVARCHAR(55),
-    vendorexpenselrafinal DECIMAL(15,4),
-    vendorexpenselrafinalname NVARCHAR(55),
-    vendorexpensespecialmaster DECIMAL(15,4),
-    vendorexpensespecialmastername NVARCHAR(55),
-    vendorexpenseeifappeal DECIMAL(15,4),
-    vendorexpenseeifappealname NVARCHAR(55),
-    vendorexpensebankruptcycounsel DECIMAL(15,4),
-    vendorexpensebankruptcycounselname NVARCHAR(55),
-    vendorexpenseprobatecounsel DECIMAL(15,4),
-    vendorexpenseprobatecounselname NVARCHAR(55),
-    vendorother DECIMAL(15,4),
-    vendorothername NVARCHAR(55),
-    
-    -- Medical Liens (6 liens)
-    medicallien1name NVARCHAR(55),
-    lienid1 NVARCHAR(55),
-    lientype1 NVARCHAR(35), -- enum
-    medicallien1 DECIMAL(15,4),
-    medicallien2name NVARCHAR(55),
-    lienid2 NVARCHAR(55),
-    lientype2 NVARCHAR(35), -- enum
-    medicallien2 DECIMAL(15,4),
-    medicallien3name NVARCHAR(55),
-    lienid3 NVARCHAR(55),
-    lientype3 NVARCHAR(35), -- enum
-    medicallien3 DECIMAL(15,4),
-    medicallien4name NVARCHAR(55),
-    lienid4 NVARCHAR(55),
-    lientype4 NVARCHAR(35), -- enum
-    medicallien4 DECIMAL(15,4),
-    medicallien5name NVARCHAR(55),
-    lienid5 NVARCHAR(55),
-    lientype5 NVARCHAR(35), -- enum
-    medicallien5 DECIMAL(15,4),
-    medicallien6name NVARCHAR(55),
-    lienid6 NVARCHAR(55),
-    lientype6 NVARCHAR(35), -- enum
-    medicallien6 DECIMAL(15,4),
-    
-    -- Other Liens
-    otherlien1name NVARCHAR(55),
-    otherlien1amount DECIMAL(15,4),
-    otherlien2name NVARCHAR(55),
-    otherlien2amount DECIMAL(15,4),
-    
-    -- Attorney Cost Details (10 attorneys)
-    attorney1name_cost NVARCHAR(75),
-    attorney1_costdetailname NVARCHAR(128),
-    attorney1_costdetailamount DECIMAL(15,4),
-    attorney2name_cost NVARCHAR(75),
-    attorney2_costdetailname NVARCHAR(128),
-    attorney2_costdetailamount DECIMAL(15,4),
-    attorney3name_cost NVARCHAR(75),
-    attorney3_costdetailname NVARCHAR(128),
-    attorney3_costdetailamount DECIMAL(15,4),
-    attorney4name_cost NVARCHAR(75),
-    attorney4_costdetailname NVARCHAR(128),
-    attorney4_costdetailamount DECIMAL(15,4),
-    attorney5name_cost NVARCHAR(75),
-    attorney5_costdetailname NVARCHAR(128),
-    attorney5_costdetailamount DECIMAL(15,4),
-    attorney6name_cost NVARCHAR(75),
-    attorney6_costdetailname NVARCHAR(128),
-    attorney6_costdetailamount DECIMAL(15,4),
-    attorney7name_cost NVARCHAR(75),
-    attorney7_costdetailname NVARCHAR(128),
-    attorney7_costdetailamount DECIMAL(15,4),
-    attorney8name_cost NVARCHAR(75),
-    attorney8_costdetailname NVARCHAR(128),
-    attorney8_costdetailamount DECIMAL(15,4),
-    attorney9name_cost NVARCHAR(75),
-    attorney9_costdetailname NVARCHAR(128),
-    attorney9_costdetailamount DECIMAL(15,4),
-    attorney10name_cost NVARCHAR(75),
-    attorney10_costdetailname NVARCHAR(128),
-    attorney10_costdetailamount DECIMAL(15,4),
-    
     -- Notes and System Fields
     lawfirmnote NVARCHAR(1000),
     created_at DATETIME2 NOT NULL,
     updated_at DATETIME2 NOT NULL,
     created_by UNIQUEIDENTIFIER NOT NULL,
     status NVARCHAR(20) NOT NULL DEFAULT 'active',
+    merged_into UNIQUEIDENTIFIER, -- Surviving record when merged as a duplicate
+    deleted_at DATETIME2, -- Set by a soft delete or merge, cleared on restore
+    address_raw NVARCHAR(MAX), -- JSON: submitted address fields that normalization changed
+
+    -- Field-level encryption: encrypted fields (PII_ENCRYPTED_FIELDS) are NULL in their own columns
+    pii_envelope NVARCHAR(MAX), -- JSON: wrapped data key and ciphertext per field
+    ssn_bidx VARCHAR(64), -- HMAC blind indexes for exact-match lookups
+    ssn_last4_bidx VARCHAR(64),
+    dob_bidx VARCHAR(64),
+    row_version ROWVERSION NOT NULL, -- Exposed as the ETag for If-Match
     
     -- Indexes for performance
     INDEX IX_Demographics_PartitionKey (partitionKey),
@@ -246,7 +138,283 @@ CREATE TABLE Demographics (
     INDEX IX_Demographics_CreatedAt (created_at),
     INDEX IX_Demographics_FirstnameLastname (firstname, lastname),
     INDEX IX_Demographics_ClaimantType (claimanttype),
-    INDEX IX_Demographics_Status (status)
+    INDEX IX_Demographics_Status (status),
+    INDEX IX_Demographics_PartitionKey_Keyset (partitionKey, created_at DESC, id DESC), -- cursor pagination
+    INDEX IX_Demographics_PartitionKey_UpdatedAt (partitionKey, updated_at DESC, id DESC),
+    INDEX IX_Demographics_PartitionKey_Deleted (partitionKey, deleted_at) WHERE status = 'deleted', -- retention purge
+    INDEX IX_Demographics_PartitionKey_Name (partitionKey, lastname, firstname),
+    INDEX IX_Demographics_PartitionKey_State (partitionKey, state),
+    -- External ids are unique per law firm among records that are not deleted
+    INDEX UX_Demographics_PartitionKey_SfId UNIQUE (partitionKey, sf_id) WHERE sf_id IS NOT NULL AND status <> 'deleted',
+    INDEX UX_Demographics_PartitionKey_MlId UNIQUE (partitionKey, ml_id) WHERE ml_id IS NOT NULL AND status <> 'deleted',
+    INDEX UX_Demographics_PartitionKey_ClientId UNIQUE (partitionKey, law_firm_client_id) WHERE law_firm_client_id IS NOT NULL AND status <> 'deleted',
+    INDEX UX_Demographics_PartitionKey_OtherId UNIQUE (partitionKey, otherid) WHERE otherid IS NOT NULL AND status <> 'deleted',
+    INDEX IX_Demographics_PartitionKey_Ssn (partitionKey, ssn), -- duplicate detection
+    INDEX IX_Demographics_PartitionKey_DobLastname (partitionKey, dob, lastname),
+    INDEX IX_Demographics_PartitionKey_Email (partitionKey, email),
+    INDEX IX_Demographics_PartitionKey_Phone (partitionKey, phone),
+    INDEX IX_Demographics_PartitionKey_SsnBidx (partitionKey, ssn_bidx),
+    INDEX IX_Demographics_PartitionKey_SsnLast4Bidx (partitionKey, ssn_last4_bidx),
+    INDEX IX_Demographics_PartitionKey_DobBidxLastname (partitionKey, dob_bidx, lastname),
+
+    -- Enumerated fields
+    CONSTRAINT CK_Demographics_LawFirmApproval CHECK (law_firm_approval IN ('Approved', 'Hold')),
+    CONSTRAINT CK_Demographics_ClaimantType CHECK (claimanttype IN ('Adult', 'Minor', 'Incapacitated Adult', 'Decedent', 'Alternate', 'Municipality')),
+    CONSTRAINT CK_Demographics_LiensFinal CHECK (liensfinal IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_Bankruptcy CHECK (bankruptcy IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_BankruptcyCleared CHECK (bankruptcycleared IN ('Cleared to Trustee', 'Cleared to Claimant', 'Cleared-Split', 'Non applicable')),
+    CONSTRAINT CK_Demographics_Probate CHECK (probate IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_ProbateCleared CHECK (probatecleared IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_PathwayOptIn CHECK (pathway_opt_in_status IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_GenderIdentity CHECK (genderidentity IN ('Male', 'Female', 'Nonbinary', 'Not Listed')),
+    CONSTRAINT CK_Demographics_Pronouns CHECK (pronouns IN ('He/Him', 'She/Her', 'They/Them', 'He/They', 'She/They', 'Not Listed')),
+    CONSTRAINT CK_Demographics_SmsOptIn CHECK (sms_opt_in IN ('Y', 'N')),
+    CONSTRAINT CK_Demographics_AltClaimantType CHECK (altclaimanttype IN ('Personal Representative (POA)', 'Trustee', 'Estate Representative', 'Heir', 'Other')),
+    CONSTRAINT CK_Demographics_AttorneyFeeCalcMethod CHECK (attorneyfeecalcmethod IN ('Gross', 'Net Cost')),
+    CONSTRAINT CK_Demographics_Status CHECK (status IN ('active', 'inactive', 'archived', 'deleted'))
+);
+
+-- Repeating groups (v2 arrays), one row per item. position is the 1-based
+-- slot; v1 payloads map slots 1..10 / 1..6 / 1..2 onto the numbered columns.
+CREATE TABLE DemographicsAttorneys (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    name NVARCHAR(75),
+    fee_percent DECIMAL(10,4),
+    fees DECIMAL(15,4),
+    cost_amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsAttorneys PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsAttorneys_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE
+);
+
+CREATE TABLE DemographicsMedicalLiens (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    name NVARCHAR(55),
+    lien_id NVARCHAR(55),
+    lien_type NVARCHAR(35), -- enum
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsMedicalLiens PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsMedicalLiens_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE,
+    CONSTRAINT CK_DemographicsMedicalLiens_LienType CHECK (lien_type IN ('Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)'))
+);
+
+CREATE TABLE DemographicsOtherLiens (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    name NVARCHAR(55),
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsOtherLiens PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsOtherLiens_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE
+);
+
+CREATE TABLE DemographicsVendorExpenses (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    vendor_type NVARCHAR(20) NOT NULL, -- enum
+    position INT NOT NULL,
+    name NVARCHAR(55),
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsVendorExpenses PRIMARY KEY (demographic_id, vendor_type, position),
+    CONSTRAINT FK_DemographicsVendorExpenses_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE,
+    CONSTRAINT CK_DemographicsVendorExpenses_VendorType CHECK (vendor_type IN ('qsfadmin', 'claimsadmin', 'lraholdback', 'lrafinal', 'specialmaster', 'eifappeal', 'bankruptcycounsel', 'probatecounsel', 'other'))
+);
+
+CREATE TABLE DemographicsAttorneyCostDetails (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    position INT NOT NULL,
+    attorney_name NVARCHAR(75),
+    detail_name NVARCHAR(128),
+    amount DECIMAL(15,4),
+
+    CONSTRAINT PK_DemographicsAttorneyCostDetails PRIMARY KEY (demographic_id, position),
+    CONSTRAINT FK_DemographicsAttorneyCostDetails_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE
+);
+
+-- Soundex keys of each word of a record's claimant and alternate claimant
+-- names, written with the record so fuzzy name search is an index seek
+CREATE TABLE DemographicsNameKeys (
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    partitionKey NVARCHAR(75) NOT NULL,
+    name_field NVARCHAR(30) NOT NULL,
+    phonetic_key CHAR(4) NOT NULL,
+
+    CONSTRAINT PK_DemographicsNameKeys PRIMARY KEY (demographic_id, name_field, phonetic_key),
+    CONSTRAINT FK_DemographicsNameKeys_Demographics FOREIGN KEY (demographic_id)
+        REFERENCES Demographics (id) ON DELETE CASCADE,
+    INDEX IX_DemographicsNameKeys_Key (partitionKey, phonetic_key)
+);
+
+-- Append-only change log: one row per create, update and soft delete, with
+-- the field-level changes and the full record state after the change
+CREATE TABLE DemographicsHistory (
+    id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    demographic_id UNIQUEIDENTIFIER NOT NULL,
+    partitionKey NVARCHAR(75) NOT NULL,
+    action NVARCHAR(10) NOT NULL,
+    changes NVARCHAR(MAX) NOT NULL, -- JSON array of { field, old_value, new_value }
+    snapshot NVARCHAR(MAX) NOT NULL, -- JSON record (v2 shape), encrypted fields only inside pii_envelope
+    key_id NVARCHAR(50),
+    request_id NVARCHAR(100),
+    changed_at DATETIME2 NOT NULL,
+
+    INDEX IX_DemographicsHistory_Demographic (demographic_id, changed_at),
+    CONSTRAINT CK_DemographicsHistory_Action CHECK (action IN ('create', 'update', 'delete', 'merge', 'restore'))
+);
+
+-- Per law firm severity of the demographics business rules; rules without a
+-- row use their default (see shared/utils/demographics.rules.ts)
+CREATE TABLE DemographicsRuleSettings (
+    law_firm NVARCHAR(75) NOT NULL,
+    rule_code NVARCHAR(64) NOT NULL,
+    severity NVARCHAR(10) NOT NULL,
+    updated_by NVARCHAR(50),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT PK_DemographicsRuleSettings PRIMARY KEY (law_firm, rule_code),
+    CONSTRAINT CK_DemographicsRuleSettings_Severity CHECK (severity IN ('error', 'warning'))
+);
+
+-- Per law firm retention of soft deleted records, which are purged once it has
+-- passed unless under legal hold; a tombstone records each purge
+-- (see shared/services/demographicsRetention.service.ts)
+CREATE TABLE DemographicsRetentionSettings (
+    law_firm NVARCHAR(75) PRIMARY KEY,
+    retention_days INT NOT NULL,
+    updated_by NVARCHAR(50),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT CK_DemographicsRetentionSettings_Days CHECK (retention_days > 0)
+);
+
+CREATE TABLE DemographicsLegalHolds (
+    demographic_id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    reason NVARCHAR(500) NOT NULL,
+    placed_by NVARCHAR(50),
+    placed_at DATETIME2 NOT NULL,
+
+    CONSTRAINT FK_DemographicsLegalHolds_Demographics FOREIGN KEY (demographic_id) REFERENCES Demographics (id)
+);
+
+CREATE TABLE DemographicsTombstones (
+    demographic_id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    sf_id NVARCHAR(50),
+    law_firm_client_id NVARCHAR(50),
+    deleted_at DATETIME2 NOT NULL,
+    purged_at DATETIME2 NOT NULL,
+    retention_days INT NOT NULL,
+    history_entries INT NOT NULL,
+
+    INDEX IX_DemographicsTombstones_LawFirm (law_firm, purged_at)
+);
+
+-- CSV and XLSX demographics imports, the rows each rejected, and the per law
+-- firm header aliases they map columns through (see shared/utils/demographics.import.ts)
+CREATE TABLE DemographicsImports (
+    id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    file_name NVARCHAR(255) NOT NULL,
+    format NVARCHAR(10) NOT NULL,
+    status NVARCHAR(20) NOT NULL,
+    total_rows INT NOT NULL DEFAULT 0,
+    processed_rows INT NOT NULL DEFAULT 0,
+    queued_rows INT NOT NULL DEFAULT 0,
+    rejected_rows INT NOT NULL DEFAULT 0,
+    unmapped_columns NVARCHAR(MAX) NOT NULL, -- JSON array
+    error NVARCHAR(1000),
+    created_by NVARCHAR(50) NOT NULL,
+    created_at DATETIME2 NOT NULL,
+    updated_at DATETIME2 NOT NULL,
+    completed_at DATETIME2,
+
+    CONSTRAINT CK_DemographicsImports_Format CHECK (format IN ('csv', 'xlsx')),
+    CONSTRAINT CK_DemographicsImports_Status CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    INDEX IX_DemographicsImports_LawFirm (law_firm, created_at)
+);
+
+CREATE TABLE DemographicsImportErrors (
+    id BIGINT IDENTITY(1,1) PRIMARY KEY,
+    import_id UNIQUEIDENTIFIER NOT NULL,
+    row_number INT NOT NULL,
+    field NVARCHAR(255) NOT NULL,
+    message NVARCHAR(1000) NOT NULL,
+
+    CONSTRAINT FK_DemographicsImportErrors_Import FOREIGN KEY (import_id) REFERENCES DemographicsImports(id) ON DELETE CASCADE,
+    INDEX IX_DemographicsImportErrors_Import (import_id, row_number)
+);
+
+CREATE TABLE DemographicsImportAliases (
+    law_firm NVARCHAR(75) NOT NULL,
+    header NVARCHAR(100) NOT NULL, -- Normalized: lower case letters and digits
+    field NVARCHAR(64) NOT NULL,
+    updated_by NVARCHAR(50),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT PK_DemographicsImportAliases PRIMARY KEY (law_firm, header)
+);
+
+-- Background demographics exports; the file itself is a blob in demographics-documents
+CREATE TABLE DemographicsExports (
+    id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    format NVARCHAR(10) NOT NULL,
+    fields NVARCHAR(MAX) NOT NULL, -- JSON array
+    filters NVARCHAR(MAX) NOT NULL, -- JSON object, without the SSN filters
+    sort NVARCHAR(MAX) NOT NULL, -- JSON array
+    status NVARCHAR(20) NOT NULL,
+    pii BIT NOT NULL DEFAULT 0, -- Values written unmasked
+    row_count INT NOT NULL DEFAULT 0,
+    blob_name NVARCHAR(1024),
+    error NVARCHAR(1000),
+    created_by NVARCHAR(50) NOT NULL,
+    created_at DATETIME2 NOT NULL,
+    updated_at DATETIME2 NOT NULL,
+    completed_at DATETIME2,
+
+    CONSTRAINT CK_DemographicsExports_Format CHECK (format IN ('csv', 'xlsx', 'ndjson')),
+    CONSTRAINT CK_DemographicsExports_Status CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    INDEX IX_DemographicsExports_LawFirm (law_firm, created_at),
+    INDEX IX_DemographicsExports_Running (updated_at) WHERE status IN ('pending', 'processing') -- stale export reaper
+);
+
+-- Batch submissions and the state of each item, updated by the FIFO worker;
+-- a batch completes when no item is accepted or processing
+CREATE TABLE DemographicsBatches (
+    correlation_id UNIQUEIDENTIFIER PRIMARY KEY,
+    law_firm NVARCHAR(75) NOT NULL,
+    batch_size INT NOT NULL,
+    status NVARCHAR(20) NOT NULL,
+    webhook_url NVARCHAR(2048),
+    notify_on_completion BIT NOT NULL DEFAULT 0,
+    created_at DATETIME2 NOT NULL,
+    updated_at DATETIME2 NOT NULL,
+    completed_at DATETIME2,
+
+    CONSTRAINT CK_DemographicsBatches_Status CHECK (status IN ('processing', 'completed')),
+    INDEX IX_DemographicsBatches_LawFirm (law_firm, created_at)
+);
+
+CREATE TABLE DemographicsBatchItems (
+    correlation_id UNIQUEIDENTIFIER NOT NULL,
+    batch_index INT NOT NULL,
+    demographic_id UNIQUEIDENTIFIER,
+    status NVARCHAR(20) NOT NULL,
+    reason NVARCHAR(1000),
+    updated_at DATETIME2 NOT NULL,
+
+    CONSTRAINT PK_DemographicsBatchItems PRIMARY KEY (correlation_id, batch_index),
+    CONSTRAINT FK_DemographicsBatchItems_Batch FOREIGN KEY (correlation_id) REFERENCES DemographicsBatches(correlation_id) ON DELETE CASCADE,
+    CONSTRAINT CK_DemographicsBatchItems_Status CHECK (status IN ('accepted', 'processing', 'processed', 'failed'))
 );
 
 -- API Keys table 
@@ -271,6 +439,7 @@ CREATE TABLE ApiKeys (
     allowed_ips NVARCHAR(MAX), -- JSON array
     allowed_domains NVARCHAR(MAX), -- JSON array
     environment NVARCHAR(20),
+    policies NVARCHAR(MAX), -- JSON object (require_if_match, ...)
     
     INDEX IX_ApiKeys_KeyHash (key_hash),
     INDEX IX_ApiKeys_PartitionKey (partitionKey),
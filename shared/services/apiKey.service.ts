@@ -81,6 +81,7 @@ class ApiKeyService {
       allowed_ips: request.allowed_ips,
       allowed_domains: request.allowed_domains,
       environment: request.environment,
+      policies: request.policies,
     };
 
     await databaseService.createApiKey(apiKey);
@@ -1,4 +1,5 @@
 import { BlobServiceClient, BlobSASPermissions, generateBlobSASQueryParameters, StorageSharedKeyCredential } from '@azure/storage-blob';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '@shared/utils/logger';
 
@@ -214,6 +215,53 @@ class BlobSasService {
     return `https://${this.storageAccount}.blob.core.windows.net/${this.documentsContainer}/${blobName}?${sasToken}`;
   }
 
+  /**
+   * Whether a blob was uploaded through a SAS URL issued to the law firm
+   */
+  isLawFirmBlob(lawFirm: string, blobName: string): boolean {
+    return blobName.startsWith(`${this.sanitizeLawFirm(lawFirm)}/`) && !blobName.split('/').includes('..');
+  }
+
+  /**
+   * Read an uploaded document into memory, refusing blobs over the size limit
+   */
+  async downloadBlob(blobName: string, maxSizeMB: number = 50): Promise<Buffer> {
+    const blobClient = this.blobServiceClient
+      .getContainerClient(this.documentsContainer)
+      .getBlobClient(blobName);
+
+    const properties = await blobClient.getProperties();
+    const fileSizeMB = (properties.contentLength || 0) / (1024 * 1024);
+    if (fileSizeMB > maxSizeMB) {
+      throw new Error(`File size ${fileSizeMB.toFixed(2)}MB exceeds limit of ${maxSizeMB}MB`);
+    }
+
+    return blobClient.downloadToBuffer();
+  }
+
+  /**
+   * Upload a stream as a blob under the law firm's prefix, named like
+   * document uploads. Returns the blob name.
+   */
+  async uploadStream(
+    lawFirm: string,
+    fileName: string,
+    correlationId: string,
+    content: Readable,
+    contentType: string
+  ): Promise<string> {
+    const blobName = this.generateBlobName(lawFirm, this.sanitizeFileName(fileName), correlationId);
+
+    const containerClient = this.blobServiceClient.getContainerClient(this.documentsContainer);
+    await containerClient.createIfNotExists();
+    await containerClient.getBlockBlobClient(blobName).uploadStream(content, 4 * 1024 * 1024, 4, {
+      blobHTTPHeaders: { blobContentType: contentType },
+    });
+
+    logger.info('Blob uploaded', { blobName, correlationId });
+    return blobName;
+  }
+
   private sanitizeFileName(fileName: string): string {
     return fileName
       .replace(/[^a-zA-Z0-9.-]/g, '_')
@@ -223,8 +271,11 @@ class BlobSasService {
 
   private generateBlobName(lawFirm: string, fileName: string, correlationId: string): string {
     const timestamp = new Date().toISOString().split('T')[0];
-    const sanitizedLawFirm = lawFirm.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
-    return `${sanitizedLawFirm}/${timestamp}/${correlationId}_${fileName}`;
+    return `${this.sanitizeLawFirm(lawFirm)}/${timestamp}/${correlationId}_${fileName}`;
+  }
+
+  private sanitizeLawFirm(lawFirm: string): string {
+    return lawFirm.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
   }
 
   private async storeUploadMetadata(correlationId: string, metadata: any): Promise<void> {
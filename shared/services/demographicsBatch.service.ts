@@ -0,0 +1,117 @@
+import {
+  DemographicsBatch,
+  DemographicsBatchItem,
+  DemographicsBatchItemStatus,
+  TERMINAL_BATCH_ITEM_STATUSES,
+} from '../types/demographics';
+import { databaseService } from '../database/database.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from '../utils/logger';
+
+export type DemographicsBatchCounts = Record<DemographicsBatchItemStatus, number>;
+
+export interface DemographicsBatchOptions {
+  webhook_url?: string;
+  notify_on_completion: boolean;
+}
+
+/**
+ * Item counts by status
+ */
+export function countBatchItems(items: DemographicsBatchItem[]): DemographicsBatchCounts {
+  const counts: DemographicsBatchCounts = { accepted: 0, processing: 0, processed: 0, failed: 0 };
+  for (const item of items) counts[item.status]++;
+  return counts;
+}
+
+/**
+ * Batch submissions tracked by correlation id. The API records every item
+ * when the batch is accepted; the FIFO worker moves queued items through
+ * processing to processed or failed. The batch completes, and
+ * demographics.batch_completed is sent, when the last item finishes.
+ */
+class DemographicsBatchService {
+  /**
+   * Record a batch before its items are queued, so the worker always finds
+   * it. Items refused at acceptance are passed in as failed.
+   */
+  async create(
+    lawFirm: string,
+    correlationId: string,
+    items: Omit<DemographicsBatchItem, 'updated_at'>[],
+    options: DemographicsBatchOptions
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await databaseService.createDemographicsBatchJob({
+      correlation_id: correlationId,
+      law_firm: lawFirm,
+      batch_size: items.length,
+      status: 'processing',
+      ...options,
+      items: items.map(item => ({ ...item, updated_at: now })),
+      created_at: now,
+      updated_at: now,
+    });
+  }
+
+  async get(lawFirm: string, correlationId: string): Promise<DemographicsBatch | null> {
+    return databaseService.getDemographicsBatchJob(correlationId, lawFirm);
+  }
+
+  /**
+   * Move an item on, completing the batch if it was the last to finish
+   */
+  async setItemStatus(
+    correlationId: string,
+    index: number,
+    status: DemographicsBatchItemStatus,
+    reason?: string
+  ): Promise<void> {
+    await databaseService.updateDemographicsBatchItem(correlationId, index, status, reason);
+
+    if (TERMINAL_BATCH_ITEM_STATUSES.includes(status)) {
+      await this.completeIfFinished(correlationId);
+    }
+  }
+
+  /**
+   * Complete the batch if no item is still accepted or processing. Only the
+   * call that completes it sends the webhook.
+   */
+  async completeIfFinished(correlationId: string): Promise<void> {
+    const lawFirm = await databaseService.completeDemographicsBatchJob(correlationId);
+    if (!lawFirm) return;
+
+    const batch = await databaseService.getDemographicsBatchJob(correlationId, lawFirm);
+    if (!batch) return;
+
+    const counts = countBatchItems(batch.items);
+    logger.info('Demographics batch completed', {
+      correlationId,
+      lawFirm: batch.law_firm,
+      batchSize: batch.batch_size,
+      ...counts,
+    });
+
+    if (!batch.notify_on_completion) return;
+
+    await fifoQueueService.addWebhookMessage(batch.law_firm, {
+      event: 'demographics.batch_completed',
+      data: {
+        correlation_id: correlationId,
+        batch_size: batch.batch_size,
+        processed_count: counts.processed,
+        failed_count: counts.failed,
+        failed_items: batch.items
+          .filter(item => item.status === 'failed')
+          .map(item => ({ index: item.index, ...(item.id && { id: item.id }), reason: item.reason })),
+        completed_at: batch.completed_at,
+        webhook_url: batch.webhook_url,
+      },
+      correlation_id: correlationId,
+    });
+  }
+}
+
+export const demographicsBatchService = new DemographicsBatchService();
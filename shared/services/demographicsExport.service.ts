@@ -0,0 +1,179 @@
+import { PassThrough } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreateDemographicsExportRequest,
+  DEFAULT_DEMOGRAPHICS_SORT,
+  DEMOGRAPHICS_EXPORT_FIELDS,
+  DemographicsExport,
+  DemographicsFilters,
+  DemographicsReadOptions,
+} from '../types/demographics';
+import { databaseService } from '../database/database.service';
+import { blobSasService } from './blobSas.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { toDemographicsFilters } from '../utils/demographics.filters';
+import { createExportWriter, EXPORT_CONTENT_TYPES } from '../utils/demographics.export';
+import { maskedFields } from '../utils/demographics.masking';
+import { logger } from '../utils/logger';
+
+// Download URLs are short-lived; GET /exports/:id issues a fresh one
+const EXPORT_DOWNLOAD_URL_HOURS = 1;
+
+// A running export saves after every page, so one not updated for this long has stopped
+const EXPORT_STALE_MINUTES = parseInt(process.env.DEMOGRAPHICS_EXPORT_STALE_MINUTES || '30');
+
+export interface DemographicsExportDownload {
+  download_url: string;
+  expires_at: string;
+}
+
+/**
+ * Background exports of a law firm's demographics to a CSV, XLSX or NDJSON
+ * blob. Records are streamed from the database into the upload, so an export
+ * of any size is never held in memory.
+ */
+class DemographicsExportService {
+  /**
+   * Accept an export and start writing it. Callers without demographics:pii
+   * get the masked values they would see from list.
+   */
+  async start(
+    lawFirm: string,
+    request: CreateDemographicsExportRequest,
+    options: DemographicsReadOptions,
+    createdBy: string
+  ): Promise<DemographicsExport> {
+    const filters = toDemographicsFilters(request);
+    // SSN filters are used for the run but not stored with the job
+    const { ssn, ssn_last4, ...storedFilters } = filters;
+    const now = new Date().toISOString();
+
+    const job: DemographicsExport = {
+      id: uuidv4(),
+      law_firm: lawFirm,
+      format: request.format,
+      fields: request.fields ?? DEMOGRAPHICS_EXPORT_FIELDS,
+      filters: storedFilters,
+      sort: request.sort ?? DEFAULT_DEMOGRAPHICS_SORT,
+      status: 'pending',
+      pii: options.pii === true,
+      row_count: 0,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await databaseService.createDemographicsExport(job);
+
+    this.run({ ...job }, filters, options, request.webhook_url).catch(error => {
+      logger.error('Demographics export failed', { exportId: job.id, lawFirm, error });
+    });
+
+    return job;
+  }
+
+  async get(lawFirm: string, id: string): Promise<DemographicsExport | null> {
+    return databaseService.getDemographicsExport(id, lawFirm);
+  }
+
+  /**
+   * Fail the exports whose process stopped before they finished, as on a
+   * restart, so they do not stay processing. Returns the number failed.
+   */
+  async failStale(now: Date = new Date()): Promise<number> {
+    const staleBefore = new Date(now.getTime() - EXPORT_STALE_MINUTES * 60 * 1000);
+    const failed = await databaseService.failStaleDemographicsExports(
+      staleBefore,
+      'Export stopped before it finished; start a new export'
+    );
+
+    if (failed > 0) logger.warn('Stale demographics exports failed', { count: failed, staleBefore });
+    return failed;
+  }
+
+  /**
+   * A short-lived URL for a completed export's file
+   */
+  async download(job: DemographicsExport): Promise<DemographicsExportDownload> {
+    const expiresAt = new Date(Date.now() + EXPORT_DOWNLOAD_URL_HOURS * 60 * 60 * 1000);
+
+    return {
+      download_url: await blobSasService.generateDownloadSasUrl(job.blob_name!, EXPORT_DOWNLOAD_URL_HOURS),
+      expires_at: expiresAt.toISOString(),
+    };
+  }
+
+  private async run(
+    job: DemographicsExport,
+    filters: DemographicsFilters,
+    options: DemographicsReadOptions,
+    webhookUrl?: string
+  ): Promise<void> {
+    const output = new PassThrough();
+    // Failures reach us through the upload and the writes; keep them from being unhandled
+    output.on('error', () => undefined);
+
+    const upload = blobSasService.uploadStream(
+      job.law_firm,
+      `demographics-export.${job.format}`,
+      job.id,
+      output,
+      EXPORT_CONTENT_TYPES[job.format]
+    );
+    upload.catch(error => output.destroy(error));
+
+    try {
+      job.status = 'processing';
+      await this.save(job);
+
+      const writer = createExportWriter(job.format, job.fields, output);
+      for await (const records of databaseService.streamDemographicsByLawFirm(job.law_firm, filters, job.sort, options)) {
+        await writer.write(options.pii ? records : records.map(record => ({ ...record, ...maskedFields(record) })));
+        job.row_count += records.length;
+        await this.save(job);
+      }
+      await writer.end();
+
+      Object.assign(job, { status: 'completed', blob_name: await upload, completed_at: new Date().toISOString() });
+      await this.save(job);
+    } catch (error) {
+      output.destroy(error instanceof Error ? error : undefined);
+      await upload.catch(() => undefined);
+
+      Object.assign(job, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Export failed',
+        completed_at: new Date().toISOString(),
+      });
+      await this.save(job);
+      throw error;
+    }
+
+    const download = await this.download(job);
+    await fifoQueueService.addWebhookMessage(job.law_firm, {
+      event: 'export.completed',
+      data: {
+        export_id: job.id,
+        format: job.format,
+        row_count: job.row_count,
+        ...download,
+        ...(webhookUrl && { webhook_url: webhookUrl }),
+      },
+      correlation_id: job.id,
+    });
+
+    logger.info('Demographics export completed', {
+      exportId: job.id,
+      lawFirm: job.law_firm,
+      format: job.format,
+      rowCount: job.row_count,
+    });
+  }
+
+  private async save(job: DemographicsExport): Promise<void> {
+    job.updated_at = new Date().toISOString();
+    await databaseService.updateDemographicsExport(job);
+  }
+}
+
+export const demographicsExportService = new DemographicsExportService();
@@ -0,0 +1,84 @@
+import {
+  DEMOGRAPHICS_EXTERNAL_ID_FIELDS,
+  DemographicsExternalId,
+  DemographicsExternalIdConflict,
+  DemographicsExternalIdField,
+} from '../types/demographics';
+import { databaseService } from '../database/database.service';
+
+export type ExternalIdCandidate = { id: string } & Partial<Record<DemographicsExternalIdField, string | null>>;
+
+/**
+ * The external ids a record sets
+ */
+export function externalIdsOf(record: Partial<Record<DemographicsExternalIdField, unknown>>): DemographicsExternalId[] {
+  return DEMOGRAPHICS_EXTERNAL_ID_FIELDS
+    .filter(field => typeof record[field] === 'string' && record[field] !== '')
+    .map(field => ({ field, value: record[field] as string }));
+}
+
+export function externalIdConflictMessage(conflicts: DemographicsExternalIdConflict[]): string {
+  return conflicts
+    .map(conflict => conflict.batch_index === undefined
+      ? `${conflict.field} ${conflict.value} is already used by record ${conflict.id}`
+      : `${conflict.field} ${conflict.value} is also used by batch item ${conflict.batch_index}`)
+    .join('; ');
+}
+
+// SQL compares the ids without regard to case, so the check does too
+function sameId(a: DemographicsExternalId, b: DemographicsExternalId): boolean {
+  return a.field === b.field && a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+/**
+ * sf_id, ml_id, law_firm_client_id and otherid address records, so each is
+ * unique among a law firm's records that are not deleted. Unique indexes
+ * enforce it; these checks find the holder so a collision can be reported.
+ */
+class DemographicsExternalIdService {
+  /**
+   * The id of the record holding the external id, if any
+   */
+  async resolve(lawFirm: string, field: DemographicsExternalIdField, value: string): Promise<string | null> {
+    const [id] = await this.resolveAll(lawFirm, [{ field, value }]);
+    return id;
+  }
+
+  /**
+   * The id of the record holding each external id, in one lookup
+   */
+  async resolveAll(lawFirm: string, ids: DemographicsExternalId[]): Promise<(string | null)[]> {
+    if (ids.length === 0) return [];
+
+    const holders = await databaseService.findDemographicsByExternalIds(lawFirm, ids);
+    return ids.map(id => holders.find(holder => sameId(holder, id))?.id ?? null);
+  }
+
+  /**
+   * The conflicts of each record: external ids it sets that another stored
+   * record holds, or that an earlier record of the list sets. Skipped
+   * records are not written, so they neither have nor cause conflicts.
+   */
+  async conflicts(
+    lawFirm: string,
+    records: ExternalIdCandidate[],
+    skip: Set<number> = new Set()
+  ): Promise<DemographicsExternalIdConflict[][]> {
+    const ids = records.map((record, index) => (skip.has(index) ? [] : externalIdsOf(record)));
+    const holders = ids.some(recordIds => recordIds.length > 0)
+      ? await databaseService.findDemographicsByExternalIds(lawFirm, ids.flat())
+      : [];
+
+    return records.map((record, index) => ids[index].flatMap(id => [
+      ...holders
+        .filter(holder => sameId(holder, id) && holder.id.toLowerCase() !== record.id.toLowerCase())
+        .map(holder => ({ ...id, id: holder.id })),
+      ...ids.slice(0, index).flatMap((earlierIds, earlier) =>
+        earlierIds.some(earlierId => sameId(earlierId, id))
+          ? [{ ...id, id: records[earlier].id, batch_index: earlier }]
+          : []),
+    ]));
+  }
+}
+
+export const demographicsExternalIdService = new DemographicsExternalIdService();
@@ -0,0 +1,238 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreateDemographicsRequest,
+  CreateDemographicsRequestSchema,
+  Demographics,
+  DemographicsImport,
+  DemographicsImportError,
+  DemographicsImportFormat,
+} from '../types/demographics';
+import { databaseService } from '../database/database.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { demographicsRulesService } from './demographicsRules.service';
+import { demographicsExternalIdService, externalIdsOf } from './demographicsExternalIds.service';
+import { withNormalizedAddresses } from '../utils/demographics.address';
+import {
+  ImportRow,
+  mapImportColumns,
+  normalizeImportHeader,
+  readImportSheet,
+  toImportRecord,
+} from '../utils/demographics.import';
+import { withNormalizedPhones } from '../utils/demographics.phone';
+import { logger } from '../utils/logger';
+
+// Rows validated and queued between progress updates
+const IMPORT_CHUNK_SIZE = 100;
+const MAX_IMPORT_ROWS = parseInt(process.env.DEMOGRAPHICS_IMPORT_MAX_ROWS || '10000');
+export const MAX_IMPORT_FILE_MB = parseInt(process.env.DEMOGRAPHICS_IMPORT_MAX_FILE_MB || '10');
+
+export interface DemographicsImportFile {
+  name: string;
+  format: DemographicsImportFormat;
+  content: Buffer;
+}
+
+/**
+ * CSV and XLSX imports of demographics. Rows are read in the background
+ * after the import is accepted; each valid row is queued for creation and
+ * each rejected one recorded with the fields that failed.
+ */
+class DemographicsImportService {
+  async start(lawFirm: string, file: DemographicsImportFile, createdBy: string): Promise<DemographicsImport> {
+    const now = new Date().toISOString();
+    const job: DemographicsImport = {
+      id: uuidv4(),
+      law_firm: lawFirm,
+      file_name: file.name,
+      format: file.format,
+      status: 'pending',
+      total_rows: 0,
+      processed_rows: 0,
+      queued_rows: 0,
+      rejected_rows: 0,
+      unmapped_columns: [],
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await databaseService.createDemographicsImport(job);
+
+    this.run({ ...job }, file.content).catch(error => {
+      logger.error('Demographics import failed', { importId: job.id, lawFirm, error });
+    });
+
+    return job;
+  }
+
+  async get(lawFirm: string, id: string): Promise<DemographicsImport | null> {
+    return databaseService.getDemographicsImport(id, lawFirm);
+  }
+
+  /**
+   * Rejected rows of an import, or null when the law firm has no such import
+   */
+  async errors(lawFirm: string, id: string): Promise<DemographicsImportError[] | null> {
+    const job = await databaseService.getDemographicsImport(id, lawFirm);
+    return job ? databaseService.getDemographicsImportErrors(id, lawFirm) : null;
+  }
+
+  async aliases(lawFirm: string): Promise<Record<string, string>> {
+    return databaseService.getDemographicsImportAliases(lawFirm);
+  }
+
+  /**
+   * Replace the law firm's header aliases. Headers are stored normalized so
+   * any spelling of a header that differs only in case, spaces or
+   * punctuation matches.
+   */
+  async setAliases(lawFirm: string, aliases: Record<string, string>, updatedBy: string): Promise<Record<string, string>> {
+    const normalized = Object.fromEntries(
+      Object.entries(aliases).map(([header, field]) => [normalizeImportHeader(header), field])
+    );
+    delete normalized[''];
+
+    await databaseService.setDemographicsImportAliases(lawFirm, normalized, updatedBy);
+    return normalized;
+  }
+
+  private async run(job: DemographicsImport, content: Buffer): Promise<void> {
+    try {
+      const sheet = await readImportSheet(content, job.format);
+      if (sheet.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`File has ${sheet.rows.length} rows; the limit is ${MAX_IMPORT_ROWS}`);
+      }
+
+      const mapping = mapImportColumns(sheet.headers, await this.aliases(job.law_firm));
+      Object.assign(job, {
+        status: 'processing',
+        total_rows: sheet.rows.length,
+        unmapped_columns: mapping.unmapped,
+      });
+      await this.save(job);
+
+      // Row of each external id queued so far, as field:value, so later chunks cannot reuse it
+      const claimed = new Map<string, number>();
+
+      for (let start = 0; start < sheet.rows.length; start += IMPORT_CHUNK_SIZE) {
+        const rows = sheet.rows.slice(start, start + IMPORT_CHUNK_SIZE);
+        const errors = await this.importRows(job, rows.map(row => ({ row, record: toImportRecord(row, mapping) })), claimed);
+
+        await databaseService.addDemographicsImportErrors(job.id, errors);
+        job.processed_rows += rows.length;
+        job.rejected_rows += new Set(errors.map(error => error.row)).size;
+        job.queued_rows = job.processed_rows - job.rejected_rows;
+        await this.save(job);
+      }
+
+      Object.assign(job, { status: 'completed', completed_at: new Date().toISOString() });
+      await this.save(job);
+
+      logger.info('Demographics import completed', {
+        importId: job.id,
+        lawFirm: job.law_firm,
+        totalRows: job.total_rows,
+        queuedRows: job.queued_rows,
+        rejectedRows: job.rejected_rows,
+      });
+    } catch (error) {
+      Object.assign(job, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Import failed',
+        completed_at: new Date().toISOString(),
+      });
+      await this.save(job);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a chunk of rows against the schema, the law firm's business
+   * rules and the external ids in use, queue the valid ones and return the
+   * errors of the others
+   */
+  private async importRows(
+    job: DemographicsImport,
+    rows: { row: ImportRow; record: Record<string, unknown> }[],
+    claimed: Map<string, number>
+  ): Promise<DemographicsImportError[]> {
+    const errors: DemographicsImportError[] = [];
+    const parsed: { row: ImportRow; data: CreateDemographicsRequest }[] = [];
+
+    for (const { row, record } of rows) {
+      const result = CreateDemographicsRequestSchema.safeParse({ ...record, law_firm: job.law_firm });
+      if (result.success) {
+        parsed.push({ row, data: result.data });
+      } else {
+        errors.push(...result.error.issues.map(issue => ({
+          row: row.row,
+          field: issue.path.join('.'),
+          message: issue.message,
+        })));
+      }
+    }
+
+    const violations = await demographicsRulesService.evaluate(job.law_firm, parsed.map(item => item.data));
+    const now = new Date().toISOString();
+    const valid: { row: ImportRow; demographics: Demographics }[] = [];
+
+    for (const [index, { row, data }] of parsed.entries()) {
+      const failed = violations[index].filter(violation => violation.severity === 'error');
+      if (failed.length > 0) {
+        errors.push(...failed.map(violation => ({ row: row.row, field: violation.field, message: violation.message })));
+        continue;
+      }
+
+      valid.push({
+        row,
+        demographics: withNormalizedPhones(withNormalizedAddresses({
+          id: uuidv4(),
+          partitionKey: job.law_firm,
+          ...data,
+          law_firm: job.law_firm,
+          created_at: now,
+          updated_at: now,
+          created_by: job.created_by,
+          status: 'active' as const,
+        })),
+      });
+    }
+
+    const conflicts = await demographicsExternalIdService.conflicts(job.law_firm, valid.map(item => item.demographics));
+
+    for (const [index, { row, demographics }] of valid.entries()) {
+      const ids = externalIdsOf(demographics).map(id => ({ ...id, key: `${id.field}:${id.value.toLowerCase()}` }));
+      const rowErrors = [
+        ...ids
+          .filter(id => claimed.has(id.key))
+          .map(id => ({ row: row.row, field: id.field, message: `Also used by row ${claimed.get(id.key)}` })),
+        ...conflicts[index].map(conflict => ({
+          row: row.row,
+          field: conflict.field,
+          message: conflict.batch_index === undefined
+            ? `Already used by record ${conflict.id}`
+            : `Also used by row ${valid[conflict.batch_index].row.row}`,
+        })),
+      ];
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+        continue;
+      }
+
+      ids.forEach(id => claimed.set(id.key, row.row));
+
+      // The FIFO worker creates the record from the message, in order per law firm
+      await fifoQueueService.addDemographicsMessage(job.law_firm, demographics, 5);
+    }
+
+    return errors.sort((a, b) => a.row - b.row);
+  }
+
+  private async save(job: DemographicsImport): Promise<void> {
+    job.updated_at = new Date().toISOString();
+    await databaseService.updateDemographicsImport(job);
+  }
+}
+
+export const demographicsImportService = new DemographicsImportService();
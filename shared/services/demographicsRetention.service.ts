@@ -0,0 +1,123 @@
+import { DemographicsRetentionSetting, DemographicsTombstone } from '../types/demographics';
+import { databaseService } from '../database/database.service';
+import { fifoQueueService } from './fifoQueue.service';
+import { logger } from '../utils/logger';
+
+// Days after a soft delete during which the record can be restored
+export const RESTORE_WINDOW_DAYS = parseInt(process.env.DEMOGRAPHICS_RESTORE_WINDOW_DAYS || '30');
+
+// Records purged per transaction
+const PURGE_BATCH_SIZE = parseInt(process.env.DEMOGRAPHICS_PURGE_BATCH_SIZE || '100');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DemographicsRetentionPolicy {
+  retention_days: number | null; // null keeps deleted records
+  restore_window_days: number;
+  purge_after_days: number | null; // Never inside the restore window
+  updated_by?: string;
+  updated_at?: string;
+}
+
+// A record is never purged while it can still be restored
+function purgeAfterDays(retentionDays: number): number {
+  return Math.max(retentionDays, RESTORE_WINDOW_DAYS);
+}
+
+function toPolicy(setting: DemographicsRetentionSetting | null): DemographicsRetentionPolicy {
+  return {
+    retention_days: setting?.retention_days ?? null,
+    restore_window_days: RESTORE_WINDOW_DAYS,
+    purge_after_days: setting ? purgeAfterDays(setting.retention_days) : null,
+    ...(setting && { updated_by: setting.updated_by, updated_at: setting.updated_at }),
+  };
+}
+
+/**
+ * Soft deleted records stay restorable for the restore window, and are
+ * purged once the law firm's retention period has passed unless they are
+ * under legal hold. Both count from the record's deleted_at.
+ */
+class DemographicsRetentionService {
+  /**
+   * When a record deleted at deletedAt stops being restorable
+   */
+  restoreDeadline(deletedAt: string): Date {
+    return new Date(new Date(deletedAt).getTime() + RESTORE_WINDOW_DAYS * DAY_MS);
+  }
+
+  async getPolicy(lawFirm: string): Promise<DemographicsRetentionPolicy> {
+    return toPolicy(await databaseService.getDemographicsRetentionSetting(lawFirm));
+  }
+
+  async setRetentionDays(
+    lawFirm: string,
+    retentionDays: number | null,
+    updatedBy: string
+  ): Promise<DemographicsRetentionPolicy> {
+    await databaseService.setDemographicsRetentionDays(lawFirm, retentionDays, updatedBy);
+    return this.getPolicy(lawFirm);
+  }
+
+  /**
+   * Purge the expired records of every law firm with a retention period,
+   * sending demographics.purged for each. A failing law firm is logged and
+   * retried on the next run. Returns the number of records purged.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const settings = await databaseService.getDemographicsRetentionSettings();
+
+    let purged = 0;
+    for (const setting of settings) {
+      try {
+        purged += await this.purgeLawFirm(setting, now);
+      } catch (error) {
+        logger.error('Demographics purge failed', { error, lawFirm: setting.law_firm });
+      }
+    }
+    return purged;
+  }
+
+  private async purgeLawFirm(setting: DemographicsRetentionSetting, now: Date): Promise<number> {
+    const deletedBefore = new Date(now.getTime() - purgeAfterDays(setting.retention_days) * DAY_MS);
+
+    let purged = 0;
+    for (;;) {
+      const tombstones = await databaseService.purgeDeletedDemographics(
+        setting.law_firm,
+        deletedBefore,
+        setting.retention_days,
+        PURGE_BATCH_SIZE
+      );
+      for (const tombstone of tombstones) {
+        await this.notifyPurged(tombstone);
+      }
+
+      purged += tombstones.length;
+      if (tombstones.length < PURGE_BATCH_SIZE) {
+        if (purged > 0) logger.info('Demographics purged', { lawFirm: setting.law_firm, count: purged });
+        return purged;
+      }
+    }
+  }
+
+  // The purge has committed; its tombstone still proves it if the webhook cannot be queued
+  private async notifyPurged(tombstone: DemographicsTombstone): Promise<void> {
+    try {
+      await fifoQueueService.addWebhookMessage(tombstone.law_firm, {
+        event: 'demographics.purged',
+        data: {
+          id: tombstone.demographic_id,
+          sf_id: tombstone.sf_id,
+          law_firm_client_id: tombstone.law_firm_client_id,
+          deleted_at: tombstone.deleted_at,
+          purged_at: tombstone.purged_at,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to queue demographics.purged webhook', { error, id: tombstone.demographic_id });
+    }
+  }
+}
+
+export const demographicsRetentionService = new DemographicsRetentionService();
@@ -0,0 +1,65 @@
+import { DemographicsChanges, DemographicsRuleSetting, DemographicsRuleViolation, RuleSeverity } from '../types/demographics';
+import { databaseService } from '../database/database.service';
+import {
+  DemographicsRuleInput,
+  demographicsRules,
+  evaluateDemographicsRules,
+  evaluateDemographicsUpdateRules,
+} from '../utils/demographics.rules';
+
+/**
+ * Cross-field business rules for demographics submissions, with each law
+ * firm's choice of error or warning per rule
+ */
+class DemographicsRulesService {
+  /**
+   * Violations of every rule by each submission, in input order, at the
+   * law firm's severities
+   */
+  async evaluate(lawFirm: string, inputs: DemographicsRuleInput[]): Promise<DemographicsRuleViolation[][]> {
+    const severities = await databaseService.getDemographicsRuleSeverities(lawFirm);
+    return inputs.map(input => evaluateDemographicsRules(input, severities));
+  }
+
+  /**
+   * Violations of the rules checking each update, by the stored record with
+   * its changes applied, in input order
+   */
+  async evaluateUpdates(
+    lawFirm: string,
+    updates: { stored: DemographicsChanges; changes: DemographicsChanges }[]
+  ): Promise<DemographicsRuleViolation[][]> {
+    const severities = await databaseService.getDemographicsRuleSeverities(lawFirm);
+    return updates.map(({ stored, changes }) => evaluateDemographicsUpdateRules(stored, changes, severities));
+  }
+
+  async listRules(lawFirm: string): Promise<DemographicsRuleSetting[]> {
+    const severities = await databaseService.getDemographicsRuleSeverities(lawFirm);
+
+    return demographicsRules().map(rule => ({
+      code: rule.code,
+      description: rule.description,
+      default_severity: rule.severity,
+      severity: severities[rule.code] ?? rule.severity,
+    }));
+  }
+
+  /**
+   * Set a rule's severity for the law firm. Returns null for an unknown code.
+   */
+  async setSeverity(
+    lawFirm: string,
+    code: string,
+    severity: RuleSeverity,
+    updatedBy: string
+  ): Promise<DemographicsRuleSetting | null> {
+    const rule = demographicsRules().find(candidate => candidate.code === code);
+    if (!rule) return null;
+
+    await databaseService.setDemographicsRuleSeverity(lawFirm, code, severity, updatedBy);
+
+    return { code, description: rule.description, default_severity: rule.severity, severity };
+  }
+}
+
+export const demographicsRulesService = new DemographicsRulesService();
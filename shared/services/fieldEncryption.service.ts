@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import path from 'path';
+import {
+  DEMOGRAPHICS_AMOUNT_RANGE_FILTERS,
+  DEMOGRAPHICS_DATE_RANGE_FILTERS,
+  DEMOGRAPHICS_MATCH_FILTERS,
+  DEMOGRAPHICS_NAME_SEARCH_FIELDS,
+  DemographicsCoreSchema,
+  DemographicsFieldChange,
+  DemographicsFilters,
+  DemographicsReadOptions,
+  DemographicsSort,
+  IMMUTABLE_DEMOGRAPHICS_FIELDS,
+} from '../types/demographics';
+import {
+  BLIND_INDEX_COLUMNS,
+  BlindIndexColumn,
+  BlindIndexes,
+  KeyProvider,
+  PiiEnvelope,
+  SealedPii,
+} from '../types/encryption';
+import { maskedFields } from '../utils/demographics.masking';
+import { LocalFileKeyProvider } from './keyProviders/localFile.keyProvider';
+require('dotenv').config();
+
+const DEFAULT_ENCRYPTED_FIELDS = ['ssn', 'dob', 'alternateclaimantssn', 'alternateclaimantdob'];
+
+// Fields the database filters, searches or matches on in plaintext
+const UNENCRYPTABLE_FIELDS = new Set<string>([
+  ...IMMUTABLE_DEMOGRAPHICS_FIELDS,
+  ...DEMOGRAPHICS_NAME_SEARCH_FIELDS,
+  ...DEMOGRAPHICS_MATCH_FILTERS,
+  'email',
+  'phone',
+]);
+
+// Scope a caller needs to read encrypted fields or look records up by SSN
+export const PII_SCOPE = 'demographics:pii';
+
+// Shown in history changes in place of an encrypted value
+export const ENCRYPTED_VALUE = '[encrypted]';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+function digits(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+// Source field and normalized input of each blind index; null when the value cannot be indexed
+const BLIND_INDEXES: Record<BlindIndexColumn, { field: string; normalize: (value: string) => string | null }> = {
+  ssn_bidx: { field: 'ssn', normalize: value => (digits(value).length === 9 ? digits(value) : null) },
+  ssn_last4_bidx: { field: 'ssn', normalize: value => (digits(value).length >= 4 ? digits(value).slice(-4) : null) },
+  dob_bidx: { field: 'dob', normalize: value => value.trim() || null },
+};
+
+const keyProviders: Record<string, () => KeyProvider> = {
+  local: () => new LocalFileKeyProvider(
+    process.env.PII_MASTER_KEY_FILE || path.resolve(process.cwd(), '.keys', 'pii-master-key.json')
+  ),
+};
+
+/**
+ * Make a key provider available to PII_KEY_PROVIDER, e.g. one backed by a
+ * cloud key vault
+ */
+export function registerKeyProvider(name: string, factory: () => KeyProvider): void {
+  keyProviders[name] = factory;
+}
+
+export function piiReadOptions(auth: { scopes: string[] }): DemographicsReadOptions {
+  return { pii: auth.scopes.includes(PII_SCOPE) };
+}
+
+function configuredFields(): string[] {
+  const fields = process.env.PII_ENCRYPTED_FIELDS
+    ? process.env.PII_ENCRYPTED_FIELDS.split(',').map(field => field.trim()).filter(Boolean)
+    : DEFAULT_ENCRYPTED_FIELDS;
+
+  for (const field of fields) {
+    if (!(field in DemographicsCoreSchema.shape) || UNENCRYPTABLE_FIELDS.has(field)) {
+      throw new Error(`PII_ENCRYPTED_FIELDS: ${field} cannot be encrypted`);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Envelope encryption of sensitive demographics fields. Each record gets its
+ * own data key, wrapped by the key provider's master key and stored with the
+ * ciphertexts in the record's pii_envelope. The plaintext columns of these
+ * fields stay NULL; exact-match lookups use HMAC blind indexes instead.
+ */
+class FieldEncryptionService {
+  readonly fields: string[] = configuredFields();
+  private readonly fieldSet = new Set(this.fields);
+  private provider?: KeyProvider;
+
+  isEncrypted(field: string): boolean {
+    return this.fieldSet.has(field);
+  }
+
+  /**
+   * The record without its encrypted fields, as returned to callers that may
+   * not see them
+   */
+  strip<T extends object>(record: T): T {
+    const stripped = { ...record } as Record<string, unknown>;
+    for (const field of this.fields) {
+      delete stripped[field];
+    }
+    return stripped as T;
+  }
+
+  /**
+   * The record as callers without demographics:pii see it: encrypted fields
+   * replaced by their masked form, taken from the record's own values where
+   * it holds them and from the envelope otherwise
+   */
+  conceal<T extends object>(record: T, envelope?: string | null): T {
+    const stored = envelope ? (JSON.parse(envelope) as PiiEnvelope).masked : undefined;
+    return { ...this.strip(record), ...stored, ...maskedFields(record, this.fields) } as T;
+  }
+
+  /**
+   * History changes with encrypted values replaced by a marker, so the
+   * history never holds plaintext
+   */
+  redactChanges(changes: DemographicsFieldChange[]): DemographicsFieldChange[] {
+    return changes.map(change => this.isEncrypted(change.field)
+      ? {
+          field: change.field,
+          old_value: change.old_value === null ? null : ENCRYPTED_VALUE,
+          new_value: change.new_value === null ? null : ENCRYPTED_VALUE,
+        }
+      : change);
+  }
+
+  /**
+   * Encrypted fields a list request sorts or range-filters on. Their columns
+   * are NULL, so such a request cannot be answered.
+   */
+  unqueryableFields(sort: DemographicsSort[], filters: DemographicsFilters): string[] {
+    const ranges = [...DEMOGRAPHICS_DATE_RANGE_FILTERS, ...DEMOGRAPHICS_AMOUNT_RANGE_FILTERS]
+      .filter(field => filters[field] !== undefined);
+    const fields = [...sort.map(({ field }) => field as string), ...ranges];
+    return Array.from(new Set(fields.filter(field => this.isEncrypted(field))));
+  }
+
+  /**
+   * Encrypt the encrypted fields present in values into an envelope. Fields
+   * already in the existing envelope and not in values are kept; a null or
+   * empty value removes the field. Blind indexes are returned for every
+   * source field in values, null where the field was cleared.
+   */
+  async seal(values: Record<string, unknown>, existing?: string | null): Promise<SealedPii> {
+    const touched = this.fields.filter(field => values[field] !== undefined);
+    const envelope = existing ? (JSON.parse(existing) as PiiEnvelope) : null;
+    if (touched.length === 0) return { envelope: existing ?? null, indexes: {} };
+
+    const dataKey = envelope
+      ? await this.keyProvider().unwrapDataKey({ keyId: envelope.key_id, wrapped: envelope.data_key })
+      : crypto.randomBytes(32);
+    const wrapped = envelope
+      ? { keyId: envelope.key_id, wrapped: envelope.data_key }
+      : await this.keyProvider().wrapDataKey(dataKey);
+
+    const fields = { ...envelope?.fields };
+    const masked = { ...envelope?.masked };
+    for (const field of touched) {
+      const value = values[field];
+      delete masked[field];
+      if (value === null || value === '') {
+        delete fields[field];
+      } else {
+        fields[field] = this.encrypt(dataKey, field, String(value));
+        Object.assign(masked, maskedFields({ [field]: String(value) }, [field]));
+      }
+    }
+
+    const indexes: BlindIndexes = {};
+    for (const column of BLIND_INDEX_COLUMNS) {
+      const field = BLIND_INDEXES[column].field;
+      if (touched.includes(field)) {
+        indexes[column] = fields[field] ? await this.blindIndex(column, String(values[field])) : null;
+      }
+    }
+
+    const sealed: PiiEnvelope = { v: 1, key_id: wrapped.keyId, data_key: wrapped.wrapped, fields, masked };
+    return { envelope: Object.keys(fields).length > 0 ? JSON.stringify(sealed) : null, indexes };
+  }
+
+  /**
+   * Decrypt every field of an envelope. Only call this for callers holding
+   * the demographics:pii scope, or to carry values between records.
+   */
+  async open(envelope: string | null | undefined): Promise<Record<string, string>> {
+    if (!envelope) return {};
+
+    const parsed = JSON.parse(envelope) as PiiEnvelope;
+    const dataKey = await this.keyProvider().unwrapDataKey({ keyId: parsed.key_id, wrapped: parsed.data_key });
+
+    return Object.fromEntries(
+      Object.entries(parsed.fields).map(([field, value]) => [field, this.decrypt(dataKey, field, value)])
+    );
+  }
+
+  /**
+   * HMAC of the normalized value, or null when it cannot be indexed. The
+   * column name is part of the input so equal values in different indexes
+   * do not share a hash.
+   */
+  async blindIndex(column: BlindIndexColumn, value: string): Promise<string | null> {
+    const normalized = BLIND_INDEXES[column].normalize(value);
+    if (normalized === null) return null;
+
+    return crypto
+      .createHmac('sha256', await this.keyProvider().blindIndexKey())
+      .update(`${column}:${normalized}`)
+      .digest('hex');
+  }
+
+  private keyProvider(): KeyProvider {
+    if (!this.provider) {
+      const name = process.env.PII_KEY_PROVIDER || 'local';
+      const factory = keyProviders[name];
+      if (!factory) {
+        throw new Error(`Unknown PII_KEY_PROVIDER ${name}`);
+      }
+      this.provider = factory();
+    }
+    return this.provider;
+  }
+
+  private encrypt(dataKey: Buffer, field: string, value: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+    // Binding the field name stops a ciphertext being moved to another field
+    cipher.setAAD(Buffer.from(field));
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  private decrypt(dataKey: Buffer, field: string, value: string): string {
+    const data = Buffer.from(value, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, data.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(field));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+  }
+}
+
+export const fieldEncryptionService = new FieldEncryptionService();
@@ -1,4 +1,11 @@
-import { ServiceBusClient, ServiceBusMessage, ServiceBusSender, ServiceBusReceiver, ServiceBusAdministrationClient } from "@azure/service-bus";
+import {
+  ServiceBusClient,
+  ServiceBusMessage,
+  ServiceBusMessageBatch,
+  ServiceBusSender,
+  ServiceBusReceiver,
+  ServiceBusAdministrationClient,
+} from "@azure/service-bus";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from '@shared/utils/logger';
 import * as dotenv from "dotenv";
@@ -18,6 +25,12 @@ interface FifoQueueMessage {
   correlation_id?: string;
 }
 
+// Messages are sent in order, so the first `sent` went out and the rest did not
+export interface FifoBatchSendResult {
+  sent: number;
+  error?: unknown; // Why the remaining messages were not sent
+}
+
 class FifoQueueService {
   private serviceBusClient: ServiceBusClient | any; // Allow mock or real client
   private adminClient: ServiceBusAdministrationClient | undefined;
@@ -29,6 +42,8 @@ class FifoQueueService {
     demographics: "demographics-processing-fifo",
     webhooks: "webhook-notifications-fifo",
     documents: "document-processing",
+    guardianship: "guardianship_processing_fifo",
+    settlement: "settlement_processing_fifo",
     deadLetter: "dead-letter-processing",
   };
 
@@ -38,8 +53,16 @@ class FifoQueueService {
       // Mock Service Bus for local development
       this.serviceBusClient = {
         createSender: (queueName: string) => ({
-          sendMessages: async (messages: ServiceBusMessage | ServiceBusMessage[]) => {
-            const msgArray = Array.isArray(messages) ? messages : [messages];
+          createMessageBatch: async () => {
+            const messages: ServiceBusMessage[] = [];
+            return {
+              messages,
+              get count() { return messages.length; },
+              tryAddMessage: (message: ServiceBusMessage) => messages.push(message) > 0,
+            };
+          },
+          sendMessages: async (messages: ServiceBusMessage | ServiceBusMessage[] | { messages: ServiceBusMessage[] }) => {
+            const msgArray = Array.isArray(messages) ? messages : "messages" in messages ? messages.messages : [messages];
             this.mockMessages[queueName] = this.mockMessages[queueName] || [];
             msgArray.forEach((msg) => {
               const fifoMsg = msg.body as FifoQueueMessage;
@@ -124,46 +147,68 @@ class FifoQueueService {
     }
   }
 
+  /**
+   * Send messages in order, as few Service Bus batches as fit them. A failed
+   * send stops there and is reported with the number already sent.
+   */
   async sendMessageBatch(
     queueType: "demographics" | "webhooks" | "documents",
-    messages: Omit<FifoQueueMessage, "id" | "created_at">[],
-    batchSize: number = 100
-  ): Promise<void> {
+    messages: Omit<FifoQueueMessage, "id" | "created_at">[]
+  ): Promise<FifoBatchSendResult> {
+    const queueName = this.queueNames[queueType];
+    let sent = 0;
+    let batchIndex = 0;
+
     try {
-      const queueName = this.queueNames[queueType];
       const sender = await this.getSender(queueName);
-
-      for (let i = 0; i < messages.length; i += batchSize) {
-        const batch = messages.slice(i, i + batchSize);
-        const serviceBusMessages: ServiceBusMessage[] = batch.map((msg) => {
-          const fifoMessage: FifoQueueMessage = {
-            id: uuidv4(),
-            created_at: new Date().toISOString(),
-            ...msg,
-          };
-          return {
-            messageId: fifoMessage.id,
-            body: fifoMessage,
-            sessionId: fifoMessage.sessionId,
-            correlationId: fifoMessage.correlation_id,
-            contentType: "application/json",
-            subject: fifoMessage.type,
-            timeToLive: 24 * 60 * 60 * 1000,
-          };
-        });
-
-        await sender.sendMessages(serviceBusMessages);
-
+      const send = async (batch: ServiceBusMessageBatch) => {
+        await sender.sendMessages(batch);
+        sent += batch.count;
+        batchIndex += 1;
         logger.info("Message batch sent to FIFO queue", {
           queueName,
-          batchSize: serviceBusMessages.length,
+          batchSize: batch.count,
           totalMessages: messages.length,
-          batchIndex: Math.floor(i / batchSize) + 1,
+          batchIndex,
         });
+      };
+
+      let batch = await sender.createMessageBatch();
+
+      for (const msg of messages) {
+        const fifoMessage: FifoQueueMessage = {
+          id: uuidv4(),
+          created_at: new Date().toISOString(),
+          ...msg,
+        };
+        const serviceBusMessage: ServiceBusMessage = {
+          messageId: fifoMessage.id,
+          body: fifoMessage,
+          sessionId: fifoMessage.sessionId,
+          correlationId: fifoMessage.correlation_id,
+          contentType: "application/json",
+          subject: fifoMessage.type,
+          timeToLive: 24 * 60 * 60 * 1000,
+        };
+
+        if (batch.tryAddMessage(serviceBusMessage)) continue;
+        if (batch.count === 0) {
+          throw new Error(`Message ${fifoMessage.id} exceeds the Service Bus batch size limit`);
+        }
+
+        // The batch is full: send it and start the next with this message
+        await send(batch);
+        batch = await sender.createMessageBatch();
+        if (!batch.tryAddMessage(serviceBusMessage)) {
+          throw new Error(`Message ${fifoMessage.id} exceeds the Service Bus batch size limit`);
+        }
       }
+
+      if (batch.count > 0) await send(batch);
+      return { sent };
     } catch (error) {
-      logger.error("Error sending message batch to FIFO queue", { error, queueType });
-      throw error;
+      logger.error("Error sending message batch to FIFO queue", { error, queueType, sent, total: messages.length });
+      return { sent, error };
     }
   }
 
@@ -180,6 +225,27 @@ class FifoQueueService {
     });
   }
 
+  // A batch of records in as few queue sends as fit them, in order
+  async addDemographicsMessages(
+    lawFirm: string,
+    demographicsData: any[],
+    priority: number = 5
+  ): Promise<FifoBatchSendResult> {
+    const sessionId = this.generateSessionId("demographics", lawFirm);
+    return this.sendMessageBatch(
+      "demographics",
+      demographicsData.map((data) => ({
+        type: "demographics" as const,
+        payload: data,
+        sessionId,
+        priority,
+        retry_count: 0,
+        max_retries: 3,
+        correlation_id: data.id || uuidv4(),
+      }))
+    );
+  }
+
   async addWebhookMessage(lawFirm: string, webhookData: any, priority: number = 5): Promise<void> {
     const sessionId = this.generateSessionId("webhook", lawFirm);
     await this.sendMessage("webhooks", {
@@ -226,6 +292,34 @@ class FifoQueueService {
     });
   }
 
+  /**
+   * Tell the guardianship and settlement services that claimant records were
+   * merged, so they re-point their ClaimantGUID references to the survivor
+   */
+  async addClaimantMergedMessages(sourceIds: string[], mergedInto: string): Promise<void> {
+    const message = {
+      type: "claimant_merged",
+      ClaimantGUIDs: sourceIds,
+      merged_into: mergedInto,
+      timestamp: new Date().toISOString(),
+    };
+
+    for (const queueName of [this.queueNames.guardianship, this.queueNames.settlement]) {
+      const sender = await this.getSender(queueName);
+      const serviceBusMessage: ServiceBusMessage = {
+        messageId: uuidv4(),
+        body: message,
+        sessionId: mergedInto,
+        contentType: "application/json",
+        subject: message.type,
+      };
+
+      await sender.sendMessages(serviceBusMessage);
+
+      logger.info("Claimant merge message sent", { queueName, mergedInto, sourceIds });
+    }
+  }
+
   async getQueueStats(queueType: "demographics" | "webhooks" | "documents"): Promise<{
     activeMessages: number;
     deadLetterMessages: number;
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { KeyProvider, WrappedDataKey } from '../../types/encryption';
+import { logger } from '../../utils/logger';
+
+interface LocalKeyFile {
+  current_key_id: string;
+  master_keys: Record<string, string>; // base64, 32 bytes each
+  blind_index_key: string;
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Master keys kept in a JSON file, for development and tests. Older keys stay
+ * in master_keys after a rotation so records wrapped with them still open.
+ * Outside production a missing file is created with fresh keys.
+ */
+export class LocalFileKeyProvider implements KeyProvider {
+  readonly name = 'local';
+  private keys?: LocalKeyFile;
+
+  constructor(private readonly filePath: string) {}
+
+  async wrapDataKey(dataKey: Buffer): Promise<WrappedDataKey> {
+    const keys = this.load();
+    const keyId = keys.current_key_id;
+    const iv = crypto.randomBytes(IV_LENGTH);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey(keyId), iv);
+    cipher.setAAD(Buffer.from(keyId));
+    const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return { keyId, wrapped: Buffer.concat([iv, cipher.getAuthTag(), wrapped]).toString('base64') };
+  }
+
+  async unwrapDataKey({ keyId, wrapped }: WrappedDataKey): Promise<Buffer> {
+    const data = Buffer.from(wrapped, 'base64');
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey(keyId), data.subarray(0, IV_LENGTH));
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  async blindIndexKey(): Promise<Buffer> {
+    return Buffer.from(this.load().blind_index_key, 'base64');
+  }
+
+  private masterKey(keyId: string): Buffer {
+    const key = this.load().master_keys[keyId];
+    if (!key) {
+      throw new Error(`Master key ${keyId} not found in ${this.filePath}`);
+    }
+    return Buffer.from(key, 'base64');
+  }
+
+  private load(): LocalKeyFile {
+    if (this.keys) return this.keys;
+
+    if (!fs.existsSync(this.filePath)) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(`PII master key file ${this.filePath} not found`);
+      }
+      this.create();
+    }
+
+    this.keys = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as LocalKeyFile;
+    return this.keys;
+  }
+
+  private create(): void {
+    const keyId = `local-${new Date().toISOString().slice(0, 10)}`;
+    const keys: LocalKeyFile = {
+      current_key_id: keyId,
+      master_keys: { [keyId]: crypto.randomBytes(32).toString('base64') },
+      blind_index_key: crypto.randomBytes(32).toString('base64'),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(keys, null, 2), { mode: 0o600 });
+    logger.warn('Generated local PII master key file', { path: this.filePath });
+  }
+}
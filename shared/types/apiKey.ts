@@ -1,5 +1,12 @@
 import { z } from 'zod';
 
+// Per-key request policies
+export const ApiKeyPoliciesSchema = z.object({
+  require_if_match: z.boolean().default(false), // Updates and deletes must send If-Match
+});
+
+export type ApiKeyPolicies = z.infer<typeof ApiKeyPoliciesSchema>;
+
 export const ApiKeySchema = z.object({
   id: z.string().uuid(),
   partitionKey: z.string(), // law_firm for partitioning
@@ -26,6 +33,7 @@ export const ApiKeySchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'guardianship:read',
     'guardianship:write',
     'guardianship:delete',
@@ -48,6 +56,8 @@ export const ApiKeySchema = z.object({
   allowed_ips: z.array(z.string()).optional(),
   allowed_domains: z.array(z.string()).optional(),
   environment: z.enum(['development', 'staging', 'production']).optional(),
+
+  policies: ApiKeyPoliciesSchema.optional(),
 });
 
 export type ApiKey = z.infer<typeof ApiKeySchema>;
@@ -60,6 +70,7 @@ export const CreateApiKeyRequestSchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])).min(1),
@@ -73,6 +84,7 @@ export const CreateApiKeyRequestSchema = z.object({
   allowed_ips: z.array(z.string().ip()).optional(),
   allowed_domains: z.array(z.string()).optional(),
   environment: z.enum(['development', 'staging', 'production']).optional(),
+  policies: ApiKeyPoliciesSchema.optional(),
 });
 
 // Rate Limit Response
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { toDateOnly } from '../utils/demographics.dates';
 
 const LawFirmApprovalSchema = z.enum(['Approved', 'Hold']);
 const ClaimantTypeSchema = z.enum(['Adult', 'Minor', 'Incapacitated Adult', 'Decedent', 'Alternate', 'Municipality']);
@@ -9,6 +10,9 @@ const PronounsSchema = z.enum(['He/Him', 'She/Her', 'They/Them', 'He/They', 'She
 const AltClaimantTypeSchema = z.enum(['Personal Representative (POA)', 'Trustee', 'Estate Representative', 'Heir', 'Other']);
 const AttorneyFeeCalcMethodSchema = z.enum(['Gross', 'Net Cost']);
 const LienTypeSchema = z.enum(['Medicare', 'Medicaid', 'Private-PLRP', 'Private-Non-PLRP', 'Military/HIS', 'Other (medical)']);
+// Calendar dates (YYYY-MM-DD) - stored as SQL DATE so they round-trip without a time component.
+// ISO datetimes (1980-02-03T00:00:00Z), as integrations sent before, are taken as their date.
+const DateOnlySchema = z.preprocess(toDateOnly, z.string().date());
 
 export const DemographicsSchema = z.object({
   id: z.string().uuid(),
@@ -20,7 +24,7 @@ export const DemographicsSchema = z.object({
   firstname: z.string().max(55).optional(),
   lastname: z.string().max(75).optional(),
   email: z.string().email(),
-  phone: z.string().min(10).max(11),
+  phone: z.string().max(20),
   sf_id: z.string().max(50).optional(),
   ml_id: z.string().max(50).optional(),
   law_firm_client_id: z.string().max(50).optional(),
@@ -36,7 +40,7 @@ export const DemographicsSchema = z.object({
   probate: YesNoSchema.optional(),
   probatecleared: YesNoSchema.optional(),
   pathway_opt_in_status: YesNoSchema.optional(),
-  dod: z.string().datetime().optional(),
+  dod: DateOnlySchema.optional(),
   
   // Service Information
   serviceoptions: z.string().max(75).optional(),
@@ -60,7 +64,7 @@ export const DemographicsSchema = z.object({
   country: z.string().max(55).optional(),
   
   // Personal Details
-  dob: z.string().datetime().optional(),
+  dob: DateOnlySchema.optional(),
   ssn: z.string().max(11).optional(),
   
   // Contact Information
@@ -256,42 +260,857 @@ export const DemographicsSchema = z.object({
   updated_at: z.string().datetime(),
   created_by: z.string().uuid(),
   status: z.enum(['active', 'inactive', 'archived', 'deleted']).default('active'),
+  merged_into: z.string().uuid().optional(), // Surviving record after POST /:id/merge
+  deleted_at: z.string().datetime().optional(), // Set by a soft delete or merge, cleared on restore
+  address_raw: z.record(z.string()).optional(), // Submitted address fields that normalization changed
+  // E.164 forms of the valid phone numbers, set from the phone fields
+  phone_e164: z.string().max(16).optional(),
+  claimantmobilephone_e164: z.string().max(16).optional(),
+  claimanthomephone_e164: z.string().max(16).optional(),
+  alternateclaimantpersonalphonenumber_e164: z.string().max(16).optional(),
 });
 
 
 export type Demographics = z.infer<typeof DemographicsSchema>;
 
+// Flat v1 fields that repeat per attorney, lien, vendor and cost detail
+type AttorneySlot = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+type MedicalLienSlot = 1 | 2 | 3 | 4 | 5 | 6;
+type OtherLienSlot = 1 | 2;
+export type VendorExpenseType = z.infer<typeof VendorExpenseTypeSchema>;
+
+export type DemographicsCollectionField =
+  | `attorney${AttorneySlot}${'name' | 'feepercent' | 'fees' | 'costamount'}`
+  | `medicallien${MedicalLienSlot}name`
+  | `lienid${MedicalLienSlot}`
+  | `lientype${MedicalLienSlot}`
+  | `medicallien${MedicalLienSlot}`
+  | `otherlien${OtherLienSlot}${'name' | 'amount'}`
+  | `vendorexpense${Exclude<VendorExpenseType, 'other'>}${'' | 'name'}`
+  | 'vendorother'
+  | 'vendorothername'
+  | `attorney${AttorneySlot}name_cost`
+  | `attorney${AttorneySlot}_costdetail${'name' | 'amount'}`;
+
+const AmountSchema = z.number().max(9999999999.9999);
+const PercentSchema = z.number().max(1.0);
+// 1-based slot; defaults to the item's order in the array
+const PositionSchema = z.number().int().min(1).optional();
+
+export const VendorExpenseTypeSchema = z.enum([
+  'qsfadmin',
+  'claimsadmin',
+  'lraholdback',
+  'lrafinal',
+  'specialmaster',
+  'eifappeal',
+  'bankruptcycounsel',
+  'probatecounsel',
+  'other',
+]);
+
+export const AttorneySchema = z.object({
+  position: PositionSchema,
+  name: z.string().max(75).optional(),
+  fee_percent: PercentSchema.optional(),
+  fees: AmountSchema.optional(),
+  cost_amount: AmountSchema.optional(),
+});
+
+export const MedicalLienSchema = z.object({
+  position: PositionSchema,
+  name: z.string().max(55).optional(),
+  lien_id: z.string().max(55).optional(),
+  lien_type: LienTypeSchema.optional(),
+  amount: AmountSchema.optional(),
+});
+
+export const OtherLienSchema = z.object({
+  position: PositionSchema,
+  name: z.string().max(55).optional(),
+  amount: AmountSchema.optional(),
+});
+
+export const VendorExpenseSchema = z.object({
+  position: PositionSchema,
+  vendor_type: VendorExpenseTypeSchema,
+  name: z.string().max(55).optional(),
+  amount: AmountSchema.optional(),
+});
+
+export const AttorneyCostDetailSchema = z.object({
+  position: PositionSchema,
+  attorney_name: z.string().max(75).optional(),
+  detail_name: z.string().max(128).optional(),
+  amount: AmountSchema.optional(),
+});
+
+export type Attorney = z.infer<typeof AttorneySchema>;
+export type MedicalLien = z.infer<typeof MedicalLienSchema>;
+export type OtherLien = z.infer<typeof OtherLienSchema>;
+export type VendorExpense = z.infer<typeof VendorExpenseSchema>;
+export type AttorneyCostDetail = z.infer<typeof AttorneyCostDetailSchema>;
+
+function uniquePositions<T extends { position?: number; vendor_type?: string }>(items: T[]): boolean {
+  const keys = items
+    .filter(item => item.position !== undefined)
+    .map(item => `${item.vendor_type ?? ''}:${item.position}`);
+  return new Set(keys).size === keys.length;
+}
+
+function collection<T extends z.ZodTypeAny>(item: T) {
+  return z.array(item).default([]).refine(uniquePositions, { message: 'Duplicate position in collection' });
+}
+
+export const DEMOGRAPHICS_COLLECTION_FIELDS: DemographicsCollectionField[] = Object.keys(DemographicsSchema.shape)
+  .filter((field): field is DemographicsCollectionField =>
+    /^(attorney\d+|medicallien\d+|lienid\d+|lientype\d+|otherlien\d+|vendorexpense|vendorother)/.test(field)
+  );
+
+const collectionFieldMask = Object.fromEntries(
+  DEMOGRAPHICS_COLLECTION_FIELDS.map(field => [field, true])
+) as { [K in DemographicsCollectionField]: true };
+
+// Demographics fields stored on the Demographics table itself
+export const DemographicsCoreSchema = DemographicsSchema.omit(collectionFieldMask);
+
+export type DemographicsCore = z.infer<typeof DemographicsCoreSchema>;
+
+// v2 resource: repeating groups exposed as arrays and stored in child tables
+export const DemographicsV2Schema = DemographicsCoreSchema.extend({
+  attorneys: collection(AttorneySchema),
+  medical_liens: collection(MedicalLienSchema),
+  other_liens: collection(OtherLienSchema),
+  vendor_expenses: collection(VendorExpenseSchema),
+  attorney_cost_details: collection(AttorneyCostDetailSchema),
+});
+
+export type DemographicsV2 = z.infer<typeof DemographicsV2Schema>;
+
+// Records read back from storage carry their row version, exposed as the ETag
+export type Versioned<T> = T & { row_version: string };
+
+// Versions listed in If-Match; '*' matches any existing record
+export type ExpectedVersion = string[] | '*';
+
+export type VersionedWriteResult<T> =
+  | { status: 'ok'; record: T }
+  | { status: 'not_found' }
+  | { status: 'version_mismatch'; current_version: string };
+
+export const DEMOGRAPHICS_SORT_FIELDS = [
+  'created_at',
+  'updated_at',
+  'firstname',
+  'lastname',
+  'dob',
+  'dod',
+  'state',
+  'primarylawfirm',
+  'totalgrossaward',
+  'netclaimantpayment',
+] as const;
+
+export type DemographicsSortField = typeof DEMOGRAPHICS_SORT_FIELDS[number];
+
+export interface DemographicsSort {
+  field: DemographicsSortField;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_DEMOGRAPHICS_SORT: DemographicsSort[] = [{ field: 'created_at', direction: 'desc' }];
+
+// Fields filtered by exact match (filter_<field>)
+export const DEMOGRAPHICS_MATCH_FILTERS = [
+  'claimanttype',
+  'status',
+  'state',
+  'primarylawfirm',
+  'sf_id',
+  'ml_id',
+  'law_firm_client_id',
+  'law_firm_approval',
+  'bankruptcy',
+  'probate',
+  'liensfinal',
+] as const;
+
+// Fields filtered by an inclusive range (filter_<field>_from/_to, filter_<field>_min/_max)
+export const DEMOGRAPHICS_DATE_RANGE_FILTERS = ['created_at', 'updated_at', 'dob', 'dod'] as const;
+export const DEMOGRAPHICS_AMOUNT_RANGE_FILTERS = ['totalgrossaward', 'netclaimantpayment'] as const;
+
+export type DemographicsMatchFilter = typeof DEMOGRAPHICS_MATCH_FILTERS[number];
+export type DemographicsRangeFilter =
+  | typeof DEMOGRAPHICS_DATE_RANGE_FILTERS[number]
+  | typeof DEMOGRAPHICS_AMOUNT_RANGE_FILTERS[number];
+
+export interface DemographicsRange<T> {
+  from?: T;
+  to?: T;
+}
+
+export type DemographicsFilters = { [K in DemographicsMatchFilter]?: string } & {
+  [K in typeof DEMOGRAPHICS_DATE_RANGE_FILTERS[number]]?: DemographicsRange<string>;
+} & {
+  [K in typeof DEMOGRAPHICS_AMOUNT_RANGE_FILTERS[number]]?: DemographicsRange<number>;
+} & {
+  // Exact SSN lookups, answered from blind indexes when ssn is encrypted
+  ssn?: string;
+  ssn_last4?: string;
+  search?: string;
+};
+
+// Names indexed by phonetic key for search_mode=fuzzy
+export const DEMOGRAPHICS_NAME_SEARCH_FIELDS = [
+  'firstname',
+  'lastname',
+  'alternateclaimantfirstname',
+  'alternateclaimantlastname',
+] as const;
+
+export type DemographicsNameSearchField = typeof DEMOGRAPHICS_NAME_SEARCH_FIELDS[number];
+
+export interface DemographicsNameKey {
+  field: DemographicsNameSearchField;
+  key: string;
+}
+
+// A search result with its relevance to the search, 0 to 1
+export type Scored<T> = T & { relevance: number };
+
+export type DemographicsCursorValue = string | number | null;
+
+// Position in a sorted listing: the last row's sort values and id, plus the
+// sort it was issued for so it cannot be replayed against another ordering
+export interface DemographicsCursor {
+  sort: string;
+  values: DemographicsCursorValue[];
+  id: string;
+}
+
+export interface DemographicsPageRequest {
+  limit: number;
+  offset?: number;
+  cursor?: DemographicsCursor;
+  sort?: DemographicsSort[];
+}
+
+export interface DemographicsPage<T> {
+  records: T[];
+  has_more: boolean;
+  next_cursor?: DemographicsCursor;
+}
+
+// Who made a change, recorded with every history entry
+export interface AuditContext {
+  keyId?: string;
+  requestId?: string;
+}
+
+// pii decrypts the encrypted fields; only set for callers holding demographics:pii
+export interface DemographicsReadOptions {
+  pii?: boolean;
+}
+
+/**
+ * How a value is shown to callers without demographics:pii:
+ * ssn       ***-**-1234
+ * year      birth year only
+ * email     first letter and domain, j***@example.com
+ * phone     ***-***-1234
+ * redact    ***
+ */
+export type PiiMask = 'ssn' | 'year' | 'email' | 'phone' | 'redact';
+
+// Masking policy per field; fields not listed are returned as stored
+export const DEMOGRAPHICS_PII_MASKS: Partial<Record<keyof DemographicsCore, PiiMask>> = {
+  ssn: 'ssn',
+  alternateclaimantssn: 'ssn',
+  dob: 'year',
+  alternateclaimantdob: 'year',
+  email: 'email',
+  claimantpersonalemail: 'email',
+  claimantbusinessemail: 'email',
+  claimantotheremail: 'email',
+  alternateclaimantpersonalemail: 'email',
+  phone: 'phone',
+  claimantmobilephone: 'phone',
+  claimanthomephone: 'phone',
+  alternateclaimantpersonalphonenumber: 'phone',
+  phone_e164: 'phone',
+  claimantmobilephone_e164: 'phone',
+  claimanthomephone_e164: 'phone',
+  alternateclaimantpersonalphonenumber_e164: 'phone',
+  address1: 'redact',
+  address2: 'redact',
+  careof: 'redact',
+  alternateclaimantaddress1: 'redact',
+  alternateclaimantaddress2: 'redact',
+};
+
+export type DemographicsHistoryAction = 'create' | 'update' | 'delete' | 'merge' | 'restore';
+
+export interface DemographicsFieldChange {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+export interface DemographicsHistoryEntry {
+  demographic_id: string;
+  action: DemographicsHistoryAction;
+  changes: DemographicsFieldChange[];
+  key_id?: string;
+  request_id?: string;
+  changed_at: string;
+}
+
+export type DemographicsCollectionKey =
+  | 'attorneys'
+  | 'medical_liens'
+  | 'other_liens'
+  | 'vendor_expenses'
+  | 'attorney_cost_details';
+
+export const CreateDemographicsV2RequestSchema = DemographicsV2Schema.omit({
+  id: true,
+  partitionKey: true,
+  created_at: true,
+  updated_at: true,
+  created_by: true,
+  merged_into: true,
+  deleted_at: true,
+  address_raw: true,
+  phone_e164: true,
+  claimantmobilephone_e164: true,
+  claimanthomephone_e164: true,
+  alternateclaimantpersonalphonenumber_e164: true,
+});
+
+export type CreateDemographicsV2Request = z.infer<typeof CreateDemographicsV2RequestSchema>;
+
+// sort=lastname:asc,created_at:desc (direction defaults to asc)
+const DemographicsSortQuerySchema = z.string().transform((value, ctx): DemographicsSort[] => {
+  const sort: DemographicsSort[] = [];
+
+  for (const part of value.split(',').map(item => item.trim()).filter(Boolean)) {
+    const [field, direction = 'asc'] = part.split(':');
+    if (!(DEMOGRAPHICS_SORT_FIELDS as readonly string[]).includes(field)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Cannot sort by ${field}` });
+      return z.NEVER;
+    }
+    if (direction !== 'asc' && direction !== 'desc') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Sort direction must be asc or desc` });
+      return z.NEVER;
+    }
+    if (sort.some(item => item.field === field)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate sort field ${field}` });
+      return z.NEVER;
+    }
+    sort.push({ field: field as DemographicsSortField, direction });
+  }
+
+  if (sort.length === 0 || sort.length > 4) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Sort must list between 1 and 4 fields' });
+    return z.NEVER;
+  }
+
+  return sort;
+});
+
+const DateFilterSchema = z.union([z.string().date(), z.string().datetime({ offset: true })]);
+const AmountFilterSchema = z.coerce.number().min(-9999999999.9999).max(9999999999.9999);
+
 export const GetDemographicsQuerySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(50).optional(),
-  offset: z.coerce.number().min(0).default(0).optional(),
-  filter_claimanttype: z.string().optional(),
-  filter_status: z.string().optional(),
-  search: z.string().optional(),
+  offset: z.coerce.number().min(0).default(0).optional(), // Superseded by cursor, kept for existing clients
+  cursor: z.string().max(1024).optional(),
+  sort: DemographicsSortQuerySchema.optional(),
+  filter_claimanttype: ClaimantTypeSchema.optional(),
+  filter_status: z.enum(['active', 'inactive', 'archived']).optional(),
+  filter_state: z.string().length(2).optional(),
+  filter_primarylawfirm: z.string().max(75).optional(),
+  filter_sf_id: z.string().max(50).optional(),
+  filter_ml_id: z.string().max(50).optional(),
+  filter_law_firm_client_id: z.string().max(50).optional(),
+  filter_law_firm_approval: LawFirmApprovalSchema.optional(),
+  filter_bankruptcy: YesNoSchema.optional(),
+  filter_probate: YesNoSchema.optional(),
+  filter_liensfinal: YesNoSchema.optional(),
+  filter_created_at_from: DateFilterSchema.optional(),
+  filter_created_at_to: DateFilterSchema.optional(),
+  filter_updated_at_from: DateFilterSchema.optional(),
+  filter_updated_at_to: DateFilterSchema.optional(),
+  filter_dob_from: z.string().date().optional(),
+  filter_dob_to: z.string().date().optional(),
+  filter_dod_from: z.string().date().optional(),
+  filter_dod_to: z.string().date().optional(),
+  filter_totalgrossaward_min: AmountFilterSchema.optional(),
+  filter_totalgrossaward_max: AmountFilterSchema.optional(),
+  filter_netclaimantpayment_min: AmountFilterSchema.optional(),
+  filter_netclaimantpayment_max: AmountFilterSchema.optional(),
+  filter_ssn: z.string().regex(/^\d{3}-?\d{2}-?\d{4}$/, 'Expected a 9 digit SSN').optional(),
+  filter_ssn_last4: z.string().regex(/^\d{4}$/, 'Expected 4 digits').optional(),
+  search: z.string().max(100).optional(),
+  search_mode: z.enum(['contains', 'fuzzy']).default('contains').optional(),
+}).superRefine((query, ctx) => {
+  // Fuzzy results are ranked by relevance and paged by offset
+  if (query.search_mode !== 'fuzzy') return;
+
+  if (!query.search?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['search'], message: 'search is required with search_mode=fuzzy' });
+  }
+  for (const field of ['sort', 'cursor'] as const) {
+    if (query[field] !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} cannot be combined with search_mode=fuzzy` });
+    }
+  }
 });
 
 export type GetDemographicsQuery = z.infer<typeof GetDemographicsQuerySchema>
 
+export const GetDemographicByIdQuerySchema = z.object({
+  as_of: z.string().datetime({ offset: true }).optional(),
+});
+
+export type GetDemographicByIdQuery = z.infer<typeof GetDemographicByIdQuerySchema>;
+
+export const GetDemographicsHistoryQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(50).optional(),
+  offset: z.coerce.number().min(0).default(0).optional(),
+});
+
+export type GetDemographicsHistoryQuery = z.infer<typeof GetDemographicsHistoryQuerySchema>;
+
 export const CreateDemographicsRequestSchema = DemographicsSchema.omit({
   id: true,
   partitionKey: true,
   created_at: true,
   updated_at: true,
   created_by: true,
+  merged_into: true,
+  deleted_at: true,
+  address_raw: true,
+  phone_e164: true,
+  claimantmobilephone_e164: true,
+  claimanthomephone_e164: true,
+  alternateclaimantpersonalphonenumber_e164: true,
 });
 
 export type CreateDemographicsRequest = z.infer<typeof CreateDemographicsRequestSchema>;
 
+// Fields set by the API itself; a PATCH may never change them
+export const IMMUTABLE_DEMOGRAPHICS_FIELDS = [
+  'id',
+  'partitionKey',
+  'law_firm',
+  'created_by',
+  'created_at',
+  'updated_at',
+  'status',
+  'merged_into',
+  'deleted_at',
+  'row_version',
+] as const;
+
+export type ImmutableDemographicsField = typeof IMMUTABLE_DEMOGRAPHICS_FIELDS[number];
+
+type MergePatchShape<T extends z.ZodRawShape> = {
+  [K in keyof T]: T[K] extends z.ZodOptional<infer U> ? z.ZodOptional<z.ZodNullable<U>> : z.ZodOptional<T[K]>;
+};
+
+/**
+ * JSON Merge Patch (RFC 7386) view of a shape: every field becomes optional
+ * and optional fields also accept null, which clears the stored value.
+ * Required fields cannot be cleared.
+ */
+function mergePatchShape<T extends z.ZodRawShape>(shape: T): MergePatchShape<T> {
+  return Object.fromEntries(
+    Object.entries(shape).map(([field, schema]) => [
+      field,
+      schema instanceof z.ZodOptional ? schema.unwrap().nullable().optional() : schema.optional(),
+    ])
+  ) as MergePatchShape<T>;
+}
+
+const immutableFieldShape = Object.fromEntries(
+  IMMUTABLE_DEMOGRAPHICS_FIELDS.map(field => [
+    field,
+    z.never({ invalid_type_error: `${field} is immutable` }).optional(),
+  ])
+) as { [K in ImmutableDemographicsField]: z.ZodOptional<z.ZodNever> };
+
+const patchableShape = CreateDemographicsRequestSchema.omit({ law_firm: true, status: true }).shape;
+
+export const PatchDemographicsRequestSchema = z
+  .object({
+    ...mergePatchShape(patchableShape),
+    ...immutableFieldShape,
+  })
+  .strict()
+  .refine(patch => Object.keys(patch).length > 0, { message: 'At least one field must be provided' });
+
+export type PatchDemographicsRequest = z.infer<typeof PatchDemographicsRequestSchema>;
+
+// Column-level changes to a stored record; null clears the column
+export type DemographicsChanges = { [K in keyof Demographics]?: Demographics[K] | null };
+
+// How a create treats a likely duplicate of an existing record
+export const OnDuplicateSchema = z.enum(['flag', 'reject', 'allow']);
+
+export type OnDuplicate = z.infer<typeof OnDuplicateSchema>;
+
+// How a create treats the financial totals: strict rejects totals that do not
+// add up from their components, derive fills in the totals that were not sent
+export const FinancialsModeSchema = z.enum(['strict', 'derive']);
+
+export type FinancialsMode = z.infer<typeof FinancialsModeSchema>;
+
+export const CreateDemographicsQuerySchema = z.object({
+  on_duplicate: OnDuplicateSchema.default('flag').optional(),
+  financials: FinancialsModeSchema.optional(),
+});
+
+export type CreateDemographicsQuery = z.infer<typeof CreateDemographicsQuerySchema>;
+
+export const CreateDemographicsV2QuerySchema = CreateDemographicsQuerySchema.pick({ financials: true });
+
+export type CreateDemographicsV2Query = z.infer<typeof CreateDemographicsV2QuerySchema>;
+
+// The client id identifies the record, so an upsert has no duplicate detection
+export const UpsertDemographicsQuerySchema = CreateDemographicsQuerySchema.pick({ financials: true });
+
+export type UpsertDemographicsQuery = z.infer<typeof UpsertDemographicsQuerySchema>;
+
+export const DEMOGRAPHICS_FINANCIAL_TOTALS = [
+  'totalgrossaward',
+  'commonbenefittotal',
+  'commonbenefitattorneyshareamount',
+  'commonbenefitclaimantshareamount',
+  'totalnetattorneycost',
+  'grosscontingencyfeeamount',
+  'grossattorneyfeeamount',
+  'totalnetattorneyfee',
+  'totalmedicalliens',
+  'othertotalliens',
+  'totaladmincost',
+  'netclaimantpayment',
+] as const;
+
+export type DemographicsFinancialTotal = typeof DEMOGRAPHICS_FINANCIAL_TOTALS[number];
+
+export interface DemographicsFinancialLine {
+  field: DemographicsFinancialTotal;
+  formula: string;
+  computed: string; // Exact decimal, rounded to cents
+  submitted?: number;
+  status: 'derived' | 'matched' | 'mismatch';
+}
+
+// Computation breakdown returned with a create that asked for ?financials
+export interface DemographicsFinancials {
+  mode: FinancialsMode;
+  lines: DemographicsFinancialLine[];
+  derived: DemographicsFinancialTotal[]; // Filled in on the record (derive mode)
+  mismatches: DemographicsFinancialTotal[];
+}
+
+export const DUPLICATE_MATCH_RULES = ['ssn', 'dob_lastname', 'email', 'phone'] as const;
+
+export type DuplicateMatchRule = typeof DUPLICATE_MATCH_RULES[number];
+
+export interface DemographicsDuplicateMatch {
+  id: string;
+  score: number;
+  matched_on: DuplicateMatchRule[];
+  batch_index?: number; // Set when the match is an earlier item of the same batch
+}
+
+// Identifiers from the law firm's own systems. Each is unique among a law
+// firm's records that are not deleted, and records can be addressed by it.
+export const DEMOGRAPHICS_EXTERNAL_ID_FIELDS = ['sf_id', 'ml_id', 'law_firm_client_id', 'otherid'] as const;
+
+export type DemographicsExternalIdField = typeof DEMOGRAPHICS_EXTERNAL_ID_FIELDS[number];
+
+export const DemographicsExternalIdParamsSchema = z.object({
+  field: z.enum(DEMOGRAPHICS_EXTERNAL_ID_FIELDS),
+  value: z.string().min(1).max(50),
+});
+
+export type DemographicsExternalIdParams = z.infer<typeof DemographicsExternalIdParamsSchema>;
+
+export const UpsertDemographicsParamsSchema = z.object({
+  law_firm_client_id: z.string().min(1).max(50),
+});
+
+export type UpsertDemographicsParams = z.infer<typeof UpsertDemographicsParamsSchema>;
+
+export interface DemographicsExternalId {
+  field: DemographicsExternalIdField;
+  value: string;
+}
+
+// An external id that another record already holds
+export interface DemographicsExternalIdConflict extends DemographicsExternalId {
+  id: string;
+  batch_index?: number; // Set when the holder is an earlier item of the same batch
+}
+
+export const MergeDemographicsRequestSchema = z.object({
+  source_ids: z.array(z.string().uuid()).min(1).max(10)
+    .refine(ids => new Set(ids.map(id => id.toLowerCase())).size === ids.length, { message: 'source_ids must be unique' }),
+});
+
+export type MergeDemographicsRequest = z.infer<typeof MergeDemographicsRequestSchema>;
+
+// Whether an upsert created the record or updated the one holding its id
+export type DemographicsUpsertResult<T> =
+  | { status: 'created'; record: T }
+  | { status: 'updated'; record: T };
+
+export type DemographicsMergeResult<T> =
+  | VersionedWriteResult<T>
+  | { status: 'source_not_found'; source_ids: string[] };
+
 export const BatchSubmitSchema = z.object({
-  demographics: z.array(CreateDemographicsRequestSchema).min(1).max(100),
+  // Items are bulk inserted and queued together, so a batch costs a few round trips at any size
+  demographics: z.array(CreateDemographicsRequestSchema).min(1).max(1000),
   webhook_url: z.string().url().optional(),
   webhook_events: z.array(z.enum(['created', 'updated', 'processed', 'failed'])).optional(),
   batch_options: z.object({
     priority: z.number().min(1).max(10).default(5),
     process_immediately: z.boolean().default(false),
     notify_on_completion: z.boolean().default(true),
+    // All items are created in one transaction, or none are
+    atomic: z.boolean().default(false),
+  }).optional(),
+});
+
+/**
+ * One entry of a bulk update: the record, by exactly one of its ids, and its
+ * changes. Changes are checked against PatchDemographicsRequestSchema entry by
+ * entry, so an invalid one is reported without refusing the request.
+ */
+export const BulkUpdateDemographicsEntrySchema = z.object({
+  id: z.string().uuid().optional(),
+  sf_id: z.string().min(1).max(50).optional(),
+  law_firm_client_id: z.string().min(1).max(50).optional(),
+  changes: z.record(z.unknown()),
+}).refine(
+  entry => [entry.id, entry.sf_id, entry.law_firm_client_id].filter(value => value !== undefined).length === 1,
+  { message: 'Exactly one of id, sf_id or law_firm_client_id is required' }
+);
+
+export type BulkUpdateDemographicsEntry = z.infer<typeof BulkUpdateDemographicsEntrySchema>;
+
+export const BulkUpdateDemographicsRequestSchema = z.object({
+  updates: z.array(BulkUpdateDemographicsEntrySchema).min(1).max(500),
+  batch_options: z.object({
+    // All entries are applied in one transaction, or none are
+    atomic: z.boolean().default(false),
   }).optional(),
 });
 
+export type BulkUpdateDemographicsRequest = z.infer<typeof BulkUpdateDemographicsRequestSchema>;
+
+// Outcome of an all-or-nothing bulk update: every record, or the first entry whose record was gone
+export type DemographicsBulkUpdateResult<T> =
+  | { status: 'ok'; records: T[] }
+  | { status: 'not_found'; index: number };
+
+// State of one item of a batch submission. Items refused when the batch was
+// accepted (invalid, duplicate, not saved) are failed with the reason.
+export type DemographicsBatchItemStatus = 'accepted' | 'processing' | 'processed' | 'failed';
+
+export const TERMINAL_BATCH_ITEM_STATUSES: DemographicsBatchItemStatus[] = ['processed', 'failed'];
+
+export interface DemographicsBatchItem {
+  index: number; // Position in the submitted demographics array
+  id?: string; // Record id, for items that were saved
+  status: DemographicsBatchItemStatus;
+  reason?: string; // Why the item failed
+  updated_at: string;
+}
+
+// A batch is completed once every item is processed or failed
+export interface DemographicsBatch {
+  correlation_id: string;
+  law_firm: string;
+  batch_size: number;
+  status: 'processing' | 'completed';
+  webhook_url?: string;
+  notify_on_completion: boolean; // demographics.batch_completed is sent on completion
+  items: DemographicsBatchItem[];
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+// Severity of a cross-field business rule; each law firm may set every rule to either
+export const RuleSeveritySchema = z.enum(['error', 'warning']);
+
+export type RuleSeverity = z.infer<typeof RuleSeveritySchema>;
+
+export interface DemographicsRuleViolation {
+  code: string;
+  severity: RuleSeverity;
+  field: string; // Path in the submitted payload, as in validation errors (attorneys.2.fee_percent)
+  message: string;
+}
+
+export interface DemographicsRuleSetting {
+  code: string;
+  description: string;
+  default_severity: RuleSeverity;
+  severity: RuleSeverity; // Effective for the law firm
+}
+
+export const UpdateDemographicsRuleRequestSchema = z.object({
+  severity: RuleSeveritySchema,
+});
+
+export type UpdateDemographicsRuleRequest = z.infer<typeof UpdateDemographicsRuleRequestSchema>;
+
+// Days a law firm keeps soft deleted records before they are purged; firms without one keep them
+export interface DemographicsRetentionSetting {
+  law_firm: string;
+  retention_days: number;
+  updated_by?: string;
+  updated_at: string;
+}
+
+export const UpdateDemographicsRetentionRequestSchema = z.object({
+  retention_days: z.number().int().min(1).max(36500).nullable(), // null keeps deleted records
+});
+
+export type UpdateDemographicsRetentionRequest = z.infer<typeof UpdateDemographicsRetentionRequestSchema>;
+
+// A record under legal hold is never purged, deleted or not
+export interface DemographicsLegalHold {
+  demographic_id: string;
+  law_firm: string;
+  reason: string;
+  placed_by?: string;
+  placed_at: string;
+}
+
+export const PlaceDemographicsLegalHoldRequestSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+export type PlaceDemographicsLegalHoldRequest = z.infer<typeof PlaceDemographicsLegalHoldRequestSchema>;
+
+// What is kept of a purged record: its ids and when it was deleted and purged, none of its data
+export interface DemographicsTombstone {
+  demographic_id: string;
+  law_firm: string;
+  sf_id?: string;
+  law_firm_client_id?: string;
+  deleted_at: string;
+  purged_at: string;
+  retention_days: number;
+  history_entries: number; // History entries purged with it
+}
+
+// Columns a CSV or XLSX import may map to; the law firm and status are set by the API
+export const DEMOGRAPHICS_IMPORT_FIELDS = Object.keys(
+  CreateDemographicsRequestSchema.omit({ law_firm: true, status: true }).shape
+) as (keyof CreateDemographicsRequest & string)[];
+
+export const DemographicsImportFormatSchema = z.enum(['csv', 'xlsx']);
+
+export type DemographicsImportFormat = z.infer<typeof DemographicsImportFormatSchema>;
+
+export type DemographicsImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// A file sent directly is a multipart upload (field "file"); one already
+// uploaded through a documents SAS URL is referenced by its blob name
+export const CreateDemographicsImportRequestSchema = z.object({
+  blob_name: z.string().min(1).max(1024).optional(),
+  format: DemographicsImportFormatSchema.optional(), // Else from the file extension
+});
+
+export type CreateDemographicsImportRequest = z.infer<typeof CreateDemographicsImportRequestSchema>;
+
+export interface DemographicsImportError {
+  row: number; // Spreadsheet row number; the header is row 1
+  field: string; // Demographics field, as in validation errors
+  message: string;
+}
+
+export interface DemographicsImport {
+  id: string;
+  law_firm: string;
+  file_name: string;
+  format: DemographicsImportFormat;
+  status: DemographicsImportStatus;
+  total_rows: number;
+  processed_rows: number;
+  queued_rows: number;
+  rejected_rows: number;
+  unmapped_columns: string[]; // Headers that matched no field or alias; ignored
+  error?: string; // Why the whole file failed
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
+// Per law firm header aliases: normalized header -> demographics field
+export const UpdateDemographicsImportAliasesRequestSchema = z.object({
+  aliases: z.record(
+    z.string().min(1).max(100),
+    z.string().refine(
+      field => (DEMOGRAPHICS_IMPORT_FIELDS as string[]).includes(field),
+      { message: 'Not an importable demographics field' }
+    )
+  ).refine(aliases => Object.keys(aliases).length <= 500, { message: 'At most 500 aliases' }),
+});
+
+export type UpdateDemographicsImportAliasesRequest = z.infer<typeof UpdateDemographicsImportAliasesRequestSchema>;
+
+// Fields an export may select, in v1 (flat) form; partitionKey duplicates law_firm
+export const DEMOGRAPHICS_EXPORT_FIELDS = Object.keys(DemographicsSchema.omit({ partitionKey: true, address_raw: true }).shape) as
+  (keyof Demographics & string)[];
+
+export const DemographicsExportFormatSchema = z.enum(['csv', 'xlsx', 'ndjson']);
+
+export type DemographicsExportFormat = z.infer<typeof DemographicsExportFormatSchema>;
+
+export type DemographicsExportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// The list filters and sort (no paging or fuzzy search), the fields to write and the file format
+export const CreateDemographicsExportRequestSchema = GetDemographicsQuerySchema.innerType()
+  .omit({ limit: true, offset: true, cursor: true, search_mode: true })
+  .extend({
+    format: DemographicsExportFormatSchema,
+    fields: z.array(z.string().refine(
+      field => (DEMOGRAPHICS_EXPORT_FIELDS as string[]).includes(field),
+      { message: 'Not an exportable demographics field' }
+    )).min(1).optional(), // Every field when not set
+    webhook_url: z.string().url().optional(),
+  });
+
+export type CreateDemographicsExportRequest = z.infer<typeof CreateDemographicsExportRequestSchema>;
+
+export interface DemographicsExport {
+  id: string;
+  law_firm: string;
+  format: DemographicsExportFormat;
+  fields: string[];
+  filters: DemographicsFilters;
+  sort: DemographicsSort[];
+  status: DemographicsExportStatus;
+  pii: boolean; // Written unmasked for a caller with demographics:pii; only such callers may download it
+  row_count: number; // Rows written so far
+  blob_name?: string; // Set once complete
+  error?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  completed_at?: string;
+}
+
 // API Key Schemas (from your example)
 export const ApiKeySchema = z.object({
   id: z.string().uuid(),
@@ -316,6 +1135,7 @@ export const ApiKeySchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])),
@@ -345,6 +1165,7 @@ export const CreateApiKeyRequestSchema = z.object({
     'demographics:write', 
     'demographics:delete',
     'demographics:admin',
+    'demographics:pii',
     'webhooks:manage',
     'files:upload'
   ])).min(1),
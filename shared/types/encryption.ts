@@ -0,0 +1,44 @@
+/**
+ * Holder of the master key. Data keys are generated per record and only ever
+ * stored wrapped; unwrapping goes back to the master key named by keyId, so
+ * a rotated provider can still open older records.
+ */
+export interface KeyProvider {
+  readonly name: string;
+  wrapDataKey(dataKey: Buffer): Promise<WrappedDataKey>;
+  unwrapDataKey(wrapped: WrappedDataKey): Promise<Buffer>;
+  // Secret the blind indexes are keyed with. It must survive master key
+  // rotation, otherwise stored indexes stop matching.
+  blindIndexKey(): Promise<Buffer>;
+}
+
+export interface WrappedDataKey {
+  keyId: string;
+  wrapped: string; // base64
+}
+
+/**
+ * The encrypted fields of one record, stored as JSON in pii_envelope. Each
+ * field is base64 of IV | auth tag | ciphertext under the record's data key.
+ * masked holds what callers without demographics:pii see of each field, so
+ * their reads never decrypt.
+ */
+export interface PiiEnvelope {
+  v: 1;
+  key_id: string;
+  data_key: string;
+  fields: Record<string, string>;
+  masked?: Record<string, string>;
+}
+
+// Keyed hashes of encrypted values that exact-match lookups run against
+export const BLIND_INDEX_COLUMNS = ['ssn_bidx', 'ssn_last4_bidx', 'dob_bidx'] as const;
+
+export type BlindIndexColumn = typeof BLIND_INDEX_COLUMNS[number];
+
+export type BlindIndexes = Partial<Record<BlindIndexColumn, string | null>>;
+
+export interface SealedPii {
+  envelope: string | null;
+  indexes: BlindIndexes;
+}
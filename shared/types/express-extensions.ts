@@ -1,4 +1,6 @@
 import { Request } from 'express';
+import { ApiKeyPolicies } from './apiKey';
+import { DemographicsRuleViolation } from './demographics';
 
 export interface ApiKey {
   id: string;
@@ -26,6 +28,7 @@ export interface ApiKey {
   allowed_ips?: string[];
   allowed_domains?: string[];
   environment?: string;
+  policies?: ApiKeyPolicies;
 }
 
 export interface AuthContext {
@@ -42,6 +45,8 @@ declare global {
       requestId?: string;
       rawBody?: string;
       auth?: AuthContext; // Optional since some routes allow anonymous access
+      ifMatch?: string[] | '*'; // Parsed If-Match header, see concurrency.middleware
+      ruleWarnings?: DemographicsRuleViolation[]; // Warning-severity rule violations, see validation.middleware
     }
   }
 }
@@ -0,0 +1,58 @@
+import {
+  DemographicsCore,
+  DemographicsCursor,
+  DemographicsPage,
+  DemographicsSort,
+} from '../types/demographics';
+import { sortValues } from './demographics.filters';
+
+export function sortKey(sort: DemographicsSort[]): string {
+  return sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+}
+
+/**
+ * Cursors are opaque to clients: base64url encoded JSON of the sort they
+ * were issued for and the last row's sort values and id
+ */
+export function encodeCursor(cursor: DemographicsCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.values, cursor.id])).toString('base64url');
+}
+
+/**
+ * Returns null for anything that was not produced by encodeCursor for the
+ * same sort
+ */
+export function decodeCursor(value: string, sort: DemographicsSort[]): DemographicsCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [cursorSort, values, id] = decoded;
+    if (cursorSort !== sortKey(sort)) return null;
+    if (!Array.isArray(values) || values.length !== sort.length) return null;
+    if (!values.every(item => item === null || typeof item === 'string' || typeof item === 'number')) return null;
+    if (typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+
+    return { sort: cursorSort, values, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wrap a page of records, pointing next_cursor at the last one when more follow
+ */
+export function toDemographicsPage<T extends DemographicsCore>(
+  records: T[],
+  hasMore: boolean,
+  sort: DemographicsSort[]
+): DemographicsPage<T> {
+  const last = records[records.length - 1];
+  return {
+    records,
+    has_more: hasMore,
+    ...(hasMore && last && {
+      next_cursor: { sort: sortKey(sort), values: sortValues(last, sort), id: last.id },
+    }),
+  };
+}
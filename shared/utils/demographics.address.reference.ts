@@ -0,0 +1,545 @@
+/**
+ * Offline reference data for address normalization: USPS state codes with
+ * the ZIP prefixes they use, ISO 3166-1 countries, and the USPS Publication 28
+ * street suffix and secondary unit designator abbreviations.
+ */
+
+/**
+ * USPS state and territory codes, including the freely associated states and
+ * the military "states", with the 3-digit ZIP prefixes assigned to each as
+ * inclusive ranges. A prefix can belong to more than one code.
+ */
+export const US_STATE_ZIP_PREFIXES: Record<string, [number, number][]> = {
+  AL: [[350, 369]],
+  AK: [[995, 999]],
+  AZ: [[850, 865]],
+  AR: [[716, 729]],
+  CA: [[900, 961]],
+  CO: [[800, 816]],
+  CT: [[60, 69]],
+  DE: [[197, 199]],
+  DC: [[200, 200], [202, 205], [569, 569]],
+  FL: [[320, 339], [341, 349]],
+  GA: [[300, 319], [398, 399]],
+  HI: [[967, 968]],
+  ID: [[832, 838]],
+  IL: [[600, 629]],
+  IN: [[460, 479]],
+  IA: [[500, 528]],
+  KS: [[660, 679]],
+  KY: [[400, 427]],
+  LA: [[700, 714]],
+  ME: [[39, 49]],
+  MD: [[206, 219]],
+  MA: [[10, 27], [55, 55]],
+  MI: [[480, 499]],
+  MN: [[550, 567]],
+  MS: [[386, 397]],
+  MO: [[630, 658]],
+  MT: [[590, 599]],
+  NE: [[680, 693]],
+  NV: [[889, 898]],
+  NH: [[30, 38]],
+  NJ: [[70, 89]],
+  NM: [[870, 884]],
+  NY: [[5, 5], [63, 63], [100, 149]],
+  NC: [[270, 289]],
+  ND: [[580, 588]],
+  OH: [[430, 459]],
+  OK: [[730, 731], [734, 749]],
+  OR: [[970, 979]],
+  PA: [[150, 196]],
+  RI: [[28, 29]],
+  SC: [[290, 299]],
+  SD: [[570, 577]],
+  TN: [[370, 385]],
+  TX: [[733, 733], [750, 799], [885, 885]],
+  UT: [[840, 847]],
+  VT: [[50, 54], [56, 59]],
+  VA: [[201, 201], [220, 246]],
+  WA: [[980, 994]],
+  WV: [[247, 268]],
+  WI: [[530, 549]],
+  WY: [[820, 831], [834, 834]],
+  AS: [[967, 967]],
+  GU: [[969, 969]],
+  MP: [[969, 969]],
+  PR: [[6, 7], [9, 9]],
+  VI: [[8, 8]],
+  FM: [[969, 969]],
+  MH: [[969, 969]],
+  PW: [[969, 969]],
+  AA: [[340, 340]],
+  AE: [[90, 98]],
+  AP: [[962, 966]],
+};
+
+// Countries whose addresses are USPS domestic mail, with a state and ZIP code
+export const US_POSTAL_COUNTRIES = new Set(['US', 'AS', 'FM', 'GU', 'MH', 'MP', 'PR', 'PW', 'VI']);
+
+// ISO 3166-1: alpha-2, alpha-3 and English short name
+export const ISO_COUNTRIES: [string, string, string][] = [
+  ['AD', 'AND', 'Andorra'],
+  ['AE', 'ARE', 'United Arab Emirates'],
+  ['AF', 'AFG', 'Afghanistan'],
+  ['AG', 'ATG', 'Antigua and Barbuda'],
+  ['AI', 'AIA', 'Anguilla'],
+  ['AL', 'ALB', 'Albania'],
+  ['AM', 'ARM', 'Armenia'],
+  ['AO', 'AGO', 'Angola'],
+  ['AQ', 'ATA', 'Antarctica'],
+  ['AR', 'ARG', 'Argentina'],
+  ['AS', 'ASM', 'American Samoa'],
+  ['AT', 'AUT', 'Austria'],
+  ['AU', 'AUS', 'Australia'],
+  ['AW', 'ABW', 'Aruba'],
+  ['AX', 'ALA', 'Åland Islands'],
+  ['AZ', 'AZE', 'Azerbaijan'],
+  ['BA', 'BIH', 'Bosnia and Herzegovina'],
+  ['BB', 'BRB', 'Barbados'],
+  ['BD', 'BGD', 'Bangladesh'],
+  ['BE', 'BEL', 'Belgium'],
+  ['BF', 'BFA', 'Burkina Faso'],
+  ['BG', 'BGR', 'Bulgaria'],
+  ['BH', 'BHR', 'Bahrain'],
+  ['BI', 'BDI', 'Burundi'],
+  ['BJ', 'BEN', 'Benin'],
+  ['BL', 'BLM', 'Saint Barthélemy'],
+  ['BM', 'BMU', 'Bermuda'],
+  ['BN', 'BRN', 'Brunei Darussalam'],
+  ['BO', 'BOL', 'Bolivia'],
+  ['BQ', 'BES', 'Bonaire, Sint Eustatius and Saba'],
+  ['BR', 'BRA', 'Brazil'],
+  ['BS', 'BHS', 'Bahamas'],
+  ['BT', 'BTN', 'Bhutan'],
+  ['BV', 'BVT', 'Bouvet Island'],
+  ['BW', 'BWA', 'Botswana'],
+  ['BY', 'BLR', 'Belarus'],
+  ['BZ', 'BLZ', 'Belize'],
+  ['CA', 'CAN', 'Canada'],
+  ['CC', 'CCK', 'Cocos (Keeling) Islands'],
+  ['CD', 'COD', 'Congo, Democratic Republic of the'],
+  ['CF', 'CAF', 'Central African Republic'],
+  ['CG', 'COG', 'Congo'],
+  ['CH', 'CHE', 'Switzerland'],
+  ['CI', 'CIV', "Côte d'Ivoire"],
+  ['CK', 'COK', 'Cook Islands'],
+  ['CL', 'CHL', 'Chile'],
+  ['CM', 'CMR', 'Cameroon'],
+  ['CN', 'CHN', 'China'],
+  ['CO', 'COL', 'Colombia'],
+  ['CR', 'CRI', 'Costa Rica'],
+  ['CU', 'CUB', 'Cuba'],
+  ['CV', 'CPV', 'Cabo Verde'],
+  ['CW', 'CUW', 'Curaçao'],
+  ['CX', 'CXR', 'Christmas Island'],
+  ['CY', 'CYP', 'Cyprus'],
+  ['CZ', 'CZE', 'Czechia'],
+  ['DE', 'DEU', 'Germany'],
+  ['DJ', 'DJI', 'Djibouti'],
+  ['DK', 'DNK', 'Denmark'],
+  ['DM', 'DMA', 'Dominica'],
+  ['DO', 'DOM', 'Dominican Republic'],
+  ['DZ', 'DZA', 'Algeria'],
+  ['EC', 'ECU', 'Ecuador'],
+  ['EE', 'EST', 'Estonia'],
+  ['EG', 'EGY', 'Egypt'],
+  ['EH', 'ESH', 'Western Sahara'],
+  ['ER', 'ERI', 'Eritrea'],
+  ['ES', 'ESP', 'Spain'],
+  ['ET', 'ETH', 'Ethiopia'],
+  ['FI', 'FIN', 'Finland'],
+  ['FJ', 'FJI', 'Fiji'],
+  ['FK', 'FLK', 'Falkland Islands (Malvinas)'],
+  ['FM', 'FSM', 'Micronesia, Federated States of'],
+  ['FO', 'FRO', 'Faroe Islands'],
+  ['FR', 'FRA', 'France'],
+  ['GA', 'GAB', 'Gabon'],
+  ['GB', 'GBR', 'United Kingdom of Great Britain and Northern Ireland'],
+  ['GD', 'GRD', 'Grenada'],
+  ['GE', 'GEO', 'Georgia'],
+  ['GF', 'GUF', 'French Guiana'],
+  ['GG', 'GGY', 'Guernsey'],
+  ['GH', 'GHA', 'Ghana'],
+  ['GI', 'GIB', 'Gibraltar'],
+  ['GL', 'GRL', 'Greenland'],
+  ['GM', 'GMB', 'Gambia'],
+  ['GN', 'GIN', 'Guinea'],
+  ['GP', 'GLP', 'Guadeloupe'],
+  ['GQ', 'GNQ', 'Equatorial Guinea'],
+  ['GR', 'GRC', 'Greece'],
+  ['GS', 'SGS', 'South Georgia and the South Sandwich Islands'],
+  ['GT', 'GTM', 'Guatemala'],
+  ['GU', 'GUM', 'Guam'],
+  ['GW', 'GNB', 'Guinea-Bissau'],
+  ['GY', 'GUY', 'Guyana'],
+  ['HK', 'HKG', 'Hong Kong'],
+  ['HM', 'HMD', 'Heard Island and McDonald Islands'],
+  ['HN', 'HND', 'Honduras'],
+  ['HR', 'HRV', 'Croatia'],
+  ['HT', 'HTI', 'Haiti'],
+  ['HU', 'HUN', 'Hungary'],
+  ['ID', 'IDN', 'Indonesia'],
+  ['IE', 'IRL', 'Ireland'],
+  ['IL', 'ISR', 'Israel'],
+  ['IM', 'IMN', 'Isle of Man'],
+  ['IN', 'IND', 'India'],
+  ['IO', 'IOT', 'British Indian Ocean Territory'],
+  ['IQ', 'IRQ', 'Iraq'],
+  ['IR', 'IRN', 'Iran'],
+  ['IS', 'ISL', 'Iceland'],
+  ['IT', 'ITA', 'Italy'],
+  ['JE', 'JEY', 'Jersey'],
+  ['JM', 'JAM', 'Jamaica'],
+  ['JO', 'JOR', 'Jordan'],
+  ['JP', 'JPN', 'Japan'],
+  ['KE', 'KEN', 'Kenya'],
+  ['KG', 'KGZ', 'Kyrgyzstan'],
+  ['KH', 'KHM', 'Cambodia'],
+  ['KI', 'KIR', 'Kiribati'],
+  ['KM', 'COM', 'Comoros'],
+  ['KN', 'KNA', 'Saint Kitts and Nevis'],
+  ['KP', 'PRK', "Korea, Democratic People's Republic of"],
+  ['KR', 'KOR', 'Korea, Republic of'],
+  ['KW', 'KWT', 'Kuwait'],
+  ['KY', 'CYM', 'Cayman Islands'],
+  ['KZ', 'KAZ', 'Kazakhstan'],
+  ['LA', 'LAO', "Lao People's Democratic Republic"],
+  ['LB', 'LBN', 'Lebanon'],
+  ['LC', 'LCA', 'Saint Lucia'],
+  ['LI', 'LIE', 'Liechtenstein'],
+  ['LK', 'LKA', 'Sri Lanka'],
+  ['LR', 'LBR', 'Liberia'],
+  ['LS', 'LSO', 'Lesotho'],
+  ['LT', 'LTU', 'Lithuania'],
+  ['LU', 'LUX', 'Luxembourg'],
+  ['LV', 'LVA', 'Latvia'],
+  ['LY', 'LBY', 'Libya'],
+  ['MA', 'MAR', 'Morocco'],
+  ['MC', 'MCO', 'Monaco'],
+  ['MD', 'MDA', 'Moldova'],
+  ['ME', 'MNE', 'Montenegro'],
+  ['MF', 'MAF', 'Saint Martin (French part)'],
+  ['MG', 'MDG', 'Madagascar'],
+  ['MH', 'MHL', 'Marshall Islands'],
+  ['MK', 'MKD', 'North Macedonia'],
+  ['ML', 'MLI', 'Mali'],
+  ['MM', 'MMR', 'Myanmar'],
+  ['MN', 'MNG', 'Mongolia'],
+  ['MO', 'MAC', 'Macao'],
+  ['MP', 'MNP', 'Northern Mariana Islands'],
+  ['MQ', 'MTQ', 'Martinique'],
+  ['MR', 'MRT', 'Mauritania'],
+  ['MS', 'MSR', 'Montserrat'],
+  ['MT', 'MLT', 'Malta'],
+  ['MU', 'MUS', 'Mauritius'],
+  ['MV', 'MDV', 'Maldives'],
+  ['MW', 'MWI', 'Malawi'],
+  ['MX', 'MEX', 'Mexico'],
+  ['MY', 'MYS', 'Malaysia'],
+  ['MZ', 'MOZ', 'Mozambique'],
+  ['NA', 'NAM', 'Namibia'],
+  ['NC', 'NCL', 'New Caledonia'],
+  ['NE', 'NER', 'Niger'],
+  ['NF', 'NFK', 'Norfolk Island'],
+  ['NG', 'NGA', 'Nigeria'],
+  ['NI', 'NIC', 'Nicaragua'],
+  ['NL', 'NLD', 'Netherlands'],
+  ['NO', 'NOR', 'Norway'],
+  ['NP', 'NPL', 'Nepal'],
+  ['NR', 'NRU', 'Nauru'],
+  ['NU', 'NIU', 'Niue'],
+  ['NZ', 'NZL', 'New Zealand'],
+  ['OM', 'OMN', 'Oman'],
+  ['PA', 'PAN', 'Panama'],
+  ['PE', 'PER', 'Peru'],
+  ['PF', 'PYF', 'French Polynesia'],
+  ['PG', 'PNG', 'Papua New Guinea'],
+  ['PH', 'PHL', 'Philippines'],
+  ['PK', 'PAK', 'Pakistan'],
+  ['PL', 'POL', 'Poland'],
+  ['PM', 'SPM', 'Saint Pierre and Miquelon'],
+  ['PN', 'PCN', 'Pitcairn'],
+  ['PR', 'PRI', 'Puerto Rico'],
+  ['PS', 'PSE', 'Palestine, State of'],
+  ['PT', 'PRT', 'Portugal'],
+  ['PW', 'PLW', 'Palau'],
+  ['PY', 'PRY', 'Paraguay'],
+  ['QA', 'QAT', 'Qatar'],
+  ['RE', 'REU', 'Réunion'],
+  ['RO', 'ROU', 'Romania'],
+  ['RS', 'SRB', 'Serbia'],
+  ['RU', 'RUS', 'Russian Federation'],
+  ['RW', 'RWA', 'Rwanda'],
+  ['SA', 'SAU', 'Saudi Arabia'],
+  ['SB', 'SLB', 'Solomon Islands'],
+  ['SC', 'SYC', 'Seychelles'],
+  ['SD', 'SDN', 'Sudan'],
+  ['SE', 'SWE', 'Sweden'],
+  ['SG', 'SGP', 'Singapore'],
+  ['SH', 'SHN', 'Saint Helena, Ascension and Tristan da Cunha'],
+  ['SI', 'SVN', 'Slovenia'],
+  ['SJ', 'SJM', 'Svalbard and Jan Mayen'],
+  ['SK', 'SVK', 'Slovakia'],
+  ['SL', 'SLE', 'Sierra Leone'],
+  ['SM', 'SMR', 'San Marino'],
+  ['SN', 'SEN', 'Senegal'],
+  ['SO', 'SOM', 'Somalia'],
+  ['SR', 'SUR', 'Suriname'],
+  ['SS', 'SSD', 'South Sudan'],
+  ['ST', 'STP', 'Sao Tome and Principe'],
+  ['SV', 'SLV', 'El Salvador'],
+  ['SX', 'SXM', 'Sint Maarten (Dutch part)'],
+  ['SY', 'SYR', 'Syrian Arab Republic'],
+  ['SZ', 'SWZ', 'Eswatini'],
+  ['TC', 'TCA', 'Turks and Caicos Islands'],
+  ['TD', 'TCD', 'Chad'],
+  ['TF', 'ATF', 'French Southern Territories'],
+  ['TG', 'TGO', 'Togo'],
+  ['TH', 'THA', 'Thailand'],
+  ['TJ', 'TJK', 'Tajikistan'],
+  ['TK', 'TKL', 'Tokelau'],
+  ['TL', 'TLS', 'Timor-Leste'],
+  ['TM', 'TKM', 'Turkmenistan'],
+  ['TN', 'TUN', 'Tunisia'],
+  ['TO', 'TON', 'Tonga'],
+  ['TR', 'TUR', 'Türkiye'],
+  ['TT', 'TTO', 'Trinidad and Tobago'],
+  ['TV', 'TUV', 'Tuvalu'],
+  ['TW', 'TWN', 'Taiwan'],
+  ['TZ', 'TZA', 'Tanzania'],
+  ['UA', 'UKR', 'Ukraine'],
+  ['UG', 'UGA', 'Uganda'],
+  ['UM', 'UMI', 'United States Minor Outlying Islands'],
+  ['US', 'USA', 'United States of America'],
+  ['UY', 'URY', 'Uruguay'],
+  ['UZ', 'UZB', 'Uzbekistan'],
+  ['VA', 'VAT', 'Holy See'],
+  ['VC', 'VCT', 'Saint Vincent and the Grenadines'],
+  ['VE', 'VEN', 'Venezuela'],
+  ['VG', 'VGB', 'Virgin Islands (British)'],
+  ['VI', 'VIR', 'Virgin Islands (U.S.)'],
+  ['VN', 'VNM', 'Viet Nam'],
+  ['VU', 'VUT', 'Vanuatu'],
+  ['WF', 'WLF', 'Wallis and Futuna'],
+  ['WS', 'WSM', 'Samoa'],
+  ['YE', 'YEM', 'Yemen'],
+  ['YT', 'MYT', 'Mayotte'],
+  ['ZA', 'ZAF', 'South Africa'],
+  ['ZM', 'ZMB', 'Zambia'],
+  ['ZW', 'ZWE', 'Zimbabwe'],
+];
+
+// Common names that are not the ISO short name, by alpha-2
+export const COUNTRY_ALIASES: Record<string, string[]> = {
+  BN: ['Brunei'],
+  BS: ['The Bahamas'],
+  CD: ['Democratic Republic of the Congo', 'DR Congo', 'DRC'],
+  CG: ['Republic of the Congo'],
+  CI: ['Ivory Coast'],
+  CV: ['Cape Verde'],
+  CZ: ['Czech Republic'],
+  FK: ['Falkland Islands'],
+  FM: ['Micronesia'],
+  GB: ['United Kingdom', 'UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland'],
+  GM: ['The Gambia'],
+  KP: ['North Korea'],
+  KR: ['South Korea', 'Korea'],
+  LA: ['Laos'],
+  MK: ['Macedonia'],
+  MM: ['Burma'],
+  MO: ['Macau'],
+  NL: ['Holland', 'The Netherlands'],
+  PS: ['Palestine'],
+  RU: ['Russia'],
+  SY: ['Syria'],
+  SZ: ['Swaziland'],
+  TL: ['East Timor'],
+  TR: ['Turkey'],
+  US: ['United States', 'America', 'U.S.', 'U.S.A.'],
+  VA: ['Vatican', 'Vatican City'],
+  VG: ['British Virgin Islands'],
+  VI: ['US Virgin Islands', 'U.S. Virgin Islands'],
+  VN: ['Vietnam'],
+};
+
+// USPS Publication 28 street suffixes: standard abbreviation and the forms it replaces
+export const STREET_SUFFIXES: Record<string, string[]> = {
+  ALY: ['ALLEE', 'ALLEY', 'ALLY'],
+  ANX: ['ANEX', 'ANNEX', 'ANNX'],
+  ARC: ['ARCADE'],
+  AVE: ['AV', 'AVEN', 'AVENU', 'AVENUE', 'AVN', 'AVNUE'],
+  BCH: ['BEACH'],
+  BLF: ['BLUF', 'BLUFF'],
+  BLVD: ['BOUL', 'BOULEVARD', 'BOULV'],
+  BND: ['BEND'],
+  BR: ['BRNCH', 'BRANCH'],
+  BRG: ['BRDGE', 'BRIDGE'],
+  BRK: ['BROOK'],
+  BTM: ['BOT', 'BOTTM', 'BOTTOM'],
+  BYP: ['BYPA', 'BYPAS', 'BYPASS', 'BYPS'],
+  BYU: ['BAYOO', 'BAYOU'],
+  CIR: ['CIRC', 'CIRCL', 'CIRCLE', 'CRCL', 'CRCLE'],
+  CLB: ['CLUB'],
+  CLF: ['CLIFF'],
+  CLFS: ['CLIFFS'],
+  CMN: ['COMMON'],
+  COR: ['CORNER'],
+  CORS: ['CORNERS'],
+  CP: ['CAMP', 'CMP'],
+  CPE: ['CAPE'],
+  CRES: ['CRESCENT', 'CRSENT', 'CRSNT'],
+  CRK: ['CREEK'],
+  CRSE: ['COURSE'],
+  CSWY: ['CAUSEWAY', 'CAUSWA'],
+  CT: ['COURT', 'CRT'],
+  CTR: ['CEN', 'CENT', 'CENTER', 'CENTR', 'CENTRE', 'CNTER', 'CNTR'],
+  CTS: ['COURTS'],
+  CURV: ['CURVE'],
+  CV: ['COVE'],
+  CYN: ['CANYN', 'CANYON', 'CNYN'],
+  DL: ['DALE'],
+  DM: ['DAM'],
+  DR: ['DRIV', 'DRIVE', 'DRV'],
+  DV: ['DIV', 'DIVIDE', 'DVD'],
+  EST: ['ESTATE'],
+  ESTS: ['ESTATES'],
+  EXPY: ['EXP', 'EXPR', 'EXPRESS', 'EXPRESSWAY', 'EXPW'],
+  EXT: ['EXTENSION', 'EXTN', 'EXTNSN'],
+  FLD: ['FIELD'],
+  FLDS: ['FIELDS'],
+  FLS: ['FALLS'],
+  FLT: ['FLAT'],
+  FLTS: ['FLATS'],
+  FRD: ['FORD'],
+  FRG: ['FORG', 'FORGE'],
+  FRK: ['FORK'],
+  FRST: ['FOREST', 'FORESTS'],
+  FRY: ['FERRY', 'FRRY'],
+  FT: ['FORT', 'FRT'],
+  FWY: ['FREEWAY', 'FREEWY', 'FRWAY', 'FRWY'],
+  GDN: ['GARDEN', 'GARDN', 'GRDEN', 'GRDN'],
+  GDNS: ['GARDENS', 'GRDNS'],
+  GLN: ['GLEN'],
+  GRN: ['GREEN'],
+  GRV: ['GROV', 'GROVE'],
+  GTWY: ['GATEWAY', 'GATEWY', 'GATWAY', 'GTWAY'],
+  HBR: ['HARB', 'HARBOR', 'HARBR', 'HRBOR'],
+  HL: ['HILL'],
+  HLS: ['HILLS'],
+  HOLW: ['HLLW', 'HOLLOW', 'HOLLOWS', 'HOLWS'],
+  HTS: ['HT', 'HEIGHTS'],
+  HVN: ['HAVEN'],
+  HWY: ['HIGHWAY', 'HIGHWY', 'HIWAY', 'HIWY', 'HWAY'],
+  INLT: ['INLET'],
+  IS: ['ISLAND', 'ISLND'],
+  JCT: ['JCTION', 'JCTN', 'JUNCTION', 'JUNCTN', 'JUNCTON'],
+  KNL: ['KNOL', 'KNOLL'],
+  KY: ['KEY'],
+  LGT: ['LIGHT'],
+  LK: ['LAKE'],
+  LKS: ['LAKES'],
+  LN: ['LANE'],
+  LNDG: ['LANDING', 'LNDNG'],
+  LOOP: ['LOOPS'],
+  MALL: [],
+  MDW: ['MEADOW'],
+  MDWS: ['MEADOWS', 'MEDOWS'],
+  ML: ['MILL'],
+  MNR: ['MANOR'],
+  MSN: ['MISSION', 'MISSN', 'MSSN'],
+  MT: ['MNT', 'MOUNT'],
+  MTN: ['MNTAIN', 'MNTN', 'MOUNTAIN', 'MOUNTIN', 'MTIN'],
+  MTWY: ['MOTORWAY'],
+  OPAS: ['OVERPASS'],
+  ORCH: ['ORCHARD', 'ORCHRD'],
+  OVAL: ['OVL'],
+  PARK: ['PRK'],
+  PASS: [],
+  PATH: ['PATHS'],
+  PIKE: ['PIKES'],
+  PKWY: ['PARKWAY', 'PARKWY', 'PKWAY', 'PKY'],
+  PL: ['PLACE'],
+  PLN: ['PLAIN'],
+  PLNS: ['PLAINS'],
+  PLZ: ['PLAZA', 'PLZA'],
+  PNES: ['PINES'],
+  PR: ['PRAIRIE', 'PRR'],
+  PRT: ['PORT'],
+  PSGE: ['PASSAGE'],
+  PT: ['POINT'],
+  PTS: ['POINTS'],
+  RD: ['ROAD'],
+  RDG: ['RDGE', 'RIDGE'],
+  RDS: ['ROADS'],
+  RIV: ['RIVER', 'RIVR', 'RVR'],
+  RNCH: ['RANCH', 'RANCHES', 'RNCHS'],
+  ROW: [],
+  RTE: ['ROUTE'],
+  RUN: [],
+  SHR: ['SHOAR', 'SHORE'],
+  SHRS: ['SHOARS', 'SHORES'],
+  SKWY: ['SKYWAY'],
+  SMT: ['SUMIT', 'SUMITT', 'SUMMIT'],
+  SPG: ['SPNG', 'SPRING', 'SPRNG'],
+  SPGS: ['SPNGS', 'SPRINGS', 'SPRNGS'],
+  SQ: ['SQR', 'SQRE', 'SQU', 'SQUARE'],
+  ST: ['STR', 'STREET', 'STRT'],
+  STA: ['STATION', 'STATN', 'STN'],
+  STS: ['STREETS'],
+  TER: ['TERR', 'TERRACE'],
+  TPKE: ['TRNPK', 'TURNPIKE', 'TURNPK'],
+  TRAK: ['TRACK', 'TRACKS', 'TRK', 'TRKS'],
+  TRCE: ['TRACE', 'TRACES'],
+  TRL: ['TRAIL', 'TRAILS', 'TRLS'],
+  TUNL: ['TUNEL', 'TUNLS', 'TUNNEL', 'TUNNELS', 'TUNNL'],
+  UPAS: ['UNDERPASS'],
+  VIA: ['VDCT', 'VIADCT', 'VIADUCT'],
+  VIS: ['VIST', 'VISTA', 'VST', 'VSTA'],
+  VL: ['VILLE'],
+  VLG: ['VILL', 'VILLAG', 'VILLAGE', 'VILLG', 'VILLIAGE'],
+  VLY: ['VALLEY', 'VALLY', 'VLLY'],
+  VW: ['VIEW'],
+  WALK: ['WALKS'],
+  WAY: ['WY'],
+  WLS: ['WELLS'],
+  XING: ['CROSSING', 'CRSSNG'],
+  XRD: ['CROSSROAD'],
+};
+
+/**
+ * USPS Publication 28 secondary unit designators: standard abbreviation, the
+ * forms it replaces, and whether it is followed by a unit number
+ */
+export const UNIT_DESIGNATORS: Record<string, { forms: string[]; numbered: boolean }> = {
+  APT: { forms: ['APART', 'APARTMENT'], numbered: true },
+  BLDG: { forms: ['BLD', 'BLDNG', 'BUILDING'], numbered: true },
+  BSMT: { forms: ['BASEMENT'], numbered: false },
+  DEPT: { forms: ['DEPARTMENT'], numbered: true },
+  FL: { forms: ['FLOOR', 'FLR'], numbered: true },
+  FRNT: { forms: ['FRONT'], numbered: false },
+  HNGR: { forms: ['HANGAR', 'HANGER'], numbered: true },
+  KEY: { forms: [], numbered: true },
+  LBBY: { forms: ['LOBBY'], numbered: false },
+  LOT: { forms: [], numbered: true },
+  LOWR: { forms: ['LOWER'], numbered: false },
+  OFC: { forms: ['OFFICE'], numbered: false },
+  PH: { forms: ['PENTHOUSE'], numbered: false },
+  PIER: { forms: [], numbered: true },
+  REAR: { forms: [], numbered: false },
+  RM: { forms: ['ROOM'], numbered: true },
+  SIDE: { forms: [], numbered: false },
+  SLIP: { forms: [], numbered: true },
+  SPC: { forms: ['SPACE'], numbered: true },
+  STE: { forms: ['SUIT', 'SUITE'], numbered: true },
+  STOP: { forms: [], numbered: true },
+  TRLR: { forms: ['TRAILER'], numbered: true },
+  UNIT: { forms: [], numbered: true },
+  UPPR: { forms: ['UPPER'], numbered: false },
+};
+
+// Directionals that can follow the suffix, as in 100 MAIN ST NW
+export const DIRECTIONALS = new Set([
+  'N', 'S', 'E', 'W', 'NE', 'NW', 'SE', 'SW',
+  'NORTH', 'SOUTH', 'EAST', 'WEST', 'NORTHEAST', 'NORTHWEST', 'SOUTHEAST', 'SOUTHWEST',
+]);
@@ -0,0 +1,265 @@
+import { DemographicsChanges } from '../types/demographics';
+import {
+  COUNTRY_ALIASES,
+  DIRECTIONALS,
+  ISO_COUNTRIES,
+  STREET_SUFFIXES,
+  UNIT_DESIGNATORS,
+  US_POSTAL_COUNTRIES,
+  US_STATE_ZIP_PREFIXES,
+} from './demographics.address.reference';
+
+type AddressPart = 'address1' | 'address2' | 'city' | 'state' | 'zipcode' | 'country';
+
+const ADDRESS_PARTS: AddressPart[] = ['address1', 'address2', 'city', 'state', 'zipcode', 'country'];
+
+// The claimant's address and the alternate claimant's, whose fields carry a prefix
+const ADDRESS_PREFIXES = ['', 'alternateclaimant'] as const;
+
+export type DemographicsAddressField = `${typeof ADDRESS_PREFIXES[number]}${AddressPart}`;
+
+export const DEMOGRAPHICS_ADDRESS_FIELDS = ADDRESS_PREFIXES.flatMap(prefix =>
+  ADDRESS_PARTS.map(part => `${prefix}${part}` as DemographicsAddressField));
+
+export type AddressIssueCode =
+  | 'ADDRESS_STATE_INVALID'
+  | 'ADDRESS_ZIP_INVALID'
+  | 'ADDRESS_ZIP_STATE_MISMATCH'
+  | 'ADDRESS_COUNTRY_UNKNOWN';
+
+export interface AddressIssue {
+  code: AddressIssueCode;
+  field: DemographicsAddressField;
+  message: string;
+}
+
+// Submitted values of the address fields that normalization changed
+export type RawAddress = Partial<Record<DemographicsAddressField, string>>;
+
+type AddressValues = Partial<Record<DemographicsAddressField, string | null>>;
+
+export interface NormalizedAddresses {
+  values: Partial<Record<DemographicsAddressField, string>>; // Every address field given, normalized
+  raw: RawAddress;
+  issues: AddressIssue[];
+}
+
+// Countries are looked up without case, accents or punctuation
+function countryKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const COUNTRIES = new Map<string, string>();
+for (const [alpha2, alpha3, name] of ISO_COUNTRIES) {
+  for (const key of [alpha2, alpha3, name, ...(COUNTRY_ALIASES[alpha2] ?? [])]) {
+    COUNTRIES.set(countryKey(key), alpha2);
+  }
+}
+
+/**
+ * The ISO 3166 alpha-2 code of a country name, alias or code, if known
+ */
+export function isoCountryCode(value: unknown): string | undefined {
+  return typeof value === 'string' ? COUNTRIES.get(countryKey(value)) : undefined;
+}
+
+function standardForms(table: Record<string, string[]>): Map<string, string> {
+  const forms = new Map<string, string>();
+  for (const [standard, variants] of Object.entries(table)) {
+    for (const form of [standard, ...variants]) forms.set(form, standard);
+  }
+  return forms;
+}
+
+const SUFFIXES = standardForms(STREET_SUFFIXES);
+const UNITS = standardForms(Object.fromEntries(
+  Object.entries(UNIT_DESIGNATORS).map(([standard, { forms }]) => [standard, forms])
+));
+
+function isBlank(value: string | null | undefined): value is '' | null | undefined {
+  return value === undefined || value === null || value.trim() === '';
+}
+
+// Uppercase without periods or commas, single spaced
+function cleanLine(value: string): string {
+  return value.toUpperCase().replace(/\./g, '').replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Standardize the secondary unit designator and the street suffix of a
+ * street line. The suffix is the last word before the unit and any trailing
+ * directional; a line that is only a unit (as address2 often is) has none.
+ */
+function standardizeStreetLine(line: string, unitOnly: boolean): string {
+  const words = line.split(' ');
+
+  // A unit designator follows the street name, or starts a line of its own
+  let unit = words.findIndex((word, index) => {
+    const standard = UNITS.get(word);
+    if (!standard || (index < 2 && !(unitOnly && index === 0))) return false;
+    return UNIT_DESIGNATORS[standard].numbered ? index < words.length - 1 : index === words.length - 1;
+  });
+  if (unit >= 0) {
+    words[unit] = UNITS.get(words[unit])!;
+  } else {
+    unit = words.length;
+  }
+
+  let suffix = unit - 1;
+  while (suffix > 0 && DIRECTIONALS.has(words[suffix])) suffix--;
+  if (suffix > 0 && SUFFIXES.has(words[suffix])) {
+    words[suffix] = SUFFIXES.get(words[suffix])!;
+  }
+
+  return words.join(' ');
+}
+
+function zipPrefixMatchesState(zipcode: string, state: string): boolean {
+  const prefix = Number(zipcode.slice(0, 3));
+  return US_STATE_ZIP_PREFIXES[state].some(([from, to]) => prefix >= from && prefix <= to);
+}
+
+/**
+ * Normalize one address. US checks apply when the country is blank or a
+ * country whose mail is USPS domestic mail.
+ */
+function normalizeAddress(
+  address: Partial<Record<AddressPart, string | null>>
+): { values: Partial<Record<AddressPart, string>>; issues: { code: AddressIssueCode; part: AddressPart; message: string }[] } {
+  const values: Partial<Record<AddressPart, string>> = {};
+  const issues: { code: AddressIssueCode; part: AddressPart; message: string }[] = [];
+
+  let domestic = true;
+  const { country, state, zipcode } = address;
+  if (!isBlank(country)) {
+    const alpha2 = isoCountryCode(country);
+    if (alpha2) {
+      values.country = alpha2;
+      domestic = US_POSTAL_COUNTRIES.has(alpha2);
+    } else {
+      values.country = country.trim();
+      domestic = false;
+      issues.push({ code: 'ADDRESS_COUNTRY_UNKNOWN', part: 'country', message: `country ${country} is not an ISO 3166 country` });
+    }
+  } else if (typeof country === 'string') {
+    values.country = country;
+  }
+
+  for (const part of ['address1', 'address2'] as const) {
+    const line = address[part];
+    if (typeof line !== 'string') continue;
+    values[part] = domestic && !isBlank(line) ? standardizeStreetLine(cleanLine(line), part === 'address2') : cleanLine(line);
+  }
+  if (typeof address.city === 'string') {
+    values.city = cleanLine(address.city);
+  }
+
+  let validState: string | undefined;
+  if (typeof state === 'string') {
+    values.state = state.trim().toUpperCase();
+    if (domestic && values.state !== '') {
+      if (values.state in US_STATE_ZIP_PREFIXES) {
+        validState = values.state;
+      } else {
+        issues.push({ code: 'ADDRESS_STATE_INVALID', part: 'state', message: `state ${state} is not a USPS state code` });
+      }
+    }
+  }
+
+  if (typeof zipcode === 'string') {
+    values.zipcode = zipcode.trim();
+    if (domestic && values.zipcode !== '') {
+      const zip = /^(\d{5})(?:\s*-?\s*(\d{4}))?$/.exec(values.zipcode);
+      if (!zip) {
+        issues.push({ code: 'ADDRESS_ZIP_INVALID', part: 'zipcode', message: `zipcode ${zipcode} is not a ZIP or ZIP+4 code` });
+      } else {
+        values.zipcode = zip[2] ? `${zip[1]}-${zip[2]}` : zip[1];
+        if (validState && !zipPrefixMatchesState(values.zipcode, validState)) {
+          issues.push({
+            code: 'ADDRESS_ZIP_STATE_MISMATCH',
+            part: 'zipcode',
+            message: `zipcode ${values.zipcode} is not a ZIP code of state ${validState}`,
+          });
+        }
+      }
+    }
+  }
+
+  return { values, issues };
+}
+
+/**
+ * Normalize the claimant's and the alternate claimant's address fields
+ * present in a record, with the issues found and the submitted value of
+ * each field normalization changed
+ */
+export function normalizeDemographicsAddresses(record: object): NormalizedAddresses {
+  const source = record as AddressValues;
+  const result: NormalizedAddresses = { values: {}, raw: {}, issues: [] };
+
+  for (const prefix of ADDRESS_PREFIXES) {
+    const field = (part: AddressPart) => `${prefix}${part}` as DemographicsAddressField;
+    if (!ADDRESS_PARTS.some(part => typeof source[field(part)] === 'string')) continue;
+
+    const { values, issues } = normalizeAddress(
+      Object.fromEntries(ADDRESS_PARTS.map(part => [part, source[field(part)]]))
+    );
+    for (const [part, value] of Object.entries(values) as [AddressPart, string][]) {
+      result.values[field(part)] = value;
+      if (value !== source[field(part)]) result.raw[field(part)] = source[field(part)]!;
+    }
+    result.issues.push(...issues.map(({ part, ...issue }) => ({ ...issue, field: field(part) })));
+  }
+
+  return result;
+}
+
+/**
+ * A new record with its address fields normalized and address_raw holding
+ * what was submitted for the ones that changed
+ */
+export function withNormalizedAddresses<T extends object>(record: T): T & { address_raw?: RawAddress } {
+  const { values, raw } = normalizeDemographicsAddresses(record);
+  return { ...record, ...values, ...(Object.keys(raw).length > 0 && { address_raw: raw }) };
+}
+
+export function hasAddressChanges(changes: DemographicsChanges): boolean {
+  return DEMOGRAPHICS_ADDRESS_FIELDS.some(field => changes[field] !== undefined);
+}
+
+/**
+ * Changes to a stored record with the address fields they set normalized in
+ * the context of the stored address, and address_raw updated to match:
+ * fields that changed keep what was submitted, fields set clean or cleared
+ * drop theirs
+ */
+export function normalizeAddressChanges(
+  changes: DemographicsChanges,
+  stored: DemographicsChanges
+): DemographicsChanges {
+  if (!hasAddressChanges(changes)) return changes;
+
+  const { values, raw } = normalizeDemographicsAddresses({ ...stored, ...changes });
+  const normalized: DemographicsChanges = { ...changes };
+  const addressRaw: RawAddress = { ...stored.address_raw };
+
+  for (const field of DEMOGRAPHICS_ADDRESS_FIELDS) {
+    if (changes[field] === undefined) continue;
+
+    if (changes[field] !== null) normalized[field] = values[field];
+    if (changes[field] !== null && raw[field] !== undefined) {
+      addressRaw[field] = raw[field];
+    } else {
+      delete addressRaw[field];
+    }
+  }
+
+  normalized.address_raw = Object.keys(addressRaw).length > 0 ? addressRaw : null;
+  return normalized;
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+// Fields holding calendar dates, stored as SQL DATE
+export const DEMOGRAPHICS_DATE_ONLY_FIELDS = ['dob', 'dod'] as const;
+
+const IsoDatetimeSchema = z.string().datetime({ offset: true });
+
+/**
+ * The calendar date an ISO datetime is written with, so 1980-02-03T00:00:00Z
+ * and 1980-02-03T00:00:00-05:00 are both 1980-02-03. Anything else is
+ * returned as it is, for the date schema to accept or refuse.
+ */
+export function toDateOnly(value: unknown): unknown {
+  return IsoDatetimeSchema.safeParse(value).success ? (value as string).slice(0, 10) : value;
+}
+
+/**
+ * A new record, or changes, with the calendar dates it sets as YYYY-MM-DD
+ */
+export function withDateOnlyFields<T extends object>(record: T): T {
+  const source = record as Record<string, unknown>;
+  const dates = DEMOGRAPHICS_DATE_ONLY_FIELDS.filter(field => typeof source[field] === 'string');
+  if (dates.length === 0) return record;
+
+  return { ...record, ...Object.fromEntries(dates.map(field => [field, toDateOnly(source[field])])) };
+}
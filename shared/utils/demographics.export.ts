@@ -0,0 +1,103 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { DemographicsExportFormat } from '../types/demographics';
+
+type RecordLike = Record<string, unknown>;
+
+export const EXPORT_CONTENT_TYPES: Record<DemographicsExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+};
+
+export interface DemographicsExportWriter {
+  write(records: RecordLike[]): Promise<void>;
+  // Finish the file and end the output
+  end(): Promise<void>;
+}
+
+// Leading characters a spreadsheet would run as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV line, CRLF terminated. Text that a spreadsheet would evaluate as
+ * a formula is prefixed with a quote.
+ */
+export function csvLine(values: unknown[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+// Write, waiting for the output to drain when its buffer is full
+async function send(output: Writable, chunk: string): Promise<void> {
+  if (output.destroyed) throw new Error('Export output was closed');
+  if (!output.write(chunk)) await once(output, 'drain');
+}
+
+function textWriter(output: Writable, header: string | null, line: (record: RecordLike) => string): DemographicsExportWriter {
+  let started = header === null;
+
+  return {
+    async write(records) {
+      if (!started) {
+        await send(output, header!);
+        started = true;
+      }
+      await send(output, records.map(line).join(''));
+    },
+    async end() {
+      if (!started) await send(output, header!);
+      output.end();
+    },
+  };
+}
+
+function xlsxWriter(fields: string[], output: Writable): DemographicsExportWriter {
+  // Rows are committed as they are added so the sheet is never held in memory
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false });
+  const sheet = workbook.addWorksheet('Demographics');
+  sheet.addRow(fields).commit();
+
+  return {
+    async write(records) {
+      for (const record of records) {
+        sheet.addRow(fields.map(field => record[field] ?? null)).commit();
+      }
+      if (output.writableNeedDrain) await once(output, 'drain');
+    },
+    async end() {
+      sheet.commit();
+      await workbook.commit();
+    },
+  };
+}
+
+/**
+ * A writer of records, as the selected fields in that order, to the output
+ * in the export format. CSV and XLSX have a header row of the field names;
+ * NDJSON has one object per line without the fields a record lacks.
+ */
+export function createExportWriter(
+  format: DemographicsExportFormat,
+  fields: string[],
+  output: Writable
+): DemographicsExportWriter {
+  switch (format) {
+    case 'csv':
+      return textWriter(output, csvLine(fields), record => csvLine(fields.map(field => record[field])));
+    case 'ndjson':
+      return textWriter(output, null, record =>
+        `${JSON.stringify(Object.fromEntries(fields.map(field => [field, record[field]])))}\n`);
+    case 'xlsx':
+      return xlsxWriter(fields, output);
+  }
+}
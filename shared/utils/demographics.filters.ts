@@ -0,0 +1,149 @@
+import {
+  DEMOGRAPHICS_AMOUNT_RANGE_FILTERS,
+  DEMOGRAPHICS_DATE_RANGE_FILTERS,
+  DEMOGRAPHICS_MATCH_FILTERS,
+  DemographicsCore,
+  DemographicsCursorValue,
+  DemographicsFilters,
+  DemographicsRange,
+  DemographicsSort,
+  GetDemographicsQuery,
+} from '../types/demographics';
+
+type RecordLike = Record<string, unknown>;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function range<T>(from: T | undefined, to: T | undefined): DemographicsRange<T> | undefined {
+  if (from === undefined && to === undefined) return undefined;
+  return { ...(from !== undefined && { from }), ...(to !== undefined && { to }) };
+}
+
+/**
+ * Translate the filter_* query parameters into DemographicsFilters
+ */
+export function toDemographicsFilters(query: GetDemographicsQuery): DemographicsFilters {
+  const source = query as RecordLike;
+  const filters: RecordLike = {};
+
+  for (const field of DEMOGRAPHICS_MATCH_FILTERS) {
+    filters[field] = source[`filter_${field}`];
+  }
+  for (const field of DEMOGRAPHICS_DATE_RANGE_FILTERS) {
+    filters[field] = range(source[`filter_${field}_from`], source[`filter_${field}_to`]);
+  }
+  for (const field of DEMOGRAPHICS_AMOUNT_RANGE_FILTERS) {
+    filters[field] = range(source[`filter_${field}_min`], source[`filter_${field}_max`]);
+  }
+  filters.ssn = query.filter_ssn;
+  filters.ssn_last4 = query.filter_ssn_last4;
+  filters.search = query.search;
+
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as DemographicsFilters;
+}
+
+/**
+ * Upper bound of a timestamp range. A date-only bound covers the whole day,
+ * so it becomes an exclusive bound at the start of the next day.
+ */
+export function timestampUpperBound(to: string): { value: string; exclusive: boolean } {
+  if (!DATE_ONLY.test(to)) return { value: to, exclusive: false };
+
+  const next = new Date(`${to}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return { value: next.toISOString(), exclusive: true };
+}
+
+function inRange(value: unknown, bounds: DemographicsRange<string | number>, timestamp: boolean): boolean {
+  if (value === undefined || value === null) return false;
+
+  const toComparable = (item: unknown) => (timestamp ? Date.parse(String(item)) : item) as string | number;
+  const current = toComparable(value);
+
+  if (bounds.from !== undefined && current < toComparable(bounds.from)) return false;
+  if (bounds.to !== undefined) {
+    const upper = timestamp ? timestampUpperBound(String(bounds.to)) : { value: bounds.to, exclusive: false };
+    const limit = toComparable(upper.value);
+    if (upper.exclusive ? current >= limit : current > limit) return false;
+  }
+
+  return true;
+}
+
+/**
+ * In-memory equivalent of the SQL WHERE clause built for DemographicsFilters.
+ * String matches are case-insensitive like the database collation.
+ */
+export function matchesDemographicsFilters(record: DemographicsCore, filters: DemographicsFilters = {}): boolean {
+  const source = record as RecordLike;
+
+  if (record.status === 'deleted') return false;
+
+  for (const field of DEMOGRAPHICS_MATCH_FILTERS) {
+    const expected = filters[field];
+    if (expected === undefined) continue;
+
+    const actual = source[field];
+    if (actual === undefined || actual === null || String(actual).toLowerCase() !== expected.toLowerCase()) {
+      return false;
+    }
+  }
+
+  for (const field of DEMOGRAPHICS_DATE_RANGE_FILTERS) {
+    const bounds = filters[field];
+    if (bounds && !inRange(source[field], bounds, field === 'created_at' || field === 'updated_at')) return false;
+  }
+
+  for (const field of DEMOGRAPHICS_AMOUNT_RANGE_FILTERS) {
+    const bounds = filters[field];
+    if (bounds && !inRange(source[field], bounds, false)) return false;
+  }
+
+  const ssn = (record.ssn ?? '').replace(/\D/g, '');
+  if (filters.ssn && ssn !== filters.ssn.replace(/\D/g, '')) return false;
+  if (filters.ssn_last4 && (ssn.length < 4 || !ssn.endsWith(filters.ssn_last4))) return false;
+
+  if (filters.search) {
+    const search = filters.search.toLowerCase();
+    const matches = [record.firstname, record.lastname, record.email]
+      .some(value => value?.toLowerCase().includes(search));
+    if (!matches) return false;
+  }
+
+  return true;
+}
+
+/**
+ * The values a record is ordered by, as carried in a cursor
+ */
+export function sortValues(record: DemographicsCore, sort: DemographicsSort[]): DemographicsCursorValue[] {
+  return sort.map(({ field }) => ((record as RecordLike)[field] ?? null) as DemographicsCursorValue);
+}
+
+function compareValues(a: DemographicsCursorValue, b: DemographicsCursorValue): number {
+  // NULLs sort first, as in SQL Server
+  if (a === null || b === null) return a === b ? 0 : a === null ? -1 : 1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+}
+
+/**
+ * Comparator for the given sort, ties broken by id in the direction of the
+ * last sort field
+ */
+export function compareDemographics(sort: DemographicsSort[]) {
+  const idDirection = sort[sort.length - 1].direction === 'desc' ? -1 : 1;
+
+  return (
+    a: { values: DemographicsCursorValue[]; id: string },
+    b: { values: DemographicsCursorValue[]; id: string }
+  ): number => {
+    for (let index = 0; index < sort.length; index++) {
+      const result = compareValues(a.values[index], b.values[index]);
+      if (result !== 0) return sort[index].direction === 'desc' ? -result : result;
+    }
+    return a.id.localeCompare(b.id) * idDirection;
+  };
+}
@@ -0,0 +1,227 @@
+import BigNumber from 'bignumber.js';
+import {
+  Demographics,
+  DemographicsCore,
+  DemographicsFinancialLine,
+  DemographicsFinancialTotal,
+  DemographicsFinancials,
+  DemographicsV2,
+  FinancialsMode,
+} from '../types/demographics';
+import { toDemographicsV2 } from './demographics.mapper';
+
+// Submitted numbers are converted through their shortest decimal string, so
+// 0.1 is exactly one tenth; every product and sum after that is exact
+const Decimal = BigNumber.clone({ ROUNDING_MODE: BigNumber.ROUND_HALF_UP });
+type Decimal = BigNumber;
+
+// Totals are money and are rounded (half up) to cents, as they are paid
+const MONEY_DECIMALS = 2;
+
+export type FinancialsInput = Partial<DemographicsCore> & Partial<Pick<DemographicsV2,
+  'attorneys' | 'medical_liens' | 'other_liens' | 'vendor_expenses'>>;
+
+interface FinancialsContext {
+  record: Record<string, unknown>;
+  collections: Pick<DemographicsV2, 'attorneys' | 'medical_liens' | 'other_liens' | 'vendor_expenses'>;
+  // Computed total if it could be computed, else the submitted value, else null
+  value(field: string): Decimal | null;
+  // As value, with 0 for a missing component
+  amount(field: string): Decimal;
+}
+
+interface FinancialsStep {
+  field: DemographicsFinancialTotal;
+  formula: string;
+  // null when the inputs the total depends on were not sent
+  compute(context: FinancialsContext): Decimal | null;
+}
+
+function sum(values: (number | undefined)[]): Decimal | null {
+  const present = values.filter((value): value is number => value !== undefined && value !== null);
+  return present.length === 0 ? null : present.reduce((total, value) => total.plus(value), new Decimal(0));
+}
+
+function anyPresent(context: FinancialsContext, fields: string[]): boolean {
+  return fields.some(field => context.value(field) !== null);
+}
+
+// Amount the fee percentages apply to: the gross award, less attorney costs for Net Cost
+function feeBase(context: FinancialsContext): Decimal | null {
+  const gross = context.value('totalgrossaward');
+  if (gross === null) return null;
+  return context.record.attorneyfeecalcmethod === 'Net Cost' ? gross.minus(context.amount('totalnetattorneycost')) : gross;
+}
+
+function percentOf(base: Decimal | null, percent: Decimal | null): Decimal | null {
+  return base === null || percent === null ? null : base.times(percent);
+}
+
+// In dependency order: each step may use the totals before it
+const STEPS: FinancialsStep[] = [
+  {
+    field: 'totalgrossaward',
+    formula: 'basegrossaward + eifawardamount + appealaward',
+    compute: context => anyPresent(context, ['basegrossaward', 'eifawardamount', 'appealaward'])
+      ? context.amount('basegrossaward').plus(context.amount('eifawardamount')).plus(context.amount('appealaward'))
+      : null,
+  },
+  {
+    field: 'commonbenefittotal',
+    formula: 'totalgrossaward * commonbenefit',
+    compute: context => percentOf(context.value('totalgrossaward'), context.value('commonbenefit')),
+  },
+  {
+    field: 'commonbenefitattorneyshareamount',
+    formula: 'commonbenefittotal * commonbenefitattorneyshare',
+    compute: context => percentOf(context.value('commonbenefittotal'), context.value('commonbenefitattorneyshare')),
+  },
+  {
+    field: 'commonbenefitclaimantshareamount',
+    formula: 'commonbenefittotal * commonbenefitclaimantshare',
+    compute: context => percentOf(context.value('commonbenefittotal'), context.value('commonbenefitclaimantshare')),
+  },
+  {
+    field: 'totalnetattorneycost',
+    formula: 'sum(attorney cost amounts) - attorneycostreduction',
+    compute: context => {
+      const costs = sum(context.collections.attorneys.map(attorney => attorney.cost_amount));
+      return costs === null ? null : costs.minus(context.amount('attorneycostreduction'));
+    },
+  },
+  {
+    field: 'grosscontingencyfeeamount',
+    formula: 'fee base * grosscontingencyfeeperc (fee base: totalgrossaward, less totalnetattorneycost for Net Cost)',
+    compute: context => percentOf(feeBase(context), context.value('grosscontingencyfeeperc')),
+  },
+  {
+    field: 'grossattorneyfeeamount',
+    formula: 'fee base * grossattorneyfeeperc, or the sum of the attorney fee percents when it is not sent',
+    compute: context => percentOf(
+      feeBase(context),
+      context.value('grossattorneyfeeperc') ?? sum(context.collections.attorneys.map(attorney => attorney.fee_percent))
+    ),
+  },
+  {
+    field: 'totalnetattorneyfee',
+    formula: 'grossattorneyfeeamount - attorneyfeereduction - commonbenefitattorneyshareamount - attorneyfeeholdbackamount',
+    compute: context => {
+      const gross = context.value('grossattorneyfeeamount');
+      return gross === null
+        ? null
+        : gross
+            .minus(context.amount('attorneyfeereduction'))
+            .minus(context.amount('commonbenefitattorneyshareamount'))
+            .minus(context.amount('attorneyfeeholdbackamount'));
+    },
+  },
+  {
+    field: 'totalmedicalliens',
+    formula: 'sum(medical lien amounts)',
+    compute: context => sum(context.collections.medical_liens.map(lien => lien.amount)),
+  },
+  {
+    field: 'othertotalliens',
+    formula: 'sum(other lien amounts)',
+    compute: context => sum(context.collections.other_liens.map(lien => lien.amount)),
+  },
+  {
+    field: 'totaladmincost',
+    formula: 'sum(vendor expense amounts)',
+    compute: context => sum(context.collections.vendor_expenses.map(expense => expense.amount)),
+  },
+  {
+    field: 'netclaimantpayment',
+    formula: 'totalgrossaward - (grossattorneyfeeamount - attorneyfeereduction) - totalnetattorneycost'
+      + ' - commonbenefitclaimantshareamount - totalmedicalliens - othertotalliens - totaladmincost'
+      + ' - generalcaseexpenses - holdbackamount - otherholdbackamount - previouspaymentstoclaimant',
+    compute: context => {
+      const gross = context.value('totalgrossaward');
+      if (gross === null) return null;
+
+      const fee = context.amount('grossattorneyfeeamount').minus(context.amount('attorneyfeereduction'));
+      return [
+        'totalnetattorneycost',
+        'commonbenefitclaimantshareamount',
+        'totalmedicalliens',
+        'othertotalliens',
+        'totaladmincost',
+        'generalcaseexpenses',
+        'holdbackamount',
+        'otherholdbackamount',
+        'previouspaymentstoclaimant',
+      ].reduce((net, field) => net.minus(context.amount(field)), gross.minus(fee));
+    },
+  },
+];
+
+export interface FinancialsResult {
+  financials: DemographicsFinancials;
+  // Totals to set on the record: the derived ones in derive mode, none in strict
+  values: Partial<Record<DemographicsFinancialTotal, number>>;
+}
+
+/**
+ * Compute the financial totals of a submission from their components in
+ * exact decimal arithmetic. Each computed total is compared, at cents, with
+ * the submitted one; totals that were not sent are derived. Later totals
+ * build on the computed value of earlier ones where there is one.
+ */
+export function computeDemographicsFinancials(input: FinancialsInput, mode: FinancialsMode): FinancialsResult {
+  const record = input as Record<string, unknown>;
+  const collections = Array.isArray(input.attorneys)
+    ? {
+        attorneys: input.attorneys,
+        medical_liens: input.medical_liens ?? [],
+        other_liens: input.other_liens ?? [],
+        vendor_expenses: input.vendor_expenses ?? [],
+      }
+    : toDemographicsV2(input as Demographics);
+
+  const computed = new Map<string, Decimal>();
+  const value = (field: string): Decimal | null => {
+    if (computed.has(field)) return computed.get(field)!;
+    const submitted = record[field];
+    return typeof submitted === 'number' ? new Decimal(submitted) : null;
+  };
+  const context: FinancialsContext = {
+    record,
+    collections,
+    value,
+    amount: field => value(field) ?? new Decimal(0),
+  };
+
+  const lines: DemographicsFinancialLine[] = [];
+  for (const step of STEPS) {
+    const result = step.compute(context);
+    if (result === null) continue;
+
+    const rounded = result.decimalPlaces(MONEY_DECIMALS);
+    computed.set(step.field, rounded);
+
+    const submitted = record[step.field];
+    const line: DemographicsFinancialLine = {
+      field: step.field,
+      formula: step.formula,
+      computed: rounded.toFixed(MONEY_DECIMALS),
+      status: 'derived',
+    };
+    if (typeof submitted === 'number') {
+      line.submitted = submitted;
+      line.status = new Decimal(submitted).decimalPlaces(MONEY_DECIMALS).isEqualTo(rounded) ? 'matched' : 'mismatch';
+    }
+    lines.push(line);
+  }
+
+  const derived = mode === 'derive' ? lines.filter(line => line.status === 'derived') : [];
+
+  return {
+    financials: {
+      mode,
+      lines,
+      derived: derived.map(line => line.field),
+      mismatches: lines.filter(line => line.status === 'mismatch').map(line => line.field),
+    },
+    values: Object.fromEntries(derived.map(line => [line.field, Number(line.computed)])),
+  };
+}
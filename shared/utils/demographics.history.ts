@@ -0,0 +1,55 @@
+import { Demographics, DemographicsFieldChange, DemographicsV2 } from '../types/demographics';
+
+type RecordLike = Record<string, unknown>;
+
+// Bookkeeping fields that change on every write
+const UNTRACKED_FIELDS = new Set(['updated_at', 'row_version']);
+
+function comparable(value: unknown): unknown {
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) return null;
+  return value;
+}
+
+/**
+ * Field-level differences between two versions of a record. Collections are
+ * compared as whole arrays; a missing field and an empty collection are both
+ * reported as null.
+ */
+export function diffDemographics(
+  before: Partial<DemographicsV2> | null,
+  after: Partial<DemographicsV2>
+): DemographicsFieldChange[] {
+  const previous = (before ?? {}) as RecordLike;
+  const current = after as RecordLike;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  const changes: DemographicsFieldChange[] = [];
+
+  for (const field of fields) {
+    if (UNTRACKED_FIELDS.has(field)) continue;
+
+    const oldValue = comparable(previous[field]);
+    const newValue = comparable(current[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, old_value: oldValue, new_value: newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The record state kept alongside a history entry for point-in-time reads
+ */
+export function toHistorySnapshot(record: DemographicsV2): DemographicsV2 {
+  const { row_version: _rowVersion, ...snapshot } = record as DemographicsV2 & { row_version?: string };
+  return snapshot as DemographicsV2;
+}
+
+/**
+ * The status a record had before the soft delete recorded by these changes,
+ * which a restore puts back
+ */
+export function statusBeforeDelete(changes: DemographicsFieldChange[] = []): Demographics['status'] {
+  const status = changes.find(change => change.field === 'status')?.old_value;
+  return status === 'inactive' || status === 'archived' ? status : 'active';
+}
@@ -0,0 +1,175 @@
+import { parse } from 'csv-parse/sync';
+import ExcelJS from 'exceljs';
+import { ZodDefault, ZodNumber, ZodOptional, ZodTypeAny } from 'zod';
+import {
+  CreateDemographicsRequestSchema,
+  DEMOGRAPHICS_IMPORT_FIELDS,
+  DemographicsImportError,
+  DemographicsImportFormat,
+} from '../types/demographics';
+import { csvLine } from './demographics.export';
+
+type Cell = unknown;
+
+export interface ImportRow {
+  row: number; // Spreadsheet row number; the header is row 1
+  cells: Cell[];
+}
+
+export interface ImportSheet {
+  headers: string[];
+  rows: ImportRow[];
+}
+
+export interface ImportColumnMapping {
+  columns: (string | null)[]; // Field of each column, null when ignored
+  unmapped: string[];
+}
+
+const SHAPE = CreateDemographicsRequestSchema.shape as Record<string, ZodTypeAny>;
+
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  let inner = schema;
+  while (inner instanceof ZodOptional || inner instanceof ZodDefault) {
+    inner = inner instanceof ZodOptional ? inner.unwrap() : inner.removeDefault();
+  }
+  return inner;
+}
+
+const NUMBER_FIELDS = new Set<string>(
+  DEMOGRAPHICS_IMPORT_FIELDS.filter(field => unwrap(SHAPE[field]) instanceof ZodNumber)
+);
+
+/**
+ * Header as compared with field names and aliases: lower case letters and
+ * digits only, so "Attorney 1 Fee %" and "attorney1fee" are the same
+ */
+export function normalizeImportHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const FIELDS_BY_HEADER = new Map<string, string>(
+  DEMOGRAPHICS_IMPORT_FIELDS.map(field => [normalizeImportHeader(field), field])
+);
+
+/**
+ * The import format of a file name by its extension, if it has one we read
+ */
+export function importFormatOf(fileName: string): DemographicsImportFormat | undefined {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'xlsx' ? extension : undefined;
+}
+
+// Plain value of an XLSX cell: formulas give their result, rich text its text
+function cellValue(value: ExcelJS.CellValue): Cell {
+  if (value === null || value === undefined || value instanceof Date || typeof value !== 'object') return value;
+  if ('result' in value) return cellValue(value.result as ExcelJS.CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('text' in value) return value.text;
+  return undefined; // Errors and other cell kinds carry no usable value
+}
+
+async function readXlsx(content: Buffer): Promise<Cell[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(content as unknown as ArrayBuffer);
+
+  // Only the first worksheet is imported
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: Cell[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, number) => {
+    // row.values is 1-based
+    rows[number - 1] = (row.values as ExcelJS.CellValue[]).slice(1).map(cellValue);
+  });
+  return Array.from(rows, row => row ?? []);
+}
+
+function readCsv(content: Buffer): Cell[][] {
+  return parse(content, { bom: true, relax_column_count: true, skip_empty_lines: false });
+}
+
+function isBlank(cell: Cell): boolean {
+  return cell === undefined || cell === null || (typeof cell === 'string' && cell.trim() === '');
+}
+
+/**
+ * Read the first sheet of a CSV or XLSX file. The first row holds the
+ * headers; blank rows are dropped but the others keep their row number.
+ */
+export async function readImportSheet(content: Buffer, format: DemographicsImportFormat): Promise<ImportSheet> {
+  const [headerRow = [], ...rows] = format === 'xlsx' ? await readXlsx(content) : readCsv(content);
+
+  return {
+    headers: headerRow.map(cell => (isBlank(cell) ? '' : String(cell).trim())),
+    rows: rows
+      .map((cells, index) => ({ row: index + 2, cells }))
+      .filter(row => !row.cells.every(isBlank)),
+  };
+}
+
+/**
+ * Match each header to a demographics field, through the law firm's
+ * aliases first and then the field names. A column for a field an earlier
+ * column already maps is ignored like one that matches nothing.
+ */
+export function mapImportColumns(headers: string[], aliases: Record<string, string> = {}): ImportColumnMapping {
+  const mapped = new Set<string>();
+  const unmapped: string[] = [];
+
+  const columns = headers.map(header => {
+    const normalized = normalizeImportHeader(header);
+    const field = aliases[normalized] ?? FIELDS_BY_HEADER.get(normalized);
+
+    if (!field || mapped.has(field)) {
+      if (header !== '') unmapped.push(header);
+      return null;
+    }
+
+    mapped.add(field);
+    return field;
+  });
+
+  return { columns, unmapped };
+}
+
+function toNumber(cell: Cell): Cell {
+  if (typeof cell !== 'string') return cell;
+
+  const number = Number(cell.replace(/[$,\s]/g, ''));
+  // Left as sent so validation reports it
+  return Number.isNaN(number) ? cell : number;
+}
+
+function toFieldValue(field: string, cell: Cell): Cell {
+  if (NUMBER_FIELDS.has(field)) return toNumber(cell);
+  // Dates are only dates; spreadsheet date cells are read at UTC midnight
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return typeof cell === 'string' ? cell.trim() : String(cell);
+}
+
+/**
+ * The fields of a row as a create request body, before validation. Empty
+ * cells are left out, numbers parsed and other values sent as text.
+ */
+export function toImportRecord(row: ImportRow, mapping: ImportColumnMapping): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+
+  mapping.columns.forEach((field, index) => {
+    const cell = row.cells[index];
+    if (field && !isBlank(cell)) {
+      record[field] = toFieldValue(field, cell);
+    }
+  });
+
+  return record;
+}
+
+/**
+ * The rejected rows of an import as a CSV file: row number, field, message
+ */
+export function importErrorsCsv(errors: DemographicsImportError[]): string {
+  return [['row', 'field', 'message'], ...errors.map(error => [error.row, error.field, error.message])]
+    .map(csvLine)
+    .join('');
+}
@@ -0,0 +1,268 @@
+import {
+  Demographics,
+  DemographicsChanges,
+  DemographicsCore,
+  DemographicsV2,
+  DemographicsCollectionKey,
+  DEMOGRAPHICS_COLLECTION_FIELDS,
+  VendorExpense,
+  VendorExpenseTypeSchema,
+  VendorExpenseType,
+} from '../types/demographics';
+
+type FlatRecord = Record<string, unknown>;
+type PositionedItem = { position?: number; [field: string]: unknown };
+
+interface FlatCollection {
+  key: Exclude<DemographicsCollectionKey, 'vendor_expenses'>;
+  slots: number;
+  fields: Record<string, (slot: number) => string>;
+}
+
+// How each v2 array maps onto the numbered v1 columns
+const FLAT_COLLECTIONS: FlatCollection[] = [
+  {
+    key: 'attorneys',
+    slots: 10,
+    fields: {
+      name: slot => `attorney${slot}name`,
+      fee_percent: slot => `attorney${slot}feepercent`,
+      fees: slot => `attorney${slot}fees`,
+      cost_amount: slot => `attorney${slot}costamount`,
+    },
+  },
+  {
+    key: 'medical_liens',
+    slots: 6,
+    fields: {
+      name: slot => `medicallien${slot}name`,
+      lien_id: slot => `lienid${slot}`,
+      lien_type: slot => `lientype${slot}`,
+      amount: slot => `medicallien${slot}`,
+    },
+  },
+  {
+    key: 'other_liens',
+    slots: 2,
+    fields: {
+      name: slot => `otherlien${slot}name`,
+      amount: slot => `otherlien${slot}amount`,
+    },
+  },
+  {
+    key: 'attorney_cost_details',
+    slots: 10,
+    fields: {
+      attorney_name: slot => `attorney${slot}name_cost`,
+      detail_name: slot => `attorney${slot}_costdetailname`,
+      amount: slot => `attorney${slot}_costdetailamount`,
+    },
+  },
+];
+
+const COLLECTION_KEYS: DemographicsCollectionKey[] = [
+  'attorneys',
+  'medical_liens',
+  'other_liens',
+  'vendor_expenses',
+  'attorney_cost_details',
+];
+
+const COLLECTION_FIELD_SET = new Set<string>(DEMOGRAPHICS_COLLECTION_FIELDS);
+
+function vendorAmountField(type: VendorExpenseType): string {
+  return type === 'other' ? 'vendorother' : `vendorexpense${type}`;
+}
+
+function vendorNameField(type: VendorExpenseType): string {
+  return `${vendorAmountField(type)}name`;
+}
+
+/**
+ * The v1 column holding a field of a v2 collection item, e.g. attorneys
+ * fee_percent in slot 2 is attorney2feepercent
+ */
+export function flatCollectionField(
+  key: Exclude<DemographicsCollectionKey, 'vendor_expenses'>,
+  field: string,
+  slot: number
+): string | undefined {
+  return FLAT_COLLECTIONS.find(collection => collection.key === key)?.fields[field]?.(slot);
+}
+
+/**
+ * Fill in missing positions with the next free slot, keeping explicit ones
+ */
+export function assignPositions<T extends PositionedItem>(items: T[]): (T & { position: number })[] {
+  const used = new Set(items.map(item => item.position).filter((position): position is number => position !== undefined));
+  let next = 1;
+
+  return items
+    .map(item => {
+      if (item.position !== undefined) {
+        return { ...item, position: item.position };
+      }
+      while (used.has(next)) next++;
+      used.add(next);
+      return { ...item, position: next };
+    })
+    .sort((a, b) => a.position - b.position);
+}
+
+function assignVendorPositions(items: VendorExpense[]): (VendorExpense & { position: number })[] {
+  return VendorExpenseTypeSchema.options.flatMap(type =>
+    assignPositions(items.filter(item => item.vendor_type === type))
+  );
+}
+
+/**
+ * Give every collection item an explicit position before it is stored
+ */
+export function normalizeCollections(record: DemographicsV2): DemographicsV2 {
+  return {
+    ...record,
+    attorneys: assignPositions(record.attorneys),
+    medical_liens: assignPositions(record.medical_liens),
+    other_liens: assignPositions(record.other_liens),
+    vendor_expenses: assignVendorPositions(record.vendor_expenses),
+    attorney_cost_details: assignPositions(record.attorney_cost_details),
+  };
+}
+
+/**
+ * Strip the v2 arrays (or v1 numbered columns) leaving the core fields
+ */
+export function pickCoreFields(source: DemographicsChanges | Partial<DemographicsV2>): Partial<DemographicsCore> {
+  const core: FlatRecord = {};
+  for (const [field, value] of Object.entries(source)) {
+    if (!COLLECTION_FIELD_SET.has(field) && !COLLECTION_KEYS.includes(field as DemographicsCollectionKey)) {
+      core[field] = value;
+    }
+  }
+  return core as Partial<DemographicsCore>;
+}
+
+/**
+ * Map a flat v1 payload to the v2 shape. Empty slots are skipped but each
+ * item keeps its slot number as position so the v1 view round-trips.
+ */
+export function toDemographicsV2(flat: Demographics): DemographicsV2 {
+  const source = flat as unknown as FlatRecord;
+  const record = { ...pickCoreFields(flat) } as FlatRecord;
+
+  for (const collection of FLAT_COLLECTIONS) {
+    const items: PositionedItem[] = [];
+    for (let slot = 1; slot <= collection.slots; slot++) {
+      const item: PositionedItem = { position: slot };
+      let hasValue = false;
+      for (const [field, column] of Object.entries(collection.fields)) {
+        const value = source[column(slot)];
+        if (value !== undefined && value !== null) {
+          item[field] = value;
+          hasValue = true;
+        }
+      }
+      if (hasValue) items.push(item);
+    }
+    record[collection.key] = items;
+  }
+
+  const vendorExpenses: VendorExpense[] = [];
+  for (const type of VendorExpenseTypeSchema.options) {
+    const amount = source[vendorAmountField(type)] as number | undefined;
+    const name = source[vendorNameField(type)] as string | undefined;
+    if ((amount !== undefined && amount !== null) || (name !== undefined && name !== null)) {
+      vendorExpenses.push({
+        position: 1,
+        vendor_type: type,
+        ...(name !== undefined && name !== null && { name }),
+        ...(amount !== undefined && amount !== null && { amount }),
+      });
+    }
+  }
+  record.vendor_expenses = vendorExpenses;
+
+  return record as unknown as DemographicsV2;
+}
+
+/**
+ * Map a v2 record to the flat v1 payload. Items positioned past the v1 slot
+ * limits (10 attorneys, 6 medical liens, ...) cannot be represented and are
+ * only visible through v2.
+ */
+export function toDemographicsV1(record: DemographicsV2): Demographics {
+  const flat = { ...pickCoreFields(record) } as FlatRecord;
+
+  for (const collection of FLAT_COLLECTIONS) {
+    const items = assignPositions((record[collection.key] || []) as PositionedItem[]);
+    for (const item of items) {
+      if (item.position > collection.slots) continue;
+      for (const [field, column] of Object.entries(collection.fields)) {
+        if (item[field] !== undefined) {
+          flat[column(item.position)] = item[field];
+        }
+      }
+    }
+  }
+
+  for (const item of assignVendorPositions(record.vendor_expenses || [])) {
+    if (item.position !== 1) continue;
+    if (item.amount !== undefined) flat[vendorAmountField(item.vendor_type)] = item.amount;
+    if (item.name !== undefined) flat[vendorNameField(item.vendor_type)] = item.name;
+  }
+
+  return flat as unknown as Demographics;
+}
+
+/**
+ * Whether a flat v1 change set touches any attorney, lien, vendor or cost column
+ */
+export function hasCollectionChanges(changes: DemographicsChanges): boolean {
+  return Object.keys(changes).some(field => COLLECTION_FIELD_SET.has(field));
+}
+
+/**
+ * Apply flat v1 column changes to a stored record's collections, keeping any
+ * items that sit beyond the v1 slot limits untouched. A null change clears
+ * the field.
+ */
+export function mergeFlatCollectionChanges(record: DemographicsV2, changes: DemographicsChanges): DemographicsV2 {
+  const flat = { ...toDemographicsV1(record), ...changes } as Demographics;
+  const merged = toDemographicsV2(flat);
+  const normalized = normalizeCollections(record);
+
+  for (const collection of FLAT_COLLECTIONS) {
+    const overflow = (normalized[collection.key] as PositionedItem[]).filter(
+      item => (item.position as number) > collection.slots
+    );
+    (merged[collection.key] as PositionedItem[]).push(...overflow);
+  }
+  merged.vendor_expenses.push(...normalized.vendor_expenses.filter(item => item.position !== 1));
+
+  const updated: FlatRecord = { ...record, ...pickCoreFields(changes), ...collectionsOf(merged) };
+  for (const [field, value] of Object.entries(updated)) {
+    if (value === null) delete updated[field];
+  }
+
+  return updated as DemographicsV2;
+}
+
+export function emptyCollections(): Pick<DemographicsV2, DemographicsCollectionKey> {
+  return {
+    attorneys: [],
+    medical_liens: [],
+    other_liens: [],
+    vendor_expenses: [],
+    attorney_cost_details: [],
+  };
+}
+
+function collectionsOf(record: DemographicsV2): Pick<DemographicsV2, DemographicsCollectionKey> {
+  return {
+    attorneys: record.attorneys,
+    medical_liens: record.medical_liens,
+    other_liens: record.other_liens,
+    vendor_expenses: record.vendor_expenses,
+    attorney_cost_details: record.attorney_cost_details,
+  };
+}
@@ -0,0 +1,74 @@
+import { DEMOGRAPHICS_PII_MASKS, PiiMask } from '../types/demographics';
+
+type RecordLike = Record<string, unknown>;
+
+const MASKS = DEMOGRAPHICS_PII_MASKS as Record<string, PiiMask | undefined>;
+
+function lastDigits(value: string, count: number): string | null {
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= count ? digits.slice(-count) : null;
+}
+
+/**
+ * Apply a mask to one value. Masking a masked value gives the same result,
+ * so values masked before they reach the response path pass through.
+ */
+export function maskValue(mask: PiiMask, value: string): string {
+  switch (mask) {
+    case 'ssn':
+      return `***-**-${lastDigits(value, 4) ?? '****'}`;
+    case 'year':
+      return /^\d{4}/.test(value) ? value.slice(0, 4) : '****';
+    case 'email': {
+      const at = value.lastIndexOf('@');
+      return at > 0 ? `${value[0]}***${value.slice(at)}` : '***';
+    }
+    case 'phone':
+      return `***-***-${lastDigits(value, 4) ?? '****'}`;
+    case 'redact':
+      return '***';
+  }
+}
+
+/**
+ * The masked form of the policy fields present in a record
+ */
+export function maskedFields(record: object, fields: Iterable<string> = Object.keys(MASKS)): Record<string, string> {
+  const source = record as RecordLike;
+  const masked: Record<string, string> = {};
+
+  for (const field of fields) {
+    const mask = MASKS[field];
+    const value = source[field];
+    if (mask && typeof value === 'string' && value !== '') {
+      masked[field] = maskValue(mask, value);
+    }
+  }
+
+  return masked;
+}
+
+/**
+ * Mask every policy field found anywhere in a response body: records, lists
+ * of records and history changes ({ field, old_value, new_value })
+ */
+export function maskPiiResponse(body: unknown): unknown {
+  if (Array.isArray(body)) return body.map(item => maskPiiResponse(item));
+  // Only plain objects are walked; Dates and the like serialize themselves
+  if (body === null || typeof body !== 'object' || Object.getPrototypeOf(body) !== Object.prototype) return body;
+
+  const source = body as RecordLike;
+  const result: RecordLike = {};
+  for (const [key, value] of Object.entries(source)) {
+    result[key] = maskPiiResponse(value);
+  }
+
+  const changeMask = typeof source.field === 'string' ? MASKS[source.field] : undefined;
+  if (changeMask && ('old_value' in source || 'new_value' in source)) {
+    for (const key of ['old_value', 'new_value']) {
+      if (typeof source[key] === 'string') result[key] = maskValue(changeMask, source[key] as string);
+    }
+  }
+
+  return { ...result, ...maskedFields(source) };
+}
@@ -0,0 +1,115 @@
+import {
+  DemographicsCore,
+  DemographicsDuplicateMatch,
+  DemographicsV2,
+  DuplicateMatchRule,
+  IMMUTABLE_DEMOGRAPHICS_FIELDS,
+} from '../types/demographics';
+
+type RecordLike = Record<string, unknown>;
+
+// Likelihood that two records sharing only this value are the same claimant
+const RULE_WEIGHTS: Record<DuplicateMatchRule, number> = {
+  ssn: 0.95,
+  dob_lastname: 0.8,
+  email: 0.6,
+  phone: 0.5,
+};
+
+// Candidates scoring at or above this are reported as likely duplicates
+export const DUPLICATE_THRESHOLD = 0.6;
+
+const UNMERGED_FIELDS = new Set<string>(IMMUTABLE_DEMOGRAPHICS_FIELDS);
+
+export interface DuplicateMatchKeys {
+  ssn?: string;
+  dob?: string;
+  lastname?: string;
+  email?: string;
+  phone?: string;
+}
+
+function digits(value: string | undefined): string {
+  return (value ?? '').replace(/\D/g, '');
+}
+
+/**
+ * The normalized values a record is matched on. SSNs must have 9 digits and
+ * phones at least 10 (compared on the last 10, dropping a leading 1).
+ */
+export function duplicateMatchKeys(record: Partial<DemographicsCore>): DuplicateMatchKeys {
+  const ssn = digits(record.ssn);
+  const phone = digits(record.phone);
+  const lastname = record.lastname?.trim().toLowerCase();
+  const email = record.email?.trim().toLowerCase();
+
+  return {
+    ...(ssn.length === 9 && { ssn }),
+    ...(record.dob && lastname && { dob: record.dob, lastname }),
+    ...(email && { email }),
+    ...(phone.length >= 10 && { phone: phone.slice(-10) }),
+  };
+}
+
+/**
+ * Combine the weights of every rule two records match on, treating each as
+ * independent evidence: 1 - (1 - w1)(1 - w2)...
+ */
+export function scoreDuplicate(
+  candidate: Partial<DemographicsCore>,
+  existing: Partial<DemographicsCore>
+): { score: number; matched_on: DuplicateMatchRule[] } {
+  const a = duplicateMatchKeys(candidate);
+  const b = duplicateMatchKeys(existing);
+
+  const matched_on = ([
+    ['ssn', a.ssn !== undefined && a.ssn === b.ssn],
+    ['dob_lastname', a.dob !== undefined && a.dob === b.dob && a.lastname === b.lastname],
+    ['email', a.email !== undefined && a.email === b.email],
+    ['phone', a.phone !== undefined && a.phone === b.phone],
+  ] as [DuplicateMatchRule, boolean][])
+    .filter(([, matched]) => matched)
+    .map(([rule]) => rule);
+
+  const miss = matched_on.reduce((product, rule) => product * (1 - RULE_WEIGHTS[rule]), 1);
+  return { score: Math.round((1 - miss) * 1000) / 1000, matched_on };
+}
+
+/**
+ * Existing records likely to be the same claimant as the candidate, best
+ * match first
+ */
+export function findDuplicates(
+  candidate: Partial<DemographicsCore>,
+  existing: DemographicsCore[]
+): DemographicsDuplicateMatch[] {
+  return existing
+    .filter(record => record.id !== candidate.id && record.status !== 'deleted')
+    .map(record => ({ id: record.id, ...scoreDuplicate(candidate, record) }))
+    .filter(match => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
+
+/**
+ * Fold duplicates into the surviving record: the target keeps every value it
+ * has, empty fields are filled from the sources in order, and an empty
+ * collection takes the first source's non-empty one
+ */
+export function mergeDuplicateRecords(target: DemographicsV2, sources: DemographicsV2[]): DemographicsV2 {
+  const merged = { ...target } as RecordLike;
+
+  for (const source of sources as unknown as RecordLike[]) {
+    for (const [field, value] of Object.entries(source)) {
+      if (UNMERGED_FIELDS.has(field) || value === undefined || value === null) continue;
+
+      const current = merged[field];
+      if (Array.isArray(value)) {
+        if (value.length > 0 && (!Array.isArray(current) || current.length === 0)) merged[field] = value;
+      } else if (current === undefined || current === null || current === '') {
+        merged[field] = value;
+      }
+    }
+  }
+
+  return merged as DemographicsV2;
+}
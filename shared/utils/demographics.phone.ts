@@ -0,0 +1,126 @@
+import { isSupportedCountry, parsePhoneNumberFromString, PhoneNumber, PhoneNumberType } from 'libphonenumber-js/max';
+import { DemographicsChanges } from '../types/demographics';
+import { isoCountryCode } from './demographics.address';
+
+/**
+ * Each phone field, the field holding its E.164 form and the address
+ * country its numbers are dialed from when they have no country code
+ */
+export const DEMOGRAPHICS_PHONE_FIELDS = {
+  phone: { e164: 'phone_e164', country: 'country' },
+  claimantmobilephone: { e164: 'claimantmobilephone_e164', country: 'country' },
+  claimanthomephone: { e164: 'claimanthomephone_e164', country: 'country' },
+  alternateclaimantpersonalphonenumber: {
+    e164: 'alternateclaimantpersonalphonenumber_e164',
+    country: 'alternateclaimantcountry',
+  },
+} as const;
+
+export type DemographicsPhoneField = keyof typeof DEMOGRAPHICS_PHONE_FIELDS;
+
+export type DemographicsE164Field = typeof DEMOGRAPHICS_PHONE_FIELDS[DemographicsPhoneField]['e164'];
+
+export type PhoneIssueCode = 'PHONE_INVALID' | 'PHONE_SMS_NOT_MOBILE';
+
+export interface PhoneIssue {
+  code: PhoneIssueCode;
+  field: DemographicsPhoneField;
+  message: string;
+}
+
+export interface NormalizedPhones {
+  values: Partial<Record<DemographicsE164Field, string>>; // E.164 form of every valid number given
+  issues: PhoneIssue[];
+}
+
+const PHONE_FIELDS = Object.keys(DEMOGRAPHICS_PHONE_FIELDS) as DemographicsPhoneField[];
+
+// Numbers without a country code and no known address country
+const DEFAULT_COUNTRY = 'US';
+
+// US and Canadian numbers cannot be told apart as fixed line or mobile
+const SMS_CAPABLE_TYPES = new Set<PhoneNumberType>(['MOBILE', 'FIXED_LINE_OR_MOBILE']);
+
+function parsePhone(value: string, country: unknown): PhoneNumber | undefined {
+  const region = isoCountryCode(country);
+  const parsed = parsePhoneNumberFromString(value, {
+    defaultCountry: region && isSupportedCountry(region) ? region : DEFAULT_COUNTRY,
+    extract: false,
+  });
+  return parsed?.isValid() ? parsed : undefined;
+}
+
+/**
+ * Parse the phone fields present in a record against the numbering plans,
+ * with the E.164 form of each valid number. With sms_opt_in Y, the number
+ * texted (claimantmobilephone, or phone without one) is flagged when it is
+ * known not to take SMS.
+ */
+export function normalizeDemographicsPhones(record: object): NormalizedPhones {
+  const source = record as Record<string, unknown>;
+  const result: NormalizedPhones = { values: {}, issues: [] };
+  const parsed = new Map<DemographicsPhoneField, PhoneNumber>();
+
+  for (const field of PHONE_FIELDS) {
+    const value = source[field];
+    if (typeof value !== 'string' || value.trim() === '') continue;
+
+    const { e164, country } = DEMOGRAPHICS_PHONE_FIELDS[field];
+    const number = parsePhone(value, source[country]);
+    if (number) {
+      parsed.set(field, number);
+      result.values[e164] = number.number;
+    } else {
+      result.issues.push({ code: 'PHONE_INVALID', field, message: `${field} ${value} is not a valid phone number` });
+    }
+  }
+
+  if (source.sms_opt_in === 'Y') {
+    const mobile = source.claimantmobilephone;
+    const field = typeof mobile === 'string' && mobile.trim() !== '' ? 'claimantmobilephone' : 'phone';
+    const type = parsed.get(field)?.getType();
+    if (type && !SMS_CAPABLE_TYPES.has(type)) {
+      result.issues.push({
+        code: 'PHONE_SMS_NOT_MOBILE',
+        field,
+        message: `sms_opt_in is Y but ${field} ${source[field]} is a ${type.toLowerCase().replace(/_/g, ' ')} number`,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A new record with the E.164 form of each valid phone number it sets
+ */
+export function withNormalizedPhones<T extends object>(record: T): T & NormalizedPhones['values'] {
+  return { ...record, ...normalizeDemographicsPhones(record).values };
+}
+
+export function hasPhoneChanges(changes: DemographicsChanges): boolean {
+  return PHONE_FIELDS.some(field => changes[field] !== undefined);
+}
+
+/**
+ * Changes with the E.164 form of each phone number they set, read in the
+ * context of the stored record; numbers cleared or not valid clear theirs
+ */
+export function normalizePhoneChanges(
+  changes: DemographicsChanges,
+  stored: DemographicsChanges = {}
+): DemographicsChanges {
+  if (!hasPhoneChanges(changes)) return changes;
+
+  const { values } = normalizeDemographicsPhones({ ...stored, ...changes });
+  const normalized: DemographicsChanges = { ...changes };
+
+  for (const field of PHONE_FIELDS) {
+    if (changes[field] === undefined) continue;
+
+    const { e164 } = DEMOGRAPHICS_PHONE_FIELDS[field];
+    normalized[e164] = values[e164] ?? null;
+  }
+
+  return normalized;
+}
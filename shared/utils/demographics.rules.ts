@@ -0,0 +1,235 @@
+import {
+  Attorney,
+  CreateDemographicsRequest,
+  CreateDemographicsV2Request,
+  Demographics,
+  DemographicsChanges,
+  DemographicsCore,
+  DemographicsRuleViolation,
+  RuleSeverity,
+} from '../types/demographics';
+import { AddressIssueCode, DEMOGRAPHICS_ADDRESS_FIELDS, normalizeDemographicsAddresses } from './demographics.address';
+import { assignPositions, flatCollectionField, toDemographicsV2 } from './demographics.mapper';
+import { DEMOGRAPHICS_PHONE_FIELDS, normalizeDemographicsPhones, PhoneIssueCode } from './demographics.phone';
+
+export type DemographicsRuleInput = CreateDemographicsRequest | CreateDemographicsV2Request;
+
+/**
+ * What a rule sees of a submission: the core fields plus the repeating
+ * groups it needs, each item with the payload path of its fields so
+ * violations point at the v1 column or v2 array element that was sent
+ */
+export interface DemographicsRuleSubject {
+  record: Partial<DemographicsCore>;
+  attorneys: { attorney: Attorney; path: (field: keyof Attorney) => string }[];
+  today: string; // YYYY-MM-DD
+}
+
+export interface DemographicsRule {
+  code: string; // Stable; law firms override severities by code
+  description: string;
+  severity: RuleSeverity; // Default when the law firm has not set one
+  // Fields the rule reads. An update setting any of them is checked against the stored record with the changes applied.
+  updates?: readonly string[];
+  check(subject: DemographicsRuleSubject): { field: string; message: string }[];
+}
+
+const ADULT_AGE = 18;
+// Fee percentages are fractions; allow for floating point error in the sum
+const FEE_PERCENT_TOLERANCE = 1e-9;
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function addressRule(code: AddressIssueCode, description: string, severity: RuleSeverity): DemographicsRule {
+  return {
+    code,
+    description,
+    severity,
+    updates: DEMOGRAPHICS_ADDRESS_FIELDS,
+    check: ({ record }) => normalizeDemographicsAddresses(record).issues
+      .filter(issue => issue.code === code)
+      .map(({ field, message }) => ({ field, message })),
+  };
+}
+
+function phoneRule(
+  code: PhoneIssueCode,
+  description: string,
+  severity: RuleSeverity,
+  updates: readonly string[]
+): DemographicsRule {
+  return {
+    code,
+    description,
+    severity,
+    updates,
+    check: ({ record }) => normalizeDemographicsPhones(record).issues
+      .filter(issue => issue.code === code)
+      .map(({ field, message }) => ({ field, message })),
+  };
+}
+
+const rules: DemographicsRule[] = [
+  {
+    code: 'DECEDENT_DOD_REQUIRED',
+    description: 'claimanttype Decedent requires dod',
+    severity: 'error',
+    check: ({ record }) => record.claimanttype === 'Decedent' && isBlank(record.dod)
+      ? [{ field: 'dod', message: 'dod is required when claimanttype is Decedent' }]
+      : [],
+  },
+  {
+    code: 'ALTERNATE_CLAIMANT_REQUIRED',
+    description: 'claimanttype Alternate requires altclaimanttype and the alternate claimant first and last name',
+    severity: 'error',
+    check: ({ record }) => record.claimanttype !== 'Alternate'
+      ? []
+      : (['altclaimanttype', 'alternateclaimantfirstname', 'alternateclaimantlastname'] as const)
+          .filter(field => isBlank(record[field]))
+          .map(field => ({ field, message: `${field} is required when claimanttype is Alternate` })),
+  },
+  {
+    code: 'BANKRUPTCY_CLEARED_WITHOUT_BANKRUPTCY',
+    description: "bankruptcycleared must be empty or 'Non applicable' when bankruptcy is N",
+    severity: 'error',
+    check: ({ record }) =>
+      record.bankruptcy === 'N' && !isBlank(record.bankruptcycleared) && record.bankruptcycleared !== 'Non applicable'
+        ? [{ field: 'bankruptcycleared', message: `bankruptcycleared is ${record.bankruptcycleared} but bankruptcy is N` }]
+        : [],
+  },
+  {
+    code: 'MINOR_DOB_ADULT',
+    description: `claimanttype Minor requires a dob less than ${ADULT_AGE} years ago`,
+    severity: 'error',
+    check: ({ record, today }) => {
+      if (record.claimanttype !== 'Minor' || isBlank(record.dob)) return [];
+
+      // ISO dates compare as strings; the cutoff is the latest dob of an adult
+      const cutoff = `${Number(today.slice(0, 4)) - ADULT_AGE}${today.slice(4)}`;
+      return record.dob! <= cutoff
+        ? [{ field: 'dob', message: `dob ${record.dob} is ${ADULT_AGE} or more years ago but claimanttype is Minor` }]
+        : [];
+    },
+  },
+  {
+    code: 'ATTORNEY_FEE_PERCENT_TOTAL',
+    description: 'Attorney fee percentages must not sum to more than 1.0',
+    severity: 'error',
+    check: ({ attorneys }) => {
+      let total = 0;
+      for (const { attorney, path } of attorneys) {
+        total += attorney.fee_percent ?? 0;
+        if (total > 1 + FEE_PERCENT_TOLERANCE) {
+          // Reported on the attorney that takes the total over 1.0
+          return [{ field: path('fee_percent'), message: 'Attorney fee percentages sum to more than 1.0' }];
+        }
+      }
+      return [];
+    },
+  },
+  addressRule('ADDRESS_STATE_INVALID', 'A US address state must be a USPS state code', 'error'),
+  addressRule('ADDRESS_ZIP_INVALID', 'A US address zipcode must be a ZIP or ZIP+4 code', 'error'),
+  addressRule('ADDRESS_ZIP_STATE_MISMATCH', "A US address zipcode should belong to the address's state", 'warning'),
+  addressRule('ADDRESS_COUNTRY_UNKNOWN', 'An address country should be an ISO 3166 country name or code', 'warning'),
+  phoneRule(
+    'PHONE_INVALID',
+    'Phone numbers must be valid; those without a country code are read as numbers of the address country, or the US',
+    'error',
+    [...Object.keys(DEMOGRAPHICS_PHONE_FIELDS), 'country', 'alternateclaimantcountry']
+  ),
+  phoneRule(
+    'PHONE_SMS_NOT_MOBILE',
+    'sms_opt_in Y should come with a claimantmobilephone, or phone without one, that can receive SMS',
+    'warning',
+    ['sms_opt_in', 'claimantmobilephone', 'phone', 'country']
+  ),
+];
+
+/**
+ * Add a rule to every evaluation. Codes must be unique.
+ */
+export function registerDemographicsRule(rule: DemographicsRule): void {
+  if (rules.some(existing => existing.code === rule.code)) {
+    throw new Error(`Demographics rule ${rule.code} is already registered`);
+  }
+  rules.push(rule);
+}
+
+export function demographicsRules(): readonly DemographicsRule[] {
+  return rules;
+}
+
+function ruleSubject(input: DemographicsRuleInput, today: string): DemographicsRuleSubject {
+  if ('attorneys' in input && Array.isArray(input.attorneys)) {
+    return {
+      record: input,
+      attorneys: input.attorneys.map((attorney, index) => ({
+        attorney,
+        path: field => `attorneys.${index}.${field}`,
+      })),
+      today,
+    };
+  }
+
+  // v1: attorneys come from the numbered columns, in slot order
+  const attorneys = assignPositions(toDemographicsV2(input as Demographics).attorneys);
+  return {
+    record: input,
+    attorneys: attorneys.map(attorney => ({
+      attorney,
+      path: field => flatCollectionField('attorneys', field, attorney.position) ?? field,
+    })),
+    today,
+  };
+}
+
+/**
+ * Run every rule against a parsed submission. severities holds the law
+ * firm's overrides by rule code; other rules use their default.
+ */
+export function evaluateDemographicsRules(
+  input: DemographicsRuleInput,
+  severities: Record<string, RuleSeverity> = {},
+  today: string = new Date().toISOString().slice(0, 10)
+): DemographicsRuleViolation[] {
+  const subject = ruleSubject(input, today);
+
+  return rules.flatMap(rule => rule.check(subject).map(violation => ({
+    code: rule.code,
+    severity: severities[rule.code] ?? rule.severity,
+    ...violation,
+  })));
+}
+
+function checksUpdate(rule: DemographicsRule, changes: DemographicsChanges): boolean {
+  return rule.updates?.some(field => changes[field as keyof DemographicsChanges] !== undefined) ?? false;
+}
+
+/**
+ * Whether any rule checks an update with these changes
+ */
+export function hasRuleCheckedChanges(changes: DemographicsChanges): boolean {
+  return rules.some(rule => checksUpdate(rule, changes));
+}
+
+/**
+ * Run the rules that read a field the changes set against the stored record
+ * with the changes applied
+ */
+export function evaluateDemographicsUpdateRules(
+  stored: DemographicsChanges,
+  changes: DemographicsChanges,
+  severities: Record<string, RuleSeverity> = {},
+  today: string = new Date().toISOString().slice(0, 10)
+): DemographicsRuleViolation[] {
+  const record = { ...stored, ...changes } as Partial<DemographicsCore>;
+  const subject: DemographicsRuleSubject = { record, attorneys: [], today };
+
+  return rules.filter(rule => checksUpdate(rule, changes)).flatMap(rule => rule.check(subject).map(violation => ({
+    code: rule.code,
+    severity: severities[rule.code] ?? rule.severity,
+    ...violation,
+  })));
+}
@@ -0,0 +1,131 @@
+import {
+  DEMOGRAPHICS_NAME_SEARCH_FIELDS,
+  DemographicsCore,
+  DemographicsNameKey,
+  Scored,
+} from '../types/demographics';
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+// Weight of spelling similarity against a phonetic match in a token's score
+const SPELLING_WEIGHT = 0.7;
+
+/**
+ * Lowercase name parts with accents and punctuation removed, so "O'Brien-Smith"
+ * gives ["obrien", "smith"]
+ */
+export function nameTokens(value: string | null | undefined): string[] {
+  if (!value) return [];
+
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[\s-]+/)
+    .map(token => token.replace(/[^a-z]/g, ''))
+    .filter(Boolean);
+}
+
+/**
+ * American Soundex, the same code SQL Server's SOUNDEX() returns for a
+ * single word
+ */
+export function soundex(token: string): string {
+  const letters = token.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter];
+    if (digit) {
+      if (digit !== previous) code += digit;
+      previous = digit;
+    } else if (letter !== 'h' && letter !== 'w') {
+      // Vowels separate repeated codes; h and w do not
+      previous = '';
+    }
+    if (code.length === 4) break;
+  }
+
+  return code.padEnd(4, '0');
+}
+
+/**
+ * Phonetic keys stored for a record's names, one per distinct field and key
+ */
+export function nameKeys(record: Partial<DemographicsCore>): DemographicsNameKey[] {
+  const keys = new Map<string, DemographicsNameKey>();
+
+  for (const field of DEMOGRAPHICS_NAME_SEARCH_FIELDS) {
+    for (const token of nameTokens(record[field])) {
+      const key = soundex(token);
+      keys.set(`${field}:${key}`, { field, key });
+    }
+  }
+
+  return Array.from(keys.values());
+}
+
+/**
+ * Phonetic keys to look up for a search string
+ */
+export function searchKeys(search: string): string[] {
+  return Array.from(new Set(nameTokens(search).map(soundex)));
+}
+
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function tokenScore(searchToken: string, nameToken: string): number {
+  const similarity = 1 - editDistance(searchToken, nameToken) / Math.max(searchToken.length, nameToken.length);
+  const phonetic = soundex(searchToken) === soundex(nameToken) ? 1 : 0;
+  return SPELLING_WEIGHT * similarity + (1 - SPELLING_WEIGHT) * phonetic;
+}
+
+/**
+ * How well a record's names match a search: each search word is scored
+ * against its closest name part by spelling and sound, and the scores are
+ * averaged. An exact match scores 1.
+ */
+export function nameRelevance(record: Partial<DemographicsCore>, search: string): number {
+  const searchTokens = nameTokens(search);
+  const recordTokens = DEMOGRAPHICS_NAME_SEARCH_FIELDS.flatMap(field => nameTokens(record[field]));
+  if (searchTokens.length === 0 || recordTokens.length === 0) return 0;
+
+  const total = searchTokens.reduce(
+    (sum, searchToken) => sum + Math.max(...recordTokens.map(nameToken => tokenScore(searchToken, nameToken))),
+    0
+  );
+
+  return Math.round((total / searchTokens.length) * 1000) / 1000;
+}
+
+/**
+ * Order records by relevance, best first, ties broken by id
+ */
+export function rankByRelevance<T extends DemographicsCore>(records: T[], search: string): Scored<T>[] {
+  return records
+    .map(record => ({ ...record, relevance: nameRelevance(record, search) }))
+    .sort((a, b) => b.relevance - a.relevance || a.id.localeCompare(b.id));
+}
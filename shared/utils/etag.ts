@@ -0,0 +1,22 @@
+import { ExpectedVersion } from '../types/demographics';
+
+/**
+ * Quote a row version for the ETag header
+ */
+export function formatETag(rowVersion: string): string {
+  return `"${rowVersion}"`;
+}
+
+/**
+ * Parse an If-Match header into the row versions it lists. Weak tags are
+ * dropped since If-Match requires a strong comparison (RFC 9110 13.1.1).
+ */
+export function parseIfMatch(header: string): ExpectedVersion {
+  if (header.trim() === '*') return '*';
+
+  return header
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => tag.startsWith('"') && tag.endsWith('"') && tag.length > 1)
+    .map(tag => tag.slice(1, -1));
+}
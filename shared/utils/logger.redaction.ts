@@ -0,0 +1,116 @@
+import winston from 'winston';
+import { DEMOGRAPHICS_PII_MASKS } from '../types/demographics';
+
+export const REDACTED = '[REDACTED]';
+
+// Keys whose values are never logged. Matching ignores case and separators
+// and also catches prefixed keys, so ssn covers alternateclaimantssn and
+// x-api-key covers X-API-Key.
+export const DEFAULT_LOG_REDACTION_KEYS = [
+  ...Object.keys(DEMOGRAPHICS_PII_MASKS),
+  'ssn',
+  'dob',
+  'email',
+  'phone',
+  'x-api-key',
+  'api_key',
+  'key_hash',
+  'authorization',
+  'password',
+  'sig',
+];
+
+interface ValuePattern {
+  pattern: RegExp;
+  replace: (match: string, prefix: string) => string;
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Sensitive values found inside any logged string, whatever its key
+const VALUE_PATTERNS: ValuePattern[] = [
+  // SAS and other signed URLs: the signature is the credential
+  { pattern: /([?&]sig=)[^&\s"']+/gi, replace: (_match, prefix) => `${prefix}${REDACTED}` },
+  { pattern: /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g, replace: () => REDACTED },
+  // Card numbers; the Luhn check keeps long ids and timestamps out
+  {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replace: match => (passesLuhn(match.replace(/\D/g, '')) ? REDACTED : match),
+  },
+];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * The default keys plus those in LOG_REDACT_KEYS (comma separated)
+ */
+export function logRedactionKeys(): string[] {
+  const extra = (process.env.LOG_REDACT_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  return [...DEFAULT_LOG_REDACTION_KEYS, ...extra];
+}
+
+export function redactString(value: string): string {
+  return VALUE_PATTERNS.reduce((result, { pattern, replace }) => result.replace(pattern, replace), value);
+}
+
+/**
+ * A copy of value with the values of sensitive keys replaced and sensitive
+ * patterns scrubbed from every string, at any depth. Errors become plain
+ * objects so their message and stack are scrubbed too.
+ */
+export function redactSensitive(value: unknown, keys: Iterable<string> = logRedactionKeys()): unknown {
+  const sensitive = Array.from(keys, normalizeKey).filter(Boolean);
+  const isSensitive = (key: string) => {
+    const normalized = normalizeKey(key);
+    return sensitive.some(candidate => normalized.endsWith(candidate));
+  };
+  const seen = new WeakSet<object>();
+
+  const visit = (current: unknown): unknown => {
+    if (typeof current === 'string') return redactString(current);
+    if (current === null || typeof current !== 'object') return current;
+    if (current instanceof Date) return current;
+    if (seen.has(current)) return '[Circular]';
+    seen.add(current);
+
+    if (Array.isArray(current)) return current.map(visit);
+
+    const source = current instanceof Error
+      ? { ...current, name: current.name, message: current.message, stack: current.stack }
+      : (current as Record<string, unknown>);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(source)) {
+      result[key] = entry !== null && entry !== undefined && isSensitive(key) ? REDACTED : visit(entry);
+    }
+    return result;
+  };
+
+  return visit(value);
+}
+
+/**
+ * Winston format scrubbing an info object in place before any transport
+ * formats it. Winston's own symbol keys (level, splat, message) are kept.
+ */
+export const redactFormat = winston.format((info, options) => {
+  const keys = (options as { keys?: string[] } | undefined)?.keys ?? logRedactionKeys();
+  const redacted = redactSensitive({ ...info }, keys) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(redacted)) {
+    (info as Record<string, unknown>)[key] = value;
+  }
+  return info;
+});
@@ -1,4 +1,6 @@
+import path from 'path';
 import winston from 'winston';
+import { logRedactionKeys, redactFormat } from './logger.redaction';
 
 interface LogMetadata {
   requestId?: string;
@@ -15,11 +17,16 @@ class LoggerService {
   constructor() {
     const isDevelopment = process.env.NODE_ENV === 'development';
     const logLevel = process.env.LOG_LEVEL || (isDevelopment ? 'debug' : 'info');
+    const logDir = process.env.LOG_DIR || 'logs';
+
+    // Scrubs sensitive keys and values before anything is formatted or written
+    const redact = redactFormat({ keys: logRedactionKeys() });
 
     // Create custom format
     const customFormat = winston.format.combine(
       winston.format.timestamp(),
       winston.format.errors({ stack: true }),
+      redact,
       winston.format.json(),
       winston.format.colorize({ all: isDevelopment }),
       winston.format.printf(({ timestamp, level, message, ...meta }) => {
@@ -36,6 +43,7 @@ class LoggerService {
         level: logLevel,
         format: isDevelopment 
           ? winston.format.combine(
+              redact,
               winston.format.colorize(),
               winston.format.simple()
             )
@@ -49,7 +57,7 @@ class LoggerService {
     if (!isDevelopment) {
       transports.push(
         new winston.transports.File({
-          filename: 'logs/error.log',
+          filename: path.join(logDir, 'error.log'),
           level: 'error',
           format: customFormat,
           maxsize: 50 * 1024 * 1024, // 50MB
@@ -57,7 +65,7 @@ class LoggerService {
           tailable: true
         }),
         new winston.transports.File({
-          filename: 'logs/combined.log',
+          filename: path.join(logDir, 'combined.log'),
           format: customFormat,
           maxsize: 100 * 1024 * 1024, // 100MB
           maxFiles: 10,
@@ -81,14 +89,14 @@ class LoggerService {
     // Handle uncaught exceptions
     this.logger.exceptions.handle(
       new winston.transports.Console({
-        format: winston.format.simple()
+        format: winston.format.combine(redact, winston.format.simple())
       })
     );
 
     // Handle unhandled promise rejections
     this.logger.rejections.handle(
       new winston.transports.Console({
-        format: winston.format.simple()
+        format: winston.format.combine(redact, winston.format.simple())
       })
     );
   }
@@ -109,6 +117,15 @@ class LoggerService {
     this.logger.debug(message, meta);
   }
 
+  // Flush and close every transport, e.g. before a script exits
+  close(): Promise<void> {
+    const finished = this.logger.transports.map(
+      transport => new Promise<void>(resolve => transport.once('finish', () => resolve()))
+    );
+    this.logger.end();
+    return Promise.all(finished).then(() => undefined);
+  }
+
   // Method for request/response logging
   logRequest(method: string, path: string, statusCode: number, processingTime: number, meta?: LogMetadata): void {
     const level = statusCode >= 500 ? 'error' : statusCode >= 400 ? 'warn' : 'info';